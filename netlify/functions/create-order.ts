@@ -0,0 +1,265 @@
+import { Handler } from '@netlify/functions';
+import { supabaseAdmin } from '../lib/supabase-admin';
+import { getClientIp, guardMethod, jsonResponse, parseJsonBody, UUID_PATTERN } from '../lib/http';
+import { createRateLimiter } from '../lib/rate-limit';
+import { buildOrderEmbed, sendDiscordEmbed } from '../lib/discord';
+import { generateOrderNumber } from '../lib/order-number';
+import { isValidQuoteSignature } from '../lib/quote';
+import { GIFT_MESSAGE_MAX_LENGTH, type OrderItem, type QuoteLine } from '../../src/types/order';
+import { calculatePaymentFee } from '../../src/types/payment-method';
+
+interface CreateOrderPayload {
+  username?: string;
+  platform?: string;
+  quoteId?: string;
+  quoteSignature?: string;
+  paymentMethodId?: string;
+  paymentProofUrl?: string;
+  // Gift orders: the player who receives the rank, and an optional note to them
+  recipientUsername?: string;
+  recipientPlatform?: string;
+  giftMessage?: string;
+}
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,16}$/;
+const PLATFORMS = ['java', 'bedrock'];
+const MAX_ORDER_NUMBER_ATTEMPTS = 3;
+const ORDER_COLUMNS =
+  'id, order_number, customer_name, customer_phone, platform, rank_name, order_type, upgrade_from, items, total_amount, currency, payment_method, payment_fee, payment_proof_url, status, created_at, updated_at, updated_by, updated_by_email, coupon_code, discount_amount, gift_recipient_name, gift_recipient_platform, gift_message';
+
+const checkRateLimit = createRateLimiter(5, 60 * 1000);
+
+const validatePayload = (payload: CreateOrderPayload): string[] => {
+  const errors: string[] = [];
+
+  if (!payload.username || !USERNAME_PATTERN.test(payload.username.trim())) {
+    errors.push('Minecraft username must be 3-16 letters, numbers, or underscores');
+  }
+
+  if (!payload.platform || !PLATFORMS.includes(payload.platform)) {
+    errors.push('Platform must be java or bedrock');
+  }
+
+  if (payload.recipientUsername !== undefined) {
+    const recipient = payload.recipientUsername.trim();
+    if (!USERNAME_PATTERN.test(recipient)) {
+      errors.push('Recipient username must be 3-16 letters, numbers, or underscores');
+    }
+
+    if (!payload.recipientPlatform || !PLATFORMS.includes(payload.recipientPlatform)) {
+      errors.push('Recipient platform must be java or bedrock');
+    }
+
+    if (recipient.toLowerCase() === payload.username?.trim().toLowerCase() && payload.recipientPlatform === payload.platform) {
+      errors.push('A gift must be for another player');
+    }
+  }
+
+  if (payload.giftMessage && payload.giftMessage.trim().length > GIFT_MESSAGE_MAX_LENGTH) {
+    errors.push(`Gift message must be at most ${GIFT_MESSAGE_MAX_LENGTH} characters`);
+  }
+
+  if (!payload.quoteId || !UUID_PATTERN.test(payload.quoteId) || !payload.quoteSignature) {
+    errors.push('A price quote is required');
+  }
+
+  if (!payload.paymentMethodId || !UUID_PATTERN.test(payload.paymentMethodId)) {
+    errors.push('Select a payment method');
+  }
+
+  try {
+    const url = new URL(payload.paymentProofUrl || '');
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      errors.push('Payment proof URL is invalid');
+    }
+  } catch {
+    errors.push('Payment proof is required');
+  }
+
+  return errors;
+};
+
+const handler: Handler = async (event) => {
+  const guard = guardMethod(event, ['POST']);
+  if (guard) return guard;
+
+  const retryAfter = checkRateLimit(getClientIp(event));
+  if (retryAfter > 0) {
+    return jsonResponse(
+      429,
+      { message: `Too many requests. Please try again in ${retryAfter} seconds.` },
+      { 'Retry-After': retryAfter.toString() }
+    );
+  }
+
+  const payload = parseJsonBody<CreateOrderPayload>(event);
+  if (!payload) {
+    return jsonResponse(400, { message: 'Invalid JSON payload' });
+  }
+
+  const validationErrors = validatePayload(payload);
+  if (validationErrors.length > 0) {
+    return jsonResponse(400, { message: validationErrors.join('. ') });
+  }
+
+  const isGift = payload.recipientUsername !== undefined;
+  // The player the rank is delivered to
+  const holderName = isGift ? payload.recipientUsername!.trim() : payload.username!.trim();
+  const holderPlatform = isGift ? payload.recipientPlatform : payload.platform;
+  let claimedQuoteId: string | null = null;
+
+  try {
+    // The price comes from the signed server quote, never from the browser
+    const { data: quote, error: quoteError } = await supabaseAdmin
+      .from('price_quotes')
+      .select('id, product_id, product_name, lines, price, original_price, order_type, upgrade_from, customer_name, platform, coupon_id, coupon_code, discount_amount, expires_at, used_at')
+      .eq('id', payload.quoteId!)
+      .maybeSingle();
+
+    if (quoteError) throw quoteError;
+    if (!quote || !Array.isArray(quote.lines) || quote.lines.length === 0 ||
+        !isValidQuoteSignature(quote, payload.quoteSignature!)) {
+      return jsonResponse(400, { code: 'quote_invalid', message: 'Invalid price quote' });
+    }
+
+    // The upgrade credit belongs to the player who owns the rank being replaced
+    if (quote.order_type === 'upgrade' && (
+      quote.customer_name?.toLowerCase() !== holderName.toLowerCase() ||
+      quote.platform !== holderPlatform
+    )) {
+      return jsonResponse(409, { code: 'quote_invalid', message: 'This upgrade price was quoted for a different player' });
+    }
+
+    if (new Date(quote.expires_at).getTime() < Date.now()) {
+      return jsonResponse(409, { code: 'quote_expired', message: 'Your price quote expired. Please review the price and submit again.' });
+    }
+
+    // The fee comes from the method's current settings, like the price from the quote
+    const { data: paymentMethod, error: methodError } = await supabaseAdmin
+      .from('payment_methods')
+      .select('id, name, fee_percent, fee_fixed')
+      .eq('id', payload.paymentMethodId!)
+      .eq('active', true)
+      .maybeSingle();
+
+    if (methodError) throw methodError;
+    if (!paymentMethod) {
+      return jsonResponse(409, { code: 'payment_method_unavailable', message: 'This payment method is no longer available. Please choose another.' });
+    }
+
+    // Claim the quote atomically so it can only pay for one order
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('price_quotes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('id', quote.id)
+      .is('used_at', null)
+      .select('id');
+
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) {
+      return jsonResponse(409, { code: 'quote_used', message: 'This price quote was already used' });
+    }
+    claimedQuoteId = quote.id;
+
+    if (quote.coupon_id) {
+      // Re-checks the coupon's caps under a lock; the quote only checked them early
+      const { error: redeemError } = await supabaseAdmin.rpc('redeem_coupon', {
+        p_quote_id: quote.id,
+        p_customer_name: payload.username!.trim()
+      });
+
+      if (redeemError?.code === 'PT409') {
+        await supabaseAdmin.from('price_quotes').update({ used_at: null }).eq('id', quote.id);
+        return jsonResponse(409, { code: 'coupon_unavailable', message: redeemError.message });
+      }
+      if (redeemError) throw redeemError;
+    }
+
+    // Takes limited products out of stock under a row lock, so they can't be oversold
+    const { error: stockError } = await supabaseAdmin.rpc('reserve_stock', { p_quote_id: quote.id });
+    if (stockError?.code === 'PT409') {
+      await supabaseAdmin.from('coupon_redemptions').delete().eq('quote_id', quote.id);
+      await supabaseAdmin.from('price_quotes').update({ used_at: null }).eq('id', quote.id);
+      return jsonResponse(409, { code: 'sold_out', message: stockError.message });
+    }
+    if (stockError) throw stockError;
+
+    const price = Number(quote.price);
+    const paymentFee = calculatePaymentFee(paymentMethod, price);
+    const discount = Number(quote.discount_amount) || 0;
+    const lines = quote.lines as QuoteLine[];
+    const rankLine = lines.find(line => line.item_type === 'rank');
+    // Line prices are before the coupon, which is recorded on the order
+    const items: OrderItem[] = lines.map(line => ({
+      name: line.item_type === 'rank' && quote.order_type === 'upgrade'
+        ? `${line.product_name} (upgrade from ${quote.upgrade_from})`
+        : line.product_name,
+      price: Number(line.price),
+      product_id: line.product_id,
+      product_name: line.product_name,
+      item_type: line.item_type,
+      quantity: line.quantity,
+      unit_price: Number(line.unit_price)
+    }));
+    let order = null;
+
+    for (let attempt = 0; attempt < MAX_ORDER_NUMBER_ATTEMPTS && !order; attempt++) {
+      const { data, error } = await supabaseAdmin
+        .from('orders')
+        .insert({
+          order_number: generateOrderNumber(),
+          customer_name: payload.username!.trim(),
+          platform: payload.platform,
+          rank_name: rankLine?.product_name ?? null,
+          order_type: quote.order_type,
+          upgrade_from: quote.upgrade_from,
+          items,
+          total_amount: Math.round((price + paymentFee) * 100) / 100,
+          coupon_code: quote.coupon_code,
+          discount_amount: discount,
+          payment_method_id: paymentMethod.id,
+          payment_method: paymentMethod.name,
+          payment_fee: paymentFee,
+          gift_recipient_name: isGift ? holderName : null,
+          gift_recipient_platform: isGift ? holderPlatform : null,
+          // Control characters would break the Discord embed and receipt layout
+          gift_message: isGift ? payload.giftMessage?.replace(/\p{Cc}+/gu, ' ').trim() || null : null,
+          payment_proof_url: payload.paymentProofUrl,
+          quote_id: quote.id,
+          status: 'pending'
+        })
+        .select(ORDER_COLUMNS)
+        .single();
+
+      // 23505 = unique violation on order_number, try a fresh one
+      if (error && error.code !== '23505') throw error;
+      order = data;
+    }
+
+    if (!order) {
+      throw new Error('Could not generate a unique order ID');
+    }
+
+    // The order is persisted at this point; a Discord outage must not fail it
+    try {
+      await sendDiscordEmbed(buildOrderEmbed(order));
+    } catch (notifyError) {
+      console.error('Failed to send Discord notification:', notifyError);
+    }
+
+    return jsonResponse(201, { order });
+  } catch (error) {
+    console.error('Error in create-order function:', error);
+
+    // Release the quote, its coupon use and its stock, so the customer can retry with the same price
+    if (claimedQuoteId) {
+      await supabaseAdmin.rpc('release_stock', { p_quote_id: claimedQuoteId });
+      await supabaseAdmin.from('coupon_redemptions').delete().eq('quote_id', claimedQuoteId);
+      await supabaseAdmin.from('price_quotes').update({ used_at: null }).eq('id', claimedQuoteId);
+    }
+
+    return jsonResponse(500, { message: 'Failed to create order. Please try again.' });
+  }
+};
+
+export { handler };
@@ -0,0 +1,48 @@
+import { Handler } from '@netlify/functions';
+import { guardMethod, jsonResponse, parseJsonBody } from '../lib/http';
+import { getStaffUser } from '../lib/auth';
+import { processDelivery, requeueDelivery } from '../lib/delivery';
+
+interface DeliverOrderPayload {
+  orderId?: string;
+  // Deliver even if the player does not appear online
+  skipOnlineCheck?: boolean;
+}
+
+// Runs delivery for one completed order right away; called by the admin
+// dashboard after completing an order and from its "Deliver now" buttons.
+const handler: Handler = async (event) => {
+  const guard = guardMethod(event, ['POST']);
+  if (guard) return guard;
+
+  const user = await getStaffUser(event);
+  if (!user) {
+    return jsonResponse(401, { message: 'Unauthorized' });
+  }
+
+  const payload = parseJsonBody<DeliverOrderPayload>(event);
+  if (!payload?.orderId) {
+    return jsonResponse(400, { message: 'orderId is required' });
+  }
+
+  try {
+    const queued = await requeueDelivery(payload.orderId);
+    if (!queued) {
+      return jsonResponse(409, { message: 'This order is not waiting for delivery' });
+    }
+
+    const delivery = await processDelivery(payload.orderId, {
+      skipOnlineCheck: payload.skipOnlineCheck === true
+    });
+    if (!delivery) {
+      return jsonResponse(409, { message: 'Delivery is already running for this order' });
+    }
+
+    return jsonResponse(200, { delivery });
+  } catch (error) {
+    console.error('Error in deliver-order function:', error);
+    return jsonResponse(500, { message: 'Failed to run delivery' });
+  }
+};
+
+export { handler };
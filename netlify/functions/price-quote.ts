@@ -0,0 +1,261 @@
+import { Handler } from '@netlify/functions';
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '../lib/supabase-admin';
+import { getClientIp, guardMethod, jsonResponse, parseJsonBody } from '../lib/http';
+import { createRateLimiter } from '../lib/rate-limit';
+import { checkCoupon } from '../lib/coupons';
+import { calculateUpgradePrice, findOwnedRank, getUpgradePriceFloor } from '../lib/upgrades';
+import { QUOTE_TTL_MS, signQuote } from '../lib/quote';
+import type { OrderType, PriceQuote, QuoteLine } from '../../src/types/order';
+import { MAX_CART_LINES, MAX_LINE_QUANTITY, type CartQuoteItem } from '../../src/types/cart';
+import { isItemType } from '../../src/types/product';
+import { applySale } from '../../src/types/sale';
+
+interface PriceQuotePayload {
+  // The cart to price; a single `rank` is quoted as a one-line cart
+  items?: Partial<CartQuoteItem>[];
+  rank?: string;
+  couponCode?: string;
+  // Optional; identify the player so an upgrade from a rank they own can be
+  // quoted and the per-customer coupon limit checked before submitting
+  username?: string;
+  platform?: string;
+  // Set when the rank is a gift; upgrades are then quoted for the recipient
+  recipientUsername?: string;
+  recipientPlatform?: string;
+}
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,16}$/;
+const PLATFORMS = ['java', 'bedrock'];
+
+// The store requotes as the cart changes, so this is looser than create-order's limit
+const checkRateLimit = createRateLimiter(30, 60 * 1000);
+// Quotes with a coupon are limited further, so codes can't be guessed
+const checkCouponRateLimit = createRateLimiter(10, 5 * 60 * 1000);
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Checks the requested lines, returning an error message when they can't be quoted
+const validateItems = (items: Partial<CartQuoteItem>[]): string | null => {
+  if (items.length === 0) return 'Select at least one item';
+  if (items.length > MAX_CART_LINES) return `A cart can hold at most ${MAX_CART_LINES} different items`;
+
+  const names = new Set<string>();
+  for (const item of items) {
+    if (!item || typeof item !== 'object') return 'Invalid cart line';
+
+    const name = typeof item.product === 'string' ? item.product.trim() : '';
+    if (!name) return 'Every cart line needs a product';
+    if (names.has(name)) return `${name} is in the cart twice`;
+    names.add(name);
+
+    const quantity = item.quantity ?? 1;
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+      return `Quantity must be between 1 and ${MAX_LINE_QUANTITY}`;
+    }
+  }
+
+  return null;
+};
+
+// Resolves the current price of each product in the cart, with any live sale
+// and upgrade credit for a rank the player owns, applies an optional coupon,
+// and returns a signed quote that create-order will accept in place of a
+// client-supplied price.
+const handler: Handler = async (event) => {
+  const guard = guardMethod(event, ['POST']);
+  if (guard) return guard;
+
+  const retryAfter = checkRateLimit(getClientIp(event));
+  if (retryAfter > 0) {
+    return jsonResponse(
+      429,
+      { message: `Too many requests. Please try again in ${retryAfter} seconds.` },
+      { 'Retry-After': retryAfter.toString() }
+    );
+  }
+
+  const payload = parseJsonBody<PriceQuotePayload>(event);
+  const items = Array.isArray(payload?.items)
+    ? payload.items
+    : payload?.rank?.trim() ? [{ product: payload.rank, quantity: 1 }] : [];
+
+  if (!payload || items.length === 0) {
+    return jsonResponse(400, { message: 'Rank selection is required' });
+  }
+
+  const itemsError = validateItems(items);
+  if (itemsError) {
+    return jsonResponse(400, { message: itemsError });
+  }
+
+  try {
+    const names = items.map(item => item.product!.trim());
+    const { data: products, error: productError } = await supabaseAdmin
+      .from('products')
+      .select('id, name, price, original_price, item_type, stock')
+      .in('name', names)
+      .eq('active', true)
+      // Products with a purchase URL are sold on another store
+      .is('purchase_url', null);
+
+    if (productError) throw productError;
+
+    const missing = names.find(name => !products?.some(product => product.name === name));
+    if (missing || !products) {
+      return jsonResponse(404, { message: `${missing} is not available` });
+    }
+
+    if (products.filter(product => product.item_type === 'rank').length > 1) {
+      return jsonResponse(400, { message: 'An order can include only one rank' });
+    }
+
+    // Stock is only reserved by create-order; this catches sold-out items before payment
+    const soldOut = items.find(item => {
+      const product = products.find(p => p.name === item.product!.trim())!;
+      const quantity = product.item_type === 'rank' ? 1 : item.quantity ?? 1;
+      return product.stock !== null && product.stock < quantity;
+    });
+    if (soldOut) {
+      const product = products.find(p => p.name === soldOut.product!.trim())!;
+      return jsonResponse(409, {
+        code: 'sold_out',
+        message: product.stock > 0 ? `Only ${product.stock} ${product.name} left` : `${product.name} is sold out`
+      });
+    }
+
+    const now = new Date().toISOString();
+    const { data: liveSales, error: salesError } = await supabaseAdmin
+      .from('sales')
+      .select('id, name, discount_percent, product_ids, starts_at, ends_at, created_at, updated_at')
+      .lte('starts_at', now)
+      .gt('ends_at', now);
+
+    if (salesError) throw salesError;
+
+    const lines: QuoteLine[] = names.map((name, index) => {
+      const product = products.find(p => p.name === name)!;
+      const itemType = isItemType(product.item_type) ? product.item_type : 'rank';
+      // Ranks are held one at a time
+      const quantity = itemType === 'rank' ? 1 : items[index].quantity ?? 1;
+      const salePrice = applySale({
+        id: product.id,
+        price: Number(product.price),
+        original_price: product.original_price !== null ? Number(product.original_price) : null
+      }, liveSales || []);
+
+      return {
+        product_id: product.id,
+        product_name: product.name,
+        item_type: itemType,
+        quantity,
+        unit_price: salePrice.price,
+        original_unit_price: salePrice.original_price,
+        price: roundCents(salePrice.price * quantity)
+      };
+    });
+
+    let orderType: OrderType = 'purchase';
+    let upgradeFrom: string | null = null;
+
+    const username = payload.username?.trim() || '';
+    const isGift = !!payload.recipientUsername?.trim();
+    const holderName = isGift ? payload.recipientUsername!.trim() : username;
+    const holderPlatform = (isGift ? payload.recipientPlatform : payload.platform) || '';
+    const rankLine = lines.find(line => line.item_type === 'rank');
+
+    if (rankLine && USERNAME_PATTERN.test(holderName) && PLATFORMS.includes(holderPlatform)) {
+      const owned = await findOwnedRank(holderName, holderPlatform);
+      const rankPrice = Number(products.find(p => p.id === rankLine.product_id)!.price);
+
+      // Only a higher rank is an upgrade; re-buying the same or a lower rank is a plain purchase
+      if (owned && owned.id !== rankLine.product_id && owned.price < rankPrice) {
+        const upgradePrice = calculateUpgradePrice(rankLine.unit_price, owned.price, await getUpgradePriceFloor());
+        if (upgradePrice < rankLine.unit_price) {
+          rankLine.original_unit_price = Math.max(rankLine.original_unit_price ?? 0, rankLine.unit_price);
+          rankLine.unit_price = upgradePrice;
+          rankLine.price = upgradePrice;
+          orderType = 'upgrade';
+          upgradeFrom = owned.name;
+        }
+      }
+    }
+
+    let couponId: string | null = null;
+    let couponCode: string | null = null;
+    let discount = 0;
+
+    if (payload.couponCode?.trim()) {
+      const couponRetryAfter = checkCouponRateLimit(getClientIp(event));
+      if (couponRetryAfter > 0) {
+        return jsonResponse(
+          429,
+          { code: 'coupon_rate_limited', message: `Too many coupon attempts. Please try again in ${couponRetryAfter} seconds.` },
+          { 'Retry-After': couponRetryAfter.toString() }
+        );
+      }
+
+      const check = await checkCoupon(
+        payload.couponCode,
+        lines.map(line => ({ id: line.product_id, price: line.price })),
+        username
+      );
+      if (!check.ok) {
+        return jsonResponse(422, { code: 'coupon_invalid', message: check.message });
+      }
+
+      couponId = check.coupon.id;
+      couponCode = check.coupon.code;
+      discount = check.discount;
+    }
+
+    const subtotal = roundCents(lines.reduce((total, line) => total + line.price, 0));
+    const originalTotal = roundCents(lines.reduce(
+      (total, line) => total + Math.max(line.original_unit_price ?? 0, line.unit_price) * line.quantity, 0
+    ));
+    const primaryLine = rankLine || lines[0];
+
+    const unsigned = {
+      id: randomUUID(),
+      product_name: primaryLine.product_name,
+      lines,
+      price: roundCents(subtotal - discount),
+      original_price: originalTotal > subtotal ? originalTotal : null,
+      order_type: orderType,
+      upgrade_from: upgradeFrom,
+      coupon_code: couponCode,
+      discount_amount: discount,
+      expires_at: new Date(Date.now() + QUOTE_TTL_MS).toISOString()
+    };
+    const quote: PriceQuote = { ...unsigned, signature: signQuote(unsigned) };
+
+    const { error: insertError } = await supabaseAdmin
+      .from('price_quotes')
+      .insert({
+        id: quote.id,
+        product_id: primaryLine.product_id,
+        product_name: quote.product_name,
+        lines: quote.lines,
+        price: quote.price,
+        original_price: quote.original_price,
+        order_type: quote.order_type,
+        upgrade_from: quote.upgrade_from,
+        customer_name: orderType === 'upgrade' ? holderName : null,
+        platform: orderType === 'upgrade' ? holderPlatform : null,
+        coupon_id: couponId,
+        coupon_code: quote.coupon_code,
+        discount_amount: quote.discount_amount,
+        expires_at: quote.expires_at,
+        signature: quote.signature
+      });
+
+    if (insertError) throw insertError;
+
+    return jsonResponse(200, { quote });
+  } catch (error) {
+    console.error('Error in price-quote function:', error);
+    return jsonResponse(500, { message: 'Failed to price the selected items' });
+  }
+};
+
+export { handler };
@@ -0,0 +1,33 @@
+import { schedule } from '@netlify/functions';
+import { findDueDeliveries, loadOnlinePlayers, processDelivery } from '../lib/delivery';
+
+const BATCH_SIZE = 10;
+
+// Works through due deliveries every minute, including retries after failures
+// and deliveries held until the player comes online
+const handler = schedule('* * * * *', async () => {
+  try {
+    const orderIds = await findDueDeliveries(BATCH_SIZE);
+    if (orderIds.length === 0) return { statusCode: 200 };
+
+    // One status lookup for the whole batch
+    const onlinePlayers = await loadOnlinePlayers();
+
+    for (const orderId of orderIds) {
+      try {
+        const delivery = await processDelivery(orderId, { onlinePlayers });
+        if (delivery) {
+          console.log(`Order ${delivery.order_number}: delivery ${delivery.delivery_status}`);
+        }
+      } catch (error) {
+        console.error(`Failed to process delivery for order ${orderId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error in process-deliveries function:', error);
+  }
+
+  return { statusCode: 200 };
+});
+
+export { handler };
@@ -0,0 +1,46 @@
+import { schedule } from '@netlify/functions';
+import { findExpiredRanks, findRanksDueReminder, revokeExpiredRank, sendRenewalReminder } from '../lib/expiry';
+import { loadOnlinePlayers } from '../lib/delivery';
+
+const BATCH_SIZE = 20;
+
+// Takes expired time-limited ranks away every fifteen minutes, using each
+// product's revoke command, and reminds holders of ranks expiring soon to renew
+const handler = schedule('*/15 * * * *', async () => {
+  try {
+    const expired = await findExpiredRanks(BATCH_SIZE);
+
+    for (const order of expired) {
+      try {
+        const revoked = await revokeExpiredRank(order);
+        console.log(`Order ${order.order_number}: ${order.rank_name} ${revoked ? 'revoked' : 'revoke failed'}`);
+      } catch (error) {
+        console.error(`Failed to revoke the rank for order ${order.order_number}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error in process-rank-expiry function:', error);
+  }
+
+  try {
+    const expiring = await findRanksDueReminder(BATCH_SIZE);
+    // One status lookup for the whole batch
+    const onlinePlayers = expiring.length > 0 ? await loadOnlinePlayers() : null;
+
+    for (const order of expiring) {
+      try {
+        if (await sendRenewalReminder(order, onlinePlayers)) {
+          console.log(`Order ${order.order_number}: renewal reminder sent`);
+        }
+      } catch (error) {
+        console.error(`Failed to send the renewal reminder for order ${order.order_number}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error sending renewal reminders:', error);
+  }
+
+  return { statusCode: 200 };
+});
+
+export { handler };
@@ -0,0 +1,21 @@
+import { schedule } from '@netlify/functions';
+import { supabaseAdmin } from '../lib/supabase-admin';
+
+// Deletes unused price quotes an hour after they expire, so create-order can
+// still report a quote as expired rather than unknown for a while
+const handler = schedule('@hourly', async () => {
+  try {
+    const { data, error } = await supabaseAdmin.rpc('prune_price_quotes', { p_older_than: '1 hour' });
+    if (error) throw error;
+
+    if (data) {
+      console.log(`Pruned ${data} expired price quotes`);
+    }
+  } catch (error) {
+    console.error('Error in prune-price-quotes function:', error);
+  }
+
+  return { statusCode: 200 };
+});
+
+export { handler };
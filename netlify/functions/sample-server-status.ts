@@ -0,0 +1,53 @@
+import { schedule } from '@netlify/functions';
+import { supabaseAdmin } from '../lib/supabase-admin';
+import { pingServer } from '../lib/minecraft-ping';
+import { getServerEditions, getServerPort, type ServerDefinition } from '../../src/types/server';
+
+const SAMPLE_RETENTION_DAYS = 30;
+
+// Records every server's status every five minutes for the uptime and
+// player-count history shown in the store and the admin dashboard
+const handler = schedule('*/5 * * * *', async () => {
+  try {
+    const { data: servers, error } = await supabaseAdmin
+      .from('servers')
+      .select('id, name, host, java_port, bedrock_port, description, sort_order');
+
+    if (error) throw error;
+
+    const samples = await Promise.all((servers || []).map(async (server: ServerDefinition) => {
+      // Java and Bedrock players share one server through Geyser, so a
+      // single ping per server is enough; prefer Java, which is TCP
+      const [edition] = getServerEditions(server);
+      const status = await pingServer(server.host, getServerPort(server, edition), edition);
+
+      return {
+        server_id: server.id,
+        edition,
+        online: status.online,
+        players_online: status.players.online,
+        players_max: status.players.max,
+        sampled_at: status.lastUpdated
+      };
+    }));
+
+    if (samples.length > 0) {
+      const { error: insertError } = await supabaseAdmin.from('server_status_samples').insert(samples);
+      if (insertError) throw insertError;
+    }
+
+    const cutoff = new Date(Date.now() - SAMPLE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { error: pruneError } = await supabaseAdmin
+      .from('server_status_samples')
+      .delete()
+      .lt('sampled_at', cutoff);
+
+    if (pruneError) throw pruneError;
+  } catch (error) {
+    console.error('Error in sample-server-status function:', error);
+  }
+
+  return { statusCode: 200 };
+});
+
+export { handler };
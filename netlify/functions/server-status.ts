@@ -0,0 +1,101 @@
+import { Handler } from '@netlify/functions';
+import { guardMethod, jsonResponse, UUID_PATTERN } from '../lib/http';
+import { pingServer } from '../lib/minecraft-ping';
+import { MINECRAFT_SERVER_HOST } from '../lib/server-status';
+import { supabaseAdmin } from '../lib/supabase-admin';
+import {
+  DEFAULT_SERVER_PORTS,
+  getServerEditions,
+  getServerPort,
+  type ServerDefinition,
+  type ServerEdition,
+  type ServerStatus
+} from '../../src/types/server';
+
+const CACHE_TTL_MS = 30 * 1000;
+const EDITIONS: ServerEdition[] = ['java', 'bedrock'];
+
+interface CacheEntry {
+  expiresAt: number;
+  status: Promise<ServerStatus | null>;
+}
+
+// Per-instance cache keyed by server and edition; concurrent requests share
+// the same in-flight ping. Only configured servers stay cached, so unknown ids
+// can't grow it
+const cache = new Map<string, CacheEntry>();
+
+// Only servers listed in the `servers` table can be pinged, so the function
+// cannot be used to probe arbitrary hosts
+const findServer = async (serverId: string): Promise<ServerDefinition | null> => {
+  const { data, error } = await supabaseAdmin
+    .from('servers')
+    .select('id, name, host, java_port, bedrock_port, description, sort_order')
+    .eq('id', serverId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const loadStatus = async (serverId: string | undefined, edition: ServerEdition): Promise<ServerStatus | null> => {
+  if (!serverId) {
+    const port = Number(edition === 'java' ? process.env.MINECRAFT_JAVA_PORT : process.env.MINECRAFT_BEDROCK_PORT) ||
+      DEFAULT_SERVER_PORTS[edition];
+    return pingServer(MINECRAFT_SERVER_HOST, port, edition);
+  }
+
+  const server = await findServer(serverId);
+  if (!server || !getServerEditions(server).includes(edition)) return null;
+
+  return pingServer(server.host, getServerPort(server, edition), edition);
+};
+
+const getCachedStatus = (serverId: string | undefined, edition: ServerEdition): Promise<ServerStatus | null> => {
+  const key = `${serverId || 'default'}:${edition}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.status;
+
+  const status = loadStatus(serverId, edition);
+  cache.set(key, { expiresAt: Date.now() + CACHE_TTL_MS, status });
+  // Don't keep failed lookups or unknown servers around
+  status.then(result => {
+    if (!result) cache.delete(key);
+  }, () => cache.delete(key));
+  return status;
+};
+
+// Pings a Minecraft server directly and returns the status the store's server
+// status modal renders:
+//   GET /.netlify/functions/server-status?server=<id>&edition=java|bedrock
+// Without `server`, the server configured by MINECRAFT_SERVER_HOST is pinged.
+const handler: Handler = async (event) => {
+  const guard = guardMethod(event, ['GET']);
+  if (guard) return guard;
+
+  const edition = (event.queryStringParameters?.edition || 'java') as ServerEdition;
+  if (!EDITIONS.includes(edition)) {
+    return jsonResponse(400, { message: 'edition must be java or bedrock' });
+  }
+
+  const serverId = event.queryStringParameters?.server || undefined;
+  if (serverId && !UUID_PATTERN.test(serverId)) {
+    return jsonResponse(400, { message: 'server must be a server id' });
+  }
+
+  try {
+    const status = await getCachedStatus(serverId, edition);
+    if (!status) {
+      return jsonResponse(404, { message: 'Server not found' });
+    }
+
+    return jsonResponse(200, { status }, {
+      'Cache-Control': `public, max-age=${CACHE_TTL_MS / 1000}`
+    });
+  } catch (error) {
+    console.error('Error in server-status function:', error);
+    return jsonResponse(500, { message: 'Failed to fetch server status' });
+  }
+};
+
+export { handler };
@@ -0,0 +1,16 @@
+import type { HandlerEvent } from '@netlify/functions';
+import type { User } from '@supabase/supabase-js';
+import { supabaseAdmin } from './supabase-admin';
+
+// Resolves the signed-in admin from the Supabase access token sent as
+// `Authorization: Bearer <token>`. Returns null for missing or invalid tokens.
+export const getStaffUser = async (event: HandlerEvent): Promise<User | null> => {
+  const header = event.headers.authorization || event.headers.Authorization || '';
+  const token = header.replace(/^Bearer\s+/i, '').trim();
+  if (!token) return null;
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return data.user;
+};
@@ -0,0 +1,60 @@
+import { supabaseAdmin } from './supabase-admin';
+import {
+  calculateCouponDiscount,
+  couponAppliesToProduct,
+  getCouponStatus,
+  normalizeCouponCode,
+  type Coupon
+} from '../../src/types/coupon';
+
+export type CouponCheck =
+  | { ok: true; coupon: Coupon; discount: number }
+  | { ok: false; message: string };
+
+// Customers get the same answer for every code they cannot use, so guessing
+// codes reveals nothing about which ones exist
+const REJECTED: CouponCheck = { ok: false, message: 'This coupon code is not valid for this order' };
+
+const COUPON_COLUMNS =
+  'id, code, description, discount_type, discount_value, product_ids, max_uses, max_uses_per_customer, starts_at, ends_at, active, created_at, updated_at';
+
+// Checks whether `code` can discount the quoted lines right now; the discount
+// applies to the lines the coupon covers. The usage caps are checked again by
+// `redeem_coupon` when the order is placed; this is the early answer shown
+// while the customer is still filling in the form.
+export const checkCoupon = async (
+  code: string,
+  lines: Array<{ id: number; price: number }>,
+  customerName?: string
+): Promise<CouponCheck> => {
+  const { data: coupon, error } = await supabaseAdmin
+    .from('coupons')
+    .select(COUPON_COLUMNS)
+    .eq('code', normalizeCouponCode(code))
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!coupon || getCouponStatus(coupon) !== 'active') {
+    return REJECTED;
+  }
+  const eligibleLines = lines.filter(line => couponAppliesToProduct(coupon, line.id));
+  if (eligibleLines.length === 0) {
+    return REJECTED;
+  }
+
+  const { data: usage, error: usageError } = await supabaseAdmin
+    .rpc('get_coupon_usage', { p_coupon_id: coupon.id, p_customer_name: customerName?.trim() || null })
+    .single<{ total_uses: number; customer_uses: number }>();
+
+  if (usageError) throw usageError;
+  if (coupon.max_uses !== null && usage.total_uses >= coupon.max_uses) {
+    return REJECTED;
+  }
+  if (customerName && coupon.max_uses_per_customer !== null && usage.customer_uses >= coupon.max_uses_per_customer) {
+    return REJECTED;
+  }
+
+  const eligibleTotal = eligibleLines.reduce((total, line) => total + line.price, 0);
+  return { ok: true, coupon, discount: calculateCouponDiscount(coupon, eligibleTotal) };
+};
@@ -0,0 +1,398 @@
+// Runs product delivery commands for completed orders and tracks retries
+import { supabaseAdmin } from './supabase-admin';
+import { getRconOptionsFromEnv, sendRconCommands } from './rcon';
+import { fetchOnlinePlayers, type OnlinePlayers } from './server-status';
+import { formatOrderItemName, type DeliveryStatus, type OrderItem, type OrderType } from '../../src/types/order';
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// How long an attempt may run before another worker may pick the order up again
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+// How often a delivery held for an offline player checks again
+const PLAYER_CHECK_INTERVAL_MS = 2 * 60 * 1000;
+// Prefix Geyser/Floodgate gives Bedrock players on the Java server
+const BEDROCK_USERNAME_PREFIX = process.env.BEDROCK_USERNAME_PREFIX ?? '.';
+
+const DELIVERY_ORDER_COLUMNS =
+  'id, order_number, customer_name, platform, rank_holder_name, rank_holder_platform, rank_name, order_type, upgrade_from, items, delivery_status, delivery_attempts, delivery_response, delivery_error, next_delivery_at, delivered_at, delivery_player_name, delivery_waiting_since';
+
+export interface DeliveryOrder {
+  id: string;
+  order_number: string;
+  customer_name: string;
+  platform: string;
+  // Recipient of a gift, otherwise the customer
+  rank_holder_name: string;
+  rank_holder_platform: string;
+  rank_name: string | null;
+  order_type: OrderType;
+  upgrade_from: string | null;
+  // Each line records its own delivery, so a retry only runs what failed
+  items: OrderItem[];
+  delivery_status: DeliveryStatus;
+  delivery_attempts: number;
+  delivery_response: string | null;
+  delivery_error: string | null;
+  next_delivery_at: string | null;
+  delivered_at: string | null;
+  delivery_player_name: string | null;
+  delivery_waiting_since: string | null;
+}
+
+export interface ProcessDeliveryOptions {
+  // Player data already fetched for this batch; fetched on demand when omitted
+  onlinePlayers?: OnlinePlayers | null;
+  // Staff asked to deliver now, even if the player does not appear online
+  skipOnlineCheck?: boolean;
+}
+
+// `{rank}` is the product's name for every item type
+export type DeliveryTemplateValues = Record<'username' | 'rank' | 'platform' | 'order_number' | 'quantity', string>;
+
+// 1, 2, 4, 8... minutes, capped at an hour
+export const getRetryDelayMs = (attempt: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MS);
+
+/**
+ * Expands a product's command template into the commands to run. Each
+ * non-empty line is one command; unknown placeholders are left untouched.
+ */
+export const renderDeliveryCommands = (template: string, values: DeliveryTemplateValues): string[] =>
+  template
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => line.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+      key in values ? values[key as keyof DeliveryTemplateValues] : placeholder
+    ));
+
+/**
+ * Name the player has on the server. Bedrock players joining through
+ * Geyser/Floodgate get a prefix, and spaces in gamertags become underscores.
+ */
+export const formatPlayerName = (username: string, platform: string): string => {
+  const name = username.trim();
+  if (platform !== 'bedrock') return name;
+
+  const floodgateName = name.replace(/ /g, '_');
+  return floodgateName.startsWith(BEDROCK_USERNAME_PREFIX)
+    ? floodgateName
+    : `${BEDROCK_USERNAME_PREFIX}${floodgateName}`;
+};
+
+// Whether the player is known to be offline. Unknown player data never
+// holds a delivery back; RCON failures are retried anyway.
+export const isPlayerOffline = (playerName: string, players: OnlinePlayers | null): boolean => {
+  if (!players) return false;
+  if (!players.serverOnline) return true;
+  return players.names !== null && !players.names.has(playerName.toLowerCase());
+};
+
+// Player data for a delivery run; null when the servers cannot be looked up
+export const loadOnlinePlayers = async (): Promise<OnlinePlayers | null> => {
+  try {
+    return await fetchOnlinePlayers();
+  } catch (error) {
+    console.error('Failed to fetch online players:', error);
+    return null;
+  }
+};
+
+// Takes the lease on a due delivery so concurrent runs never deliver twice
+const claimDelivery = async (orderId: string): Promise<DeliveryOrder | null> => {
+  const now = Date.now();
+
+  const { data, error } = await supabaseAdmin
+    .from('orders')
+    .update({
+      delivery_status: 'delivering',
+      next_delivery_at: new Date(now + DELIVERY_LEASE_MS).toISOString()
+    })
+    .eq('id', orderId)
+    .eq('status', 'completed')
+    .in('delivery_status', ['pending', 'waiting_for_player', 'delivering'])
+    .lte('next_delivery_at', new Date(now).toISOString())
+    .select(DELIVERY_ORDER_COLUMNS);
+
+  if (error) throw error;
+  return (data?.[0] as DeliveryOrder | undefined) ?? null;
+};
+
+// Loads a product's command template, failing when it is not configured
+export const loadCommandTemplate = async (
+  productName: string,
+  column: 'delivery_command' | 'revoke_command'
+): Promise<string> => {
+  const { data: product, error } = await supabaseAdmin
+    .from('products')
+    .select(column)
+    .eq('name', productName)
+    .maybeSingle<Record<typeof column, string | null>>();
+
+  if (error) throw error;
+
+  const template = product?.[column]?.trim();
+  if (!template) {
+    throw new Error(`No ${column === 'delivery_command' ? 'delivery' : 'revoke'} command configured for ${productName}`);
+  }
+
+  return template;
+};
+
+// Orders placed before carts have a single untyped line for their rank
+const hasTrackedLines = (order: Pick<DeliveryOrder, 'items'>): boolean =>
+  Array.isArray(order.items) && order.items.some(item => !!item.product_name);
+
+const getDeliveryLines = (order: DeliveryOrder): OrderItem[] =>
+  hasTrackedLines(order)
+    ? order.items
+    : [{ name: order.rank_name ?? '', price: 0, product_name: order.rank_name ?? '', item_type: 'rank', quantity: 1 }];
+
+// Whether the order's rank line has been granted to the player
+const isRankDelivered = (order: DeliveryOrder): boolean => {
+  if (!order.rank_name) return false;
+  return hasTrackedLines(order)
+    ? order.items.some(item => item.item_type === 'rank' && item.delivery_status === 'delivered')
+    : order.delivery_status === 'delivered';
+};
+
+const runLineCommands = async (order: DeliveryOrder, line: OrderItem, playerName: string): Promise<string> => {
+  const productName = line.product_name || line.name;
+  const values = {
+    username: playerName,
+    rank: productName,
+    platform: order.rank_holder_platform,
+    order_number: order.order_number,
+    quantity: String(line.quantity ?? 1)
+  };
+  const commands = renderDeliveryCommands(await loadCommandTemplate(productName, 'delivery_command'), values);
+
+  // An upgrade takes the old rank's group away before granting the new one
+  if (line.item_type === 'rank' && order.order_type === 'upgrade' && order.upgrade_from) {
+    const revokeTemplate = await loadCommandTemplate(order.upgrade_from, 'revoke_command');
+    commands.unshift(...renderDeliveryCommands(revokeTemplate, { ...values, rank: order.upgrade_from }));
+  }
+
+  const rconOptions = getRconOptionsFromEnv();
+  if (!rconOptions) {
+    throw new Error('RCON_HOST and RCON_PASSWORD are not configured');
+  }
+
+  const responses = await sendRconCommands(rconOptions, commands);
+  return commands.map((command, index) => `> ${command}\n${responses[index] || '(no output)'}`).join('\n');
+};
+
+/**
+ * Runs the commands for every line not yet delivered and describes the
+ * outcome as an update to the order. Lines succeed or fail on their own; the
+ * order is delivered once all of them are.
+ */
+const attemptDelivery = async (
+  order: DeliveryOrder,
+  playerName: string
+): Promise<Partial<DeliveryOrder>> => {
+  const attempts = order.delivery_attempts + 1;
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+  const tracked = hasTrackedLines(order);
+  const lines = getDeliveryLines(order);
+  const now = new Date().toISOString();
+  // Keep the log of lines delivered by earlier attempts
+  const responses = lines.some(line => line.delivery_status === 'delivered') && order.delivery_response
+    ? [order.delivery_response]
+    : [];
+  const errors: string[] = [];
+  const items: OrderItem[] = [];
+
+  for (const line of lines) {
+    if (line.delivery_status === 'delivered') {
+      items.push(line);
+      continue;
+    }
+
+    try {
+      const response = await runLineCommands(order, line, playerName);
+      responses.push(tracked ? `# ${formatOrderItemName(line)}\n${response}` : response);
+      items.push({ ...line, delivery_status: 'delivered', delivery_error: null, delivered_at: now });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(tracked ? `${formatOrderItemName(line)}: ${message}` : message);
+      items.push({ ...line, delivery_status: exhausted ? 'failed' : 'pending', delivery_error: message });
+    }
+  }
+
+  const common: Partial<DeliveryOrder> = {
+    ...(tracked && { items }),
+    delivery_attempts: attempts,
+    delivery_response: responses.join('\n') || null,
+    delivery_player_name: playerName,
+    delivery_waiting_since: null
+  };
+
+  if (errors.length === 0) {
+    return {
+      ...common,
+      delivery_status: 'delivered',
+      delivery_error: null,
+      next_delivery_at: null,
+      delivered_at: now
+    };
+  }
+
+  const error = errors.join('; ');
+  console.error(`Delivery attempt ${attempts} for order ${order.order_number} failed:`, error);
+
+  return {
+    ...common,
+    delivery_status: exhausted ? 'failed' : 'pending',
+    delivery_error: error,
+    next_delivery_at: exhausted ? null : new Date(Date.now() + getRetryDelayMs(attempts)).toISOString()
+  };
+};
+
+/**
+ * Starts the term of a time-limited rank once it has been delivered. Buying
+ * a rank the player still holds extends it from its current expiry, and the
+ * earlier orders for that rank (or the rank an upgrade replaced) are marked
+ * superseded so the expiry job never revokes them on their own.
+ */
+const startRankTerm = async (order: DeliveryOrder): Promise<void> => {
+  const rankName = order.rank_name;
+  if (!rankName) return;
+
+  const { data: product, error: productError } = await supabaseAdmin
+    .from('products')
+    .select('duration_days')
+    .eq('name', rankName)
+    .maybeSingle();
+
+  if (productError) throw productError;
+
+  const rankNames = order.order_type === 'upgrade' && order.upgrade_from
+    ? [rankName, order.upgrade_from]
+    : [rankName];
+
+  const { data: previous, error: previousError } = await supabaseAdmin
+    .from('orders')
+    .select('id, rank_name, expires_at')
+    .ilike('rank_holder_name', order.rank_holder_name.replace(/[\\%_]/g, '\\$&'))
+    .eq('rank_holder_platform', order.rank_holder_platform)
+    .in('rank_name', rankNames)
+    .eq('status', 'completed')
+    .eq('delivery_status', 'delivered')
+    .is('revoked_at', null)
+    .is('superseded_by', null)
+    .neq('id', order.id);
+
+  if (previousError) throw previousError;
+
+  let expiresAt: string | null = null;
+  const durationDays = Number(product?.duration_days) || 0;
+  if (durationDays > 0) {
+    // Renewing early keeps the days already paid for
+    const currentExpiry = (previous || [])
+      .filter(row => row.rank_name === rankName && row.expires_at)
+      .reduce((latest, row) => Math.max(latest, new Date(row.expires_at as string).getTime()), 0);
+    const start = Math.max(Date.now(), currentExpiry);
+    expiresAt = new Date(start + durationDays * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('orders')
+    .update({ expires_at: expiresAt })
+    .eq('id', order.id);
+
+  if (updateError) throw updateError;
+
+  const supersededIds = (previous || []).map(row => row.id as string);
+  if (supersededIds.length > 0) {
+    const { error: supersedeError } = await supabaseAdmin
+      .from('orders')
+      .update({ superseded_by: order.id })
+      .in('id', supersededIds);
+
+    if (supersedeError) throw supersedeError;
+  }
+};
+
+/**
+ * Attempts delivery of one order if it is due. Deliveries for players who
+ * are not online are held without using up an attempt. Returns the updated
+ * delivery state, or null when the order was not due or is being delivered
+ * elsewhere.
+ */
+export const processDelivery = async (
+  orderId: string,
+  options: ProcessDeliveryOptions = {}
+): Promise<DeliveryOrder | null> => {
+  const order = await claimDelivery(orderId);
+  if (!order) return null;
+
+  const playerName = formatPlayerName(order.rank_holder_name, order.rank_holder_platform);
+  const players = options.skipOnlineCheck
+    ? null
+    : options.onlinePlayers !== undefined ? options.onlinePlayers : await loadOnlinePlayers();
+
+  const update: Partial<DeliveryOrder> = isPlayerOffline(playerName, players)
+    ? {
+        delivery_status: 'waiting_for_player',
+        delivery_player_name: playerName,
+        delivery_waiting_since: order.delivery_waiting_since || new Date().toISOString(),
+        next_delivery_at: new Date(Date.now() + PLAYER_CHECK_INTERVAL_MS).toISOString()
+      }
+    : await attemptDelivery(order, playerName);
+
+  const { data, error } = await supabaseAdmin
+    .from('orders')
+    .update(update)
+    .eq('id', order.id)
+    .select(DELIVERY_ORDER_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  const delivered = data as DeliveryOrder;
+  if (!isRankDelivered(order) && isRankDelivered(delivered)) {
+    // The rank is already granted; a failure here only leaves it without an expiry
+    try {
+      await startRankTerm(delivered);
+    } catch (termError) {
+      console.error(`Failed to start the rank term for order ${delivered.order_number}:`, termError);
+    }
+  }
+
+  return delivered;
+};
+
+// Puts a failed or waiting delivery back at the front of the queue
+export const requeueDelivery = async (orderId: string): Promise<boolean> => {
+  const { data, error } = await supabaseAdmin
+    .from('orders')
+    .update({
+      delivery_status: 'pending',
+      delivery_attempts: 0,
+      next_delivery_at: new Date().toISOString()
+    })
+    .eq('id', orderId)
+    .eq('status', 'completed')
+    .in('delivery_status', ['pending', 'waiting_for_player', 'failed'])
+    .select('id');
+
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+};
+
+// Ids of deliveries whose next attempt is due, oldest first
+export const findDueDeliveries = async (limit: number): Promise<string[]> => {
+  const { data, error } = await supabaseAdmin
+    .from('orders')
+    .select('id')
+    .eq('status', 'completed')
+    .in('delivery_status', ['pending', 'waiting_for_player', 'delivering'])
+    .lte('next_delivery_at', new Date().toISOString())
+    .order('next_delivery_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []).map(row => row.id as string);
+};
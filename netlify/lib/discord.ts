@@ -0,0 +1,113 @@
+// Discord notifications sent from Netlify functions
+import { formatOrderItemName, type ReceiptOrder } from '../../src/types/order';
+import { formatMoney } from '../../src/utils/money';
+
+const DISCORD_WEBHOOK_URL = process.env.NETLIFY_DISCORD_WEBHOOK_URL;
+const STORE_LOGO_URL = 'https://i.imgur.com/ArKEQz1.png';
+
+export interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+export interface DiscordEmbed {
+  title: string;
+  color: number;
+  fields: DiscordEmbedField[];
+  thumbnail?: { url: string };
+  image?: { url: string };
+  footer?: { text: string; icon_url?: string };
+}
+
+export type OrderNotification = ReceiptOrder;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const couponFields = (order: OrderNotification): DiscordEmbedField[] =>
+  order.coupon_code && Number(order.discount_amount) > 0
+    ? [{ name: '🏷️ Coupon', value: `${order.coupon_code} (-${formatMoney(Number(order.discount_amount), order.currency)})`, inline: true }]
+    : [];
+
+const paymentFields = (order: OrderNotification): DiscordEmbedField[] =>
+  order.payment_method
+    ? [{
+        name: '💳 Payment',
+        value: Number(order.payment_fee) > 0
+          ? `${order.payment_method} (+${formatMoney(Number(order.payment_fee), order.currency)} fee)`
+          : order.payment_method,
+        inline: true
+      }]
+    : [];
+
+// The rank, and every line when the order is more than a single rank
+const itemFields = (order: OrderNotification): DiscordEmbedField[] => [
+  ...(order.rank_name
+    ? [{
+        name: '⭐ Rank',
+        value: order.order_type === 'upgrade' ? `${order.upgrade_from} → ${order.rank_name} (upgrade)` : order.rank_name,
+        inline: true
+      }]
+    : []),
+  ...(order.items.length > 1 || !order.rank_name
+    ? [{
+        name: '🛒 Items',
+        value: order.items.map(item => `${formatOrderItemName(item)} - ${formatMoney(Number(item.price), order.currency)}`).join('\n')
+      }]
+    : [])
+];
+
+const giftFields = (order: OrderNotification): DiscordEmbedField[] =>
+  order.gift_recipient_name && order.gift_recipient_platform
+    ? [
+        { name: '🎁 Gift For', value: `${order.gift_recipient_name} (${capitalize(order.gift_recipient_platform)})`, inline: true },
+        ...(order.gift_message ? [{ name: '💌 Gift Message', value: order.gift_message }] : [])
+      ]
+    : [];
+
+export const buildOrderEmbed = (order: OrderNotification): DiscordEmbed => ({
+  title: order.gift_recipient_name ? '🎁 New Gift Order Received' : '🛍️ New Order Received',
+  color: 0x4ade80, // Emerald color
+  fields: [
+    { name: order.gift_recipient_name ? '👤 Buyer' : '👤 Username', value: order.customer_name, inline: true },
+    { name: '🎮 Platform', value: capitalize(order.platform), inline: true },
+    ...itemFields(order),
+    { name: '💰 Price', value: formatMoney(Number(order.total_amount), order.currency), inline: true },
+    ...couponFields(order),
+    ...paymentFields(order),
+    ...giftFields(order),
+    { name: '🆔 Order ID', value: order.order_number, inline: true },
+    { name: '📅 Date', value: new Date(order.created_at).toLocaleString(), inline: true }
+  ],
+  thumbnail: { url: STORE_LOGO_URL },
+  image: order.payment_proof_url ? { url: order.payment_proof_url } : undefined,
+  footer: {
+    text: 'Champa Store - Order System',
+    icon_url: STORE_LOGO_URL
+  }
+});
+
+export const sendDiscordEmbed = async (embed: DiscordEmbed): Promise<void> => {
+  if (!DISCORD_WEBHOOK_URL) {
+    throw new Error('Discord webhook URL not configured');
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 10000);
+
+  try {
+    const response = await fetch(DISCORD_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ embeds: [embed] }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Discord webhook error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+  } finally {
+    clearTimeout(timeout);
+  }
+};
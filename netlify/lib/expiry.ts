@@ -0,0 +1,151 @@
+// Revokes time-limited ranks once they expire and reminds their holders to
+// renew beforehand
+import { supabaseAdmin } from './supabase-admin';
+import { getRconOptionsFromEnv, sendRconCommands } from './rcon';
+import { formatPlayerName, isPlayerOffline, loadCommandTemplate, renderDeliveryCommands } from './delivery';
+import type { OnlinePlayers } from './server-status';
+import { buildRenewalPath, type Platform } from '../../src/types/order';
+
+// Revocations that keep failing are left for staff after this many tries
+export const MAX_REVOKE_ATTEMPTS = 5;
+// How long before expiry the rank holder is reminded to renew
+const RENEWAL_REMINDER_DAYS = Number(process.env.RENEWAL_REMINDER_DAYS) || 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Netlify sets URL to the site's main address
+const STORE_URL = process.env.URL || '';
+
+interface ExpiredRank {
+  id: string;
+  order_number: string;
+  rank_holder_name: string;
+  rank_holder_platform: string;
+  rank_name: string;
+  revoke_attempts: number;
+}
+
+// Delivered ranks past their expiry that were neither renewed nor upgraded, oldest first
+export const findExpiredRanks = async (limit: number): Promise<ExpiredRank[]> => {
+  const { data, error } = await supabaseAdmin
+    .from('orders')
+    .select('id, order_number, rank_holder_name, rank_holder_platform, rank_name, revoke_attempts')
+    .eq('status', 'completed')
+    .eq('delivery_status', 'delivered')
+    .lte('expires_at', new Date().toISOString())
+    .is('revoked_at', null)
+    .is('superseded_by', null)
+    .lt('revoke_attempts', MAX_REVOKE_ATTEMPTS)
+    .order('expires_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as ExpiredRank[];
+};
+
+/**
+ * Runs the product's revoke command for an expired rank and records the
+ * outcome. Returns whether the rank was revoked.
+ */
+export const revokeExpiredRank = async (order: ExpiredRank): Promise<boolean> => {
+  const attempts = order.revoke_attempts + 1;
+
+  try {
+    const rconOptions = getRconOptionsFromEnv();
+    if (!rconOptions) {
+      throw new Error('RCON_HOST and RCON_PASSWORD are not configured');
+    }
+
+    const commands = renderDeliveryCommands(await loadCommandTemplate(order.rank_name, 'revoke_command'), {
+      username: formatPlayerName(order.rank_holder_name, order.rank_holder_platform),
+      rank: order.rank_name,
+      platform: order.rank_holder_platform,
+      order_number: order.order_number,
+      quantity: '1'
+    });
+    await sendRconCommands(rconOptions, commands);
+
+    // Only revoke if nothing renewed the rank while the commands ran
+    const { error } = await supabaseAdmin
+      .from('orders')
+      .update({ revoked_at: new Date().toISOString(), revoke_attempts: attempts, revoke_error: null })
+      .eq('id', order.id)
+      .is('superseded_by', null);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Revoke attempt ${attempts} for order ${order.order_number} failed:`, message);
+
+    const { error: updateError } = await supabaseAdmin
+      .from('orders')
+      .update({ revoke_attempts: attempts, revoke_error: message })
+      .eq('id', order.id);
+
+    if (updateError) throw updateError;
+    return false;
+  }
+};
+
+interface ExpiringRank {
+  id: string;
+  order_number: string;
+  rank_holder_name: string;
+  rank_holder_platform: Platform;
+  rank_name: string;
+  expires_at: string;
+}
+
+// Delivered ranks expiring within the reminder window that were not reminded yet, soonest first
+export const findRanksDueReminder = async (limit: number): Promise<ExpiringRank[]> => {
+  const now = Date.now();
+  const { data, error } = await supabaseAdmin
+    .from('orders')
+    .select('id, order_number, rank_holder_name, rank_holder_platform, rank_name, expires_at')
+    .eq('status', 'completed')
+    .eq('delivery_status', 'delivered')
+    .gt('expires_at', new Date(now).toISOString())
+    .lte('expires_at', new Date(now + RENEWAL_REMINDER_DAYS * DAY_MS).toISOString())
+    .is('renewal_reminded_at', null)
+    .is('revoked_at', null)
+    .is('superseded_by', null)
+    .order('expires_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as ExpiringRank[];
+};
+
+/**
+ * Tells the rank holder in game that their rank expires soon, with a link
+ * that renews it. Players known to be offline are reminded on a later run
+ * instead, since a tell only reaches online players. Returns whether the
+ * reminder was sent.
+ */
+export const sendRenewalReminder = async (order: ExpiringRank, players: OnlinePlayers | null): Promise<boolean> => {
+  const playerName = formatPlayerName(order.rank_holder_name, order.rank_holder_platform);
+  if (isPlayerOffline(playerName, players)) return false;
+
+  const rconOptions = getRconOptionsFromEnv();
+  if (!rconOptions) {
+    throw new Error('RCON_HOST and RCON_PASSWORD are not configured');
+  }
+
+  const days = Math.max(1, Math.ceil((new Date(order.expires_at).getTime() - Date.now()) / DAY_MS));
+  const renewalUrl = `${STORE_URL}${buildRenewalPath({
+    customer_name: order.rank_holder_name,
+    platform: order.rank_holder_platform,
+    rank_name: order.rank_name
+  })}`;
+  const message = `Your ${order.rank_name} rank expires in ${days} day${days === 1 ? '' : 's'}.` +
+    (STORE_URL ? ` Renew it at ${renewalUrl}` : ' Renew it on the store to keep it.');
+  await sendRconCommands(rconOptions, [`tell ${playerName} ${message}`]);
+
+  const { error } = await supabaseAdmin
+    .from('orders')
+    .update({ renewal_reminded_at: new Date().toISOString() })
+    .eq('id', order.id)
+    .is('renewal_reminded_at', null);
+
+  if (error) throw error;
+  return true;
+};
@@ -0,0 +1,47 @@
+import type { HandlerEvent, HandlerResponse } from '@netlify/functions';
+
+// Shared CORS headers for the JSON endpoints called by the store
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+};
+
+export const jsonResponse = (
+  statusCode: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): HandlerResponse => ({
+  statusCode,
+  headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+  body: JSON.stringify(body)
+});
+
+// Answers CORS preflight and rejects unsupported methods.
+// Returns null when the request should be handled by the function.
+export const guardMethod = (event: HandlerEvent, allowed: string[]): HandlerResponse | null => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, { message: 'Preflight call successful' });
+  }
+
+  if (!allowed.includes(event.httpMethod)) {
+    return jsonResponse(405, { message: 'Method Not Allowed' });
+  }
+
+  return null;
+};
+
+// Ids from the request are checked before they reach a uuid column, where a
+// malformed one would fail the cast and surface as a 500
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const parseJsonBody = <T>(event: HandlerEvent): T | null => {
+  try {
+    return JSON.parse(event.body || '{}') as T;
+  } catch {
+    return null;
+  }
+};
+
+export const getClientIp = (event: HandlerEvent): string =>
+  event.headers['client-ip'] || event.headers['x-forwarded-for'] || 'unknown';
@@ -0,0 +1,249 @@
+// Direct status pings for Minecraft servers:
+// - Java Edition: Server List Ping over TCP (https://wiki.vg/Server_List_Ping)
+// - Bedrock Edition: RakNet unconnected ping over UDP (https://wiki.vg/Raknet_Protocol)
+import { Socket } from 'net';
+import { createSocket } from 'dgram';
+import { randomBytes } from 'crypto';
+import { resolveSrv } from 'dns/promises';
+import type { ServerEdition, ServerStatus } from '../../src/types/server';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_JAVA_PORT = 25565;
+// Any protocol version works for a status request; -1 is the convention
+const STATUS_PROTOCOL_VERSION = -1;
+const RAKNET_UNCONNECTED_PING = 0x01;
+const RAKNET_UNCONNECTED_PONG = 0x1c;
+const RAKNET_MAGIC = Buffer.from('00ffff00fefefefefdfdfdfd12345678', 'hex');
+
+const writeVarInt = (value: number): Buffer => {
+  const bytes: number[] = [];
+  let remaining = value >>> 0;
+
+  do {
+    let byte = remaining & 0x7f;
+    remaining >>>= 7;
+    if (remaining !== 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (remaining !== 0);
+
+  return Buffer.from(bytes);
+};
+
+// Returns null when the buffer does not hold the whole VarInt yet
+const readVarInt = (buffer: Buffer, offset: number): { value: number; size: number } | null => {
+  let value = 0;
+  let size = 0;
+  let byte: number;
+
+  do {
+    if (offset + size >= buffer.length) return null;
+    if (size >= 5) throw new Error('VarInt is too long');
+    byte = buffer[offset + size];
+    value |= (byte & 0x7f) << (7 * size);
+    size++;
+  } while (byte & 0x80);
+
+  return { value, size };
+};
+
+const writeString = (value: string): Buffer => {
+  const bytes = Buffer.from(value, 'utf8');
+  return Buffer.concat([writeVarInt(bytes.length), bytes]);
+};
+
+const withLength = (packet: Buffer): Buffer => Buffer.concat([writeVarInt(packet.length), packet]);
+
+// Strips § formatting codes from MOTDs and player names
+const stripFormatting = (text: string): string => text.replace(/§[0-9a-fk-or]/gi, '');
+
+// Flattens a chat component (string, object with `text`/`extra`, or array) into plain text
+const chatToText = (component: unknown): string => {
+  if (typeof component === 'string') return component;
+  if (Array.isArray(component)) return component.map(chatToText).join('');
+  if (component && typeof component === 'object') {
+    const { text, extra } = component as { text?: unknown; extra?: unknown };
+    return chatToText(text ?? '') + (extra ? chatToText(extra) : '');
+  }
+  return '';
+};
+
+// Java clients look up `_minecraft._tcp.<host>` when no port is given
+const resolveJavaAddress = async (host: string, port: number): Promise<{ host: string; port: number }> => {
+  if (port !== DEFAULT_JAVA_PORT) return { host, port };
+
+  try {
+    const [record] = await resolveSrv(`_minecraft._tcp.${host}`);
+    if (record) return { host: record.name, port: record.port };
+  } catch {
+    // No SRV record; connect to the host directly
+  }
+
+  return { host, port };
+};
+
+interface JavaStatusResponse {
+  version?: { name?: string };
+  players?: { online?: number; max?: number; sample?: { name?: string }[] };
+  description?: unknown;
+  favicon?: string;
+}
+
+const requestJavaStatus = (host: string, port: number, timeoutMs: number): Promise<JavaStatusResponse> =>
+  new Promise((resolve, reject) => {
+    const socket = new Socket();
+    let buffer = Buffer.alloc(0);
+    let settled = false;
+
+    const finish = (error: Error | null, response?: JavaStatusResponse) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(response!);
+    };
+
+    socket.setTimeout(timeoutMs, () => finish(new Error(`Java ping timed out after ${timeoutMs}ms`)));
+    socket.on('error', (error) => finish(error));
+    socket.on('close', () => finish(new Error('Java server closed the connection')));
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      try {
+        const length = readVarInt(buffer, 0);
+        if (!length || buffer.length < length.size + length.value) return;
+
+        const packetId = readVarInt(buffer, length.size);
+        if (!packetId || packetId.value !== 0x00) {
+          throw new Error('Unexpected packet from Java server');
+        }
+
+        const jsonOffset = length.size + packetId.size;
+        const jsonLength = readVarInt(buffer, jsonOffset);
+        if (!jsonLength) throw new Error('Malformed status response');
+
+        const start = jsonOffset + jsonLength.size;
+        finish(null, JSON.parse(buffer.toString('utf8', start, start + jsonLength.value)));
+      } catch (error) {
+        finish(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+
+    socket.connect(port, host, () => {
+      const portBuffer = Buffer.alloc(2);
+      portBuffer.writeUInt16BE(port);
+
+      const handshake = Buffer.concat([
+        writeVarInt(0x00),
+        writeVarInt(STATUS_PROTOCOL_VERSION),
+        writeString(host),
+        portBuffer,
+        writeVarInt(1) // next state: status
+      ]);
+      const statusRequest = writeVarInt(0x00);
+
+      socket.write(Buffer.concat([withLength(handshake), withLength(statusRequest)]));
+    });
+  });
+
+export const pingJavaServer = async (
+  hostname: string,
+  port: number = DEFAULT_JAVA_PORT,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<ServerStatus> => {
+  const address = await resolveJavaAddress(hostname, port);
+  const response = await requestJavaStatus(address.host, address.port, timeoutMs);
+  const sample = response.players?.sample
+    ?.map(player => stripFormatting(player.name || ''))
+    .filter(Boolean);
+
+  return {
+    online: true,
+    players: {
+      online: Number(response.players?.online) || 0,
+      max: Number(response.players?.max) || 0,
+      list: sample && sample.length > 0 ? sample : undefined
+    },
+    version: stripFormatting(response.version?.name || 'Unknown'),
+    hostname,
+    port,
+    motd: stripFormatting(chatToText(response.description)).trim(),
+    icon: response.favicon,
+    lastUpdated: new Date().toISOString()
+  };
+};
+
+export const pingBedrockServer = (
+  hostname: string,
+  port: number,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<ServerStatus> =>
+  new Promise((resolve, reject) => {
+    const socket = createSocket('udp4');
+    let settled = false;
+
+    const finish = (error: Error | null, status?: ServerStatus) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      socket.close();
+      if (error) reject(error);
+      else resolve(status!);
+    };
+
+    const timeout = setTimeout(() => finish(new Error(`Bedrock ping timed out after ${timeoutMs}ms`)), timeoutMs);
+
+    socket.on('error', (error) => finish(error));
+
+    socket.on('message', (message) => {
+      // id (1) + time (8) + server guid (8) + magic (16) + string length (2)
+      if (message.length < 35 || message[0] !== RAKNET_UNCONNECTED_PONG) return;
+
+      const length = message.readUInt16BE(33);
+      // MCPE;<motd>;<protocol>;<version>;<online>;<max>;<server id>;<motd line 2>;<game mode>;...
+      const fields = message.toString('utf8', 35, 35 + length).split(';');
+
+      finish(null, {
+        online: true,
+        players: {
+          online: Number(fields[4]) || 0,
+          max: Number(fields[5]) || 0
+        },
+        version: fields[3] ? `Bedrock ${fields[3]}` : 'Bedrock',
+        hostname,
+        port,
+        motd: stripFormatting([fields[1], fields[7]].filter(Boolean).join(' - ')),
+        lastUpdated: new Date().toISOString()
+      });
+    });
+
+    const ping = Buffer.alloc(1 + 8 + 16 + 8);
+    ping.writeUInt8(RAKNET_UNCONNECTED_PING, 0);
+    ping.writeBigInt64BE(BigInt(Date.now()), 1);
+    RAKNET_MAGIC.copy(ping, 9);
+    randomBytes(8).copy(ping, 25); // client guid
+
+    socket.send(ping, port, hostname, (error) => {
+      if (error) finish(error);
+    });
+  });
+
+// Pings either edition; an unreachable server is reported as offline rather
+// than thrown, since that is a valid answer for a status check
+export const pingServer = async (host: string, port: number, edition: ServerEdition): Promise<ServerStatus> => {
+  try {
+    return edition === 'java'
+      ? await pingJavaServer(host, port)
+      : await pingBedrockServer(host, port);
+  } catch (error) {
+    console.error(`${edition} ping to ${host}:${port} failed:`, error);
+    return {
+      online: false,
+      players: { online: 0, max: 0 },
+      version: '-',
+      hostname: host,
+      port,
+      lastUpdated: new Date().toISOString()
+    };
+  }
+};
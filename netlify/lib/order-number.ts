@@ -0,0 +1,13 @@
+import { randomBytes } from 'crypto';
+
+// Unambiguous alphabet (no 0/O or 1/I) so customers can read IDs back to staff
+const ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateOrderNumber = (): string => {
+  const bytes = randomBytes(8);
+  let suffix = '';
+  for (const byte of bytes) {
+    suffix += ALPHABET[byte % ALPHABET.length];
+  }
+  return `CS-${suffix}`;
+};
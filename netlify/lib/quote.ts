@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { PriceQuote } from '../../src/types/order';
+
+const QUOTE_SIGNING_SECRET = process.env.QUOTE_SIGNING_SECRET || '';
+
+// Quotes are short-lived so a price change in the admin takes effect quickly
+export const QUOTE_TTL_MS = 15 * 60 * 1000;
+
+type SignedFields = Omit<PriceQuote, 'signature'>;
+
+const payloadFor = (quote: SignedFields) =>
+  [
+    quote.id,
+    quote.product_name,
+    (quote.lines || [])
+      .map(line => `${line.product_id}x${line.quantity}@${Number(line.price).toFixed(2)}`)
+      .join(','),
+    Number(quote.price).toFixed(2),
+    quote.order_type || 'purchase',
+    quote.upgrade_from || '',
+    quote.coupon_code || '',
+    Number(quote.discount_amount || 0).toFixed(2),
+    // Postgres and JS format timestamps differently; sign the instant, not the text
+    new Date(quote.expires_at).toISOString()
+  ].join('|');
+
+export const signQuote = (quote: SignedFields): string => {
+  if (!QUOTE_SIGNING_SECRET) {
+    throw new Error('QUOTE_SIGNING_SECRET is not configured');
+  }
+
+  return createHmac('sha256', QUOTE_SIGNING_SECRET).update(payloadFor(quote)).digest('hex');
+};
+
+export const isValidQuoteSignature = (quote: SignedFields, signature: string): boolean => {
+  const expected = Buffer.from(signQuote(quote), 'hex');
+  const received = Buffer.from(signature || '', 'hex');
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
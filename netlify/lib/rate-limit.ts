@@ -0,0 +1,30 @@
+// Simple in-memory rate limiter, scoped to a single function instance
+export const createRateLimiter = (maxAttempts: number, windowMs: number) => {
+  const store = new Map<string, { attempts: number; timestamp: number }>();
+
+  const cleanup = () => {
+    const now = Date.now();
+    for (const [key, value] of store.entries()) {
+      if (now - value.timestamp > windowMs) {
+        store.delete(key);
+      }
+    }
+  };
+
+  // Records an attempt and returns the seconds to wait, or 0 when allowed
+  return (key: string): number => {
+    cleanup();
+
+    const now = Date.now();
+    const entry = store.get(key) || { attempts: 0, timestamp: now };
+
+    if (entry.attempts >= maxAttempts) {
+      return Math.ceil((windowMs - (now - entry.timestamp)) / 1000);
+    }
+
+    entry.attempts += 1;
+    entry.timestamp = now;
+    store.set(key, entry);
+    return 0;
+  };
+};
@@ -0,0 +1,129 @@
+// Minimal Source RCON client used to run delivery commands on the Minecraft server
+// Protocol: https://developer.valvesoftware.com/wiki/Source_RCON_Protocol
+import { Socket } from 'net';
+
+const PACKET_TYPE_RESPONSE = 0;
+const PACKET_TYPE_COMMAND = 2;
+const PACKET_TYPE_AUTH = 3;
+const AUTH_FAILED_ID = -1;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export interface RconOptions {
+  host: string;
+  port: number;
+  password: string;
+  timeoutMs?: number;
+}
+
+interface RconPacket {
+  id: number;
+  type: number;
+  body: string;
+}
+
+export const getRconOptionsFromEnv = (): RconOptions | null => {
+  const host = process.env.RCON_HOST;
+  const password = process.env.RCON_PASSWORD;
+  if (!host || !password) return null;
+
+  return {
+    host,
+    port: Number(process.env.RCON_PORT) || 25575,
+    password
+  };
+};
+
+const encodePacket = ({ id, type, body }: RconPacket): Buffer => {
+  const bodyBuffer = Buffer.from(body, 'utf8');
+  // id + type + body + two null terminators
+  const length = 4 + 4 + bodyBuffer.length + 2;
+  const packet = Buffer.alloc(4 + length);
+
+  packet.writeInt32LE(length, 0);
+  packet.writeInt32LE(id, 4);
+  packet.writeInt32LE(type, 8);
+  bodyBuffer.copy(packet, 12);
+  return packet;
+};
+
+// Pulls every complete packet off the front of the buffer
+const decodePackets = (buffer: Buffer): { packets: RconPacket[]; rest: Buffer } => {
+  const packets: RconPacket[] = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 4) {
+    const length = buffer.readInt32LE(offset);
+    if (buffer.length - offset - 4 < length) break;
+
+    packets.push({
+      id: buffer.readInt32LE(offset + 4),
+      type: buffer.readInt32LE(offset + 8),
+      body: buffer.toString('utf8', offset + 12, offset + 4 + length - 2)
+    });
+    offset += 4 + length;
+  }
+
+  return { packets, rest: buffer.subarray(offset) };
+};
+
+/**
+ * Connects, authenticates and runs each command in order, returning one
+ * response string per command. Rejects on connection errors, a wrong
+ * password or when the server does not answer within the timeout.
+ */
+export const sendRconCommands = (options: RconOptions, commands: string[]): Promise<string[]> =>
+  new Promise((resolve, reject) => {
+    const socket = new Socket();
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const responses: string[] = [];
+    let buffer = Buffer.alloc(0);
+    let nextId = 1;
+    let authenticated = false;
+    let settled = false;
+
+    const finish = (error: Error | null) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(responses);
+    };
+
+    const sendNextCommand = () => {
+      const command = commands[responses.length];
+      if (command === undefined) {
+        finish(null);
+        return;
+      }
+      socket.write(encodePacket({ id: ++nextId, type: PACKET_TYPE_COMMAND, body: command }));
+    };
+
+    socket.setTimeout(timeoutMs, () => finish(new Error(`RCON timed out after ${timeoutMs}ms`)));
+    socket.on('error', (error) => finish(error));
+    socket.on('close', () => finish(new Error('RCON connection closed unexpectedly')));
+
+    socket.on('data', (chunk) => {
+      const decoded = decodePackets(Buffer.concat([buffer, chunk]));
+      buffer = decoded.rest;
+
+      for (const packet of decoded.packets) {
+        if (!authenticated) {
+          // Some servers send an empty response packet before the auth result
+          if (packet.type === PACKET_TYPE_RESPONSE) continue;
+          if (packet.id === AUTH_FAILED_ID) {
+            finish(new Error('RCON authentication failed'));
+            return;
+          }
+          authenticated = true;
+          sendNextCommand();
+        } else if (packet.type === PACKET_TYPE_RESPONSE && packet.id === nextId) {
+          responses.push(packet.body);
+          sendNextCommand();
+        }
+      }
+    });
+
+    socket.connect(options.port, options.host, () => {
+      socket.write(encodePacket({ id: nextId, type: PACKET_TYPE_AUTH, body: options.password }));
+    });
+  });
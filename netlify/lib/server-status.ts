@@ -0,0 +1,60 @@
+// Live player data for the Minecraft servers, pinged directly the same way
+// the server-status function does for the store's status modal
+import { pingServer } from './minecraft-ping';
+import { supabaseAdmin } from './supabase-admin';
+import {
+  DEFAULT_SERVER_PORTS,
+  getServerEditions,
+  getServerPort,
+  type ServerDefinition,
+  type ServerStatus
+} from '../../src/types/server';
+
+export const MINECRAFT_SERVER_HOST = process.env.MINECRAFT_SERVER_HOST || 'champa.lol';
+
+export interface OnlinePlayers {
+  serverOnline: boolean;
+  // Lowercased names of every online player, or null when the servers do not
+  // publish their full player list
+  names: Set<string> | null;
+}
+
+const loadServers = async (): Promise<ServerDefinition[]> => {
+  const { data, error } = await supabaseAdmin
+    .from('servers')
+    .select('id, name, host, java_port, bedrock_port, description, sort_order');
+
+  if (error) throw error;
+  if (data && data.length > 0) return data;
+
+  // No servers configured yet; fall back to the one from the environment
+  return [{
+    id: 'default',
+    name: MINECRAFT_SERVER_HOST,
+    host: MINECRAFT_SERVER_HOST,
+    java_port: Number(process.env.MINECRAFT_JAVA_PORT) || DEFAULT_SERVER_PORTS.java,
+    bedrock_port: null,
+    description: '',
+    sort_order: 0
+  }];
+};
+
+// Java servers publish a sample of player names; Bedrock only a count
+const pingForPlayers = (server: ServerDefinition): Promise<ServerStatus> => {
+  const edition = getServerEditions(server)[0] || 'java';
+  return pingServer(server.host, getServerPort(server, edition), edition);
+};
+
+export const fetchOnlinePlayers = async (): Promise<OnlinePlayers> => {
+  const statuses = (await Promise.all((await loadServers()).map(pingForPlayers)))
+    .filter(status => status.online);
+
+  // Java caps the sample at 12 names, so a list shorter than the online count
+  // cannot prove that anyone is offline
+  const complete = statuses.every(status => (status.players.list || []).length >= status.players.online);
+  const names = complete
+    ? new Set(statuses.flatMap(status => status.players.list || []).map(name => name.toLowerCase()))
+    : null;
+
+  return { serverOnline: statuses.length > 0, names };
+};
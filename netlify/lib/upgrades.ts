@@ -0,0 +1,40 @@
+import { supabaseAdmin } from './supabase-admin';
+
+export interface OwnedRank {
+  id: number;
+  name: string;
+  price: number;
+}
+
+const DEFAULT_UPGRADE_PRICE_FLOOR = 1;
+
+// The player's highest delivered rank that hasn't expired, by current product price
+export const findOwnedRank = async (customerName: string, platform: string): Promise<OwnedRank | null> => {
+  const { data, error } = await supabaseAdmin
+    .rpc('get_owned_rank', { p_customer_name: customerName.trim(), p_platform: platform })
+    .maybeSingle<OwnedRank>();
+
+  if (error) throw error;
+  return data ? { ...data, price: Number(data.price) } : null;
+};
+
+// Least an upgrade costs; configured by staff as `upgrade_price_floor` in site_config
+export const getUpgradePriceFloor = async (): Promise<number> => {
+  const { data, error } = await supabaseAdmin
+    .from('site_config')
+    .select('value')
+    .eq('key', 'upgrade_price_floor')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const floor = Number(data?.value);
+  return data?.value && Number.isFinite(floor) && floor >= 0 ? floor : DEFAULT_UPGRADE_PRICE_FLOOR;
+};
+
+/**
+ * Price of upgrading from the owned rank: the difference between the two,
+ * but never below the floor nor above the full price of the new rank.
+ */
+export const calculateUpgradePrice = (targetPrice: number, ownedPrice: number, floor: number): number =>
+  Math.round(Math.min(targetPrice, Math.max(targetPrice - ownedPrice, floor)) * 100) / 100;
@@ -0,0 +1,72 @@
+// Local stand-in for a Minecraft RCON server, for testing order delivery
+// without a real server.
+//
+//   npm run rcon:fake
+//
+// Then point the Netlify functions at it with RCON_HOST=127.0.0.1,
+// RCON_PORT=25575 and RCON_PASSWORD=test. Options (environment variables):
+//   FAKE_RCON_PORT       port to listen on (default 25575)
+//   FAKE_RCON_PASSWORD   password to accept (default "test")
+//   FAKE_RCON_FAIL_FIRST drop the first N connections to exercise retries
+import net from 'net';
+
+const PORT = Number(process.env.FAKE_RCON_PORT) || 25575;
+const PASSWORD = process.env.FAKE_RCON_PASSWORD || 'test';
+let failuresLeft = Number(process.env.FAKE_RCON_FAIL_FIRST) || 0;
+
+const PACKET_TYPE_RESPONSE = 0;
+const PACKET_TYPE_AUTH_RESPONSE = 2;
+const PACKET_TYPE_COMMAND = 2;
+const PACKET_TYPE_AUTH = 3;
+
+const encodePacket = (id, type, body) => {
+  const bodyBuffer = Buffer.from(body, 'utf8');
+  const length = 4 + 4 + bodyBuffer.length + 2;
+  const packet = Buffer.alloc(4 + length);
+  packet.writeInt32LE(length, 0);
+  packet.writeInt32LE(id, 4);
+  packet.writeInt32LE(type, 8);
+  bodyBuffer.copy(packet, 12);
+  return packet;
+};
+
+const server = net.createServer((socket) => {
+  if (failuresLeft > 0) {
+    failuresLeft--;
+    console.log(`Dropping connection (${failuresLeft} more to drop)`);
+    socket.destroy();
+    return;
+  }
+
+  let buffer = Buffer.alloc(0);
+  let authenticated = false;
+
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (buffer.length >= 4) {
+      const length = buffer.readInt32LE(0);
+      if (buffer.length - 4 < length) break;
+
+      const id = buffer.readInt32LE(4);
+      const type = buffer.readInt32LE(8);
+      const body = buffer.toString('utf8', 12, 4 + length - 2);
+      buffer = buffer.subarray(4 + length);
+
+      if (type === PACKET_TYPE_AUTH) {
+        authenticated = body === PASSWORD;
+        console.log(authenticated ? 'Client authenticated' : 'Client sent a wrong password');
+        socket.write(encodePacket(authenticated ? id : -1, PACKET_TYPE_AUTH_RESPONSE, ''));
+      } else if (type === PACKET_TYPE_COMMAND && authenticated) {
+        console.log(`> ${body}`);
+        socket.write(encodePacket(id, PACKET_TYPE_RESPONSE, `Executed: ${body}`));
+      }
+    }
+  });
+
+  socket.on('error', (error) => console.error('Socket error:', error.message));
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake RCON server listening on port ${PORT} (password "${PASSWORD}")`);
+});
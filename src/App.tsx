@@ -2,9 +2,11 @@ import React, { lazy, Suspense } from 'react';
 import { RouterProvider, createBrowserRouter } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import Store from './pages/Store';
+import CurrencyProvider from './components/CurrencyProvider';
 
 // Lazy load the admin dashboard for performance
 const AdminDashboard = lazy(() => import('./pages/Admin'));
+const OrderStatusPage = lazy(() => import('./pages/OrderStatus'));
 
 // Loading component for lazy-loaded routes
 const LazyLoading = () => (
@@ -25,6 +27,14 @@ const router = createBrowserRouter(
         </Suspense>
       )
     },
+    { 
+      path: "/order/:orderNumber", 
+      element: (
+        <Suspense fallback={<LazyLoading />}>
+          <OrderStatusPage />
+        </Suspense>
+      )
+    },
     { path: "*", element: <Navigate to="/" /> }
   ],
   {
@@ -40,7 +50,7 @@ import { Navigate } from 'react-router-dom';
 
 function App() {
   return (
-    <>
+    <CurrencyProvider>
       <Toaster position="top-center" />
       <RouterProvider 
         router={router} 
@@ -48,7 +58,7 @@ function App() {
           v7_startTransition: true
         }}
       />
-    </>
+    </CurrencyProvider>
   );
 }
 
@@ -0,0 +1,129 @@
+import { memo, useMemo } from 'react';
+import { Minus, Plus, ShoppingCart, Trash2, X } from 'lucide-react';
+import { MAX_LINE_QUANTITY, type CartLine } from '../types/cart';
+import { ITEM_TYPE_LABELS, type CatalogProduct } from '../types/product';
+import { useCurrency } from '../lib/currency';
+
+interface CartDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  lines: CartLine[];
+  products: CatalogProduct[];
+  onQuantityChange: (productId: number, quantity: number) => void;
+  onCheckout: () => void;
+}
+
+// Slide-over listing the cart. Totals use catalog prices; the checkout quote
+// has the final price, including upgrade credit and coupons.
+export default memo(function CartDrawer({
+  isOpen,
+  onClose,
+  lines,
+  products,
+  onQuantityChange,
+  onCheckout
+}: CartDrawerProps) {
+  const { formatPrice } = useCurrency();
+  const priced = useMemo(() => lines.map(line => {
+    const product = products.find(p => p.id === line.product_id);
+    return { line, unitPrice: product?.price ?? null, stock: product?.stock ?? null };
+  }), [lines, products]);
+
+  const total = priced.reduce((sum, { line, unitPrice }) => sum + (unitPrice ?? 0) * line.quantity, 0);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-gray-900 border-l border-gray-700 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <ShoppingCart size={18} className="text-emerald-400" />
+            Your Cart
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors p-1 rounded-full"
+            aria-label="Close cart"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {lines.length === 0 ? (
+            <p className="text-center text-gray-400 text-sm py-10">Your cart is empty</p>
+          ) : (
+            priced.map(({ line, unitPrice, stock }) => (
+              <div key={line.product_id} className="bg-gray-800/70 rounded-lg p-3 border border-gray-700/80">
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <p className="text-white font-medium">{line.name}</p>
+                    <p className="text-xs text-gray-400">{ITEM_TYPE_LABELS[line.item_type]}</p>
+                    {stock !== null && stock < line.quantity && (
+                      <p className="text-xs text-red-400">{stock > 0 ? `Only ${stock} left` : 'Sold out'}</p>
+                    )}
+                  </div>
+                  <p className="text-emerald-400 font-medium">
+                    {unitPrice !== null ? formatPrice(unitPrice * line.quantity) : '-'}
+                  </p>
+                </div>
+                <div className="flex items-center justify-between mt-2">
+                  {line.item_type === 'rank' ? (
+                    <span className="text-xs text-gray-500">One rank per order</span>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => onQuantityChange(line.product_id, line.quantity - 1)}
+                        className="w-7 h-7 rounded bg-gray-700 text-white hover:bg-gray-600 flex items-center justify-center"
+                        aria-label={`Remove one ${line.name}`}
+                      >
+                        <Minus size={14} />
+                      </button>
+                      <span className="w-6 text-center text-white text-sm">{line.quantity}</span>
+                      <button
+                        type="button"
+                        onClick={() => onQuantityChange(line.product_id, line.quantity + 1)}
+                        disabled={line.quantity >= Math.min(MAX_LINE_QUANTITY, stock ?? MAX_LINE_QUANTITY)}
+                        className="w-7 h-7 rounded bg-gray-700 text-white hover:bg-gray-600 flex items-center justify-center disabled:opacity-50"
+                        aria-label={`Add one ${line.name}`}
+                      >
+                        <Plus size={14} />
+                      </button>
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onQuantityChange(line.product_id, 0)}
+                    className="text-gray-500 hover:text-red-400 transition-colors"
+                    aria-label={`Remove ${line.name}`}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700">
+          <div className="flex justify-between items-center text-white mb-1">
+            <span>Total</span>
+            <span className="text-lg font-semibold text-emerald-400">{formatPrice(total)}</span>
+          </div>
+          <p className="text-xs text-gray-500 mb-3">Upgrade credit and coupons are applied at checkout</p>
+          <button
+            type="button"
+            onClick={onCheckout}
+            disabled={lines.length === 0}
+            className="w-full bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700 text-white rounded-lg py-2.5 font-medium transition-colors disabled:opacity-50"
+          >
+            Checkout
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+});
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { CurrencyContext, fetchCurrencySettings, type CurrencySettings } from '../lib/currency';
+import { convertMoney, DEFAULT_CURRENCY, formatMoney } from '../utils/money';
+
+// The customer's chosen currency, kept across visits
+const CURRENCY_STORAGE_KEY = 'champa-currency';
+
+const loadStoredCurrency = (): string => {
+  try {
+    return localStorage.getItem(CURRENCY_STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+// Loads the store currency and exchange rates, and formats prices in the
+// currency the customer picked; prices are still charged in the store currency
+export default function CurrencyProvider({ children }: { children: ReactNode }) {
+  const [settings, setSettings] = useState<CurrencySettings>({ storeCurrency: DEFAULT_CURRENCY, rates: [] });
+  const [selected, setSelected] = useState(loadStoredCurrency);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSettings(await fetchCurrencySettings());
+    } catch (error) {
+      console.error('Error fetching currency settings:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const setCurrency = useCallback((code: string) => {
+    setSelected(code);
+    try {
+      localStorage.setItem(CURRENCY_STORAGE_KEY, code);
+    } catch {
+      // Private browsing; the choice lasts for this visit only
+    }
+  }, []);
+
+  const value = useMemo(() => {
+    const { storeCurrency, rates } = settings;
+    const selectedRate = rates.find(rate => rate.code === selected);
+    // A currency the admin removed falls back to the store currency
+    const currency = selectedRate ? selectedRate.code : storeCurrency;
+
+    return {
+      storeCurrency,
+      currency,
+      currencies: [storeCurrency, ...rates.map(rate => rate.code)],
+      setCurrency,
+      formatPrice: (amount: number) => selectedRate
+        ? formatMoney(convertMoney(amount, selectedRate.rate, currency), currency)
+        : formatMoney(amount, storeCurrency),
+      refresh
+    };
+  }, [settings, selected, setCurrency, refresh]);
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
@@ -0,0 +1,23 @@
+import { memo } from 'react';
+import { useCurrency } from '../lib/currency';
+
+// Header picker for the currency prices are shown in; hidden when the store
+// only has its own currency
+export default memo(function CurrencySwitcher() {
+  const { currency, currencies, setCurrency } = useCurrency();
+
+  if (currencies.length < 2) return null;
+
+  return (
+    <select
+      value={currency}
+      onChange={(e) => setCurrency(e.target.value)}
+      className="h-10 bg-gray-800/80 hover:bg-gray-700 text-white text-sm font-medium rounded-lg border border-gray-700 px-2 focus:outline-none focus:border-emerald-500 transition-colors"
+      aria-label="Currency"
+    >
+      {currencies.map(code => (
+        <option key={code} value={code}>{code}</option>
+      ))}
+    </select>
+  );
+});
@@ -1,20 +1,32 @@
 import React, { useState, useEffect, useMemo, useCallback, memo } from 'react';
-import { X, Upload, Info, CreditCard, User, Shield, Check, AlertCircle } from 'lucide-react';
+import { X, Upload, Info, CreditCard, User, Shield, Check, AlertCircle, Tag, ArrowUpCircle, Gift, ChevronDown, Copy } from 'lucide-react';
 import { supabase, checkSupabaseBuckets, createStorageBucket } from '../lib/supabase';
 import toast from 'react-hot-toast';
 import { sanitizeInput, sanitizeDiscordContent } from '../utils/sanitize';
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from "../ui/dialog";
 import * as VisuallyHidden from '@radix-ui/react-visually-hidden';
 import { ReceiptModal } from './ReceiptModal';
+import RankComparisonTable from './RankComparisonTable';
 import { Button } from "../ui/button";
+import { GIFT_MESSAGE_MAX_LENGTH, normalizeOrder, type Order, type Platform, type PriceQuote, type ReceiptOrder } from '../types/order';
+import { getCartRankLine, isQuoteForItems, toCartQuoteItems, type CartLine, type CartQuoteItem } from '../types/cart';
+import { normalizeCouponCode } from '../types/coupon';
+import { applySale, type Sale } from '../types/sale';
+import { calculatePaymentFee, isPaymentMethodKind, type PaymentMethod } from '../types/payment-method';
+import { formatRankDuration } from '../utils/date-helpers';
+import { formatMoney } from '../utils/money';
+import { useCurrency } from '../lib/currency';
 
 interface OrderModalProps {
   isOpen: boolean;
   onClose: () => void;
   title: string;
   name?: string;
-  platform?: "java" | "bedrock";
+  platform?: Platform;
   rankName?: string;
+  // Checks out these cart lines instead of a single rank chosen in the form
+  cartLines?: CartLine[];
+  onOrderPlaced?: () => void;
   onConfirm: () => void;
   isLoading?: boolean;
 }
@@ -23,8 +35,11 @@ interface RankOption {
   name: string;
   price: number;
   originalPrice?: number; // Optional original price for discounts
+  durationDays?: number | null; // Null for lifetime ranks
   color: string;
   image: string;
+  perks: string[];
+  stock?: number | null; // Units left; null for unlimited
 }
 
 // Initial fallback ranks in case database fetch fails
@@ -33,13 +48,15 @@ const DEFAULT_RANKS: RankOption[] = [
     name: 'VIP', 
     price: 5, 
     color: 'from-emerald-500 to-emerald-600',
-    image: 'https://i.imgur.com/NX3RB4i.png'
+    image: 'https://i.imgur.com/NX3RB4i.png',
+    perks: []
   },
   { 
     name: 'MVP', 
     price: 10, 
     color: 'from-blue-500 to-blue-600',
-    image: 'https://i.imgur.com/gmlFpV2.png'
+    image: 'https://i.imgur.com/gmlFpV2.png',
+    perks: []
   }
 ];
 
@@ -59,6 +76,15 @@ setInterval(() => {
   }
 }, 300000); // Clean up every 5 minutes
 
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,16}$/;
+
+// A price-quote request the server turned down; a 429 carries the seconds to wait
+class QuoteRequestError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfter: number) {
+    super(message);
+  }
+}
+
 // Memoized platform button component
 const PlatformButton = memo(({ 
   label, 
@@ -91,29 +117,45 @@ const RankButton = memo(({
   rank: RankOption; 
   isSelected: boolean; 
   onClick: () => void;
-}) => (
-  <button
-    type="button"
-    onClick={onClick}
-    className={`py-2 sm:py-3 px-2 sm:px-3 rounded-lg border transition-all transform hover:scale-[1.02] text-sm ${
-      isSelected
-        ? `bg-gradient-to-r ${rank.color} text-white border-transparent`
-        : 'bg-gray-700/50 text-gray-300 border-gray-600 hover:bg-gray-600/50'
-    }`}
-  >
-    <div className="font-medium truncate">{rank.name}</div>
-    <div className="text-xs sm:text-sm">
-      {rank.originalPrice && rank.originalPrice > rank.price ? (
-        <div className="flex flex-col items-center">
-          <span className="line-through text-gray-400 text-xs">${rank.originalPrice.toFixed(2)}</span>
-          <span className="text-emerald-300 font-semibold">${rank.price.toFixed(2)}</span>
-        </div>
-      ) : (
-        <span>${rank.price.toFixed(2)}</span>
-      )}
-    </div>
-  </button>
-));
+}) => {
+  const { formatPrice } = useCurrency();
+  const soldOut = rank.stock !== undefined && rank.stock !== null && rank.stock <= 0;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={soldOut}
+      className={`py-2 sm:py-3 px-2 sm:px-3 rounded-lg border transition-all transform text-sm ${
+        soldOut
+          ? 'bg-gray-800/50 text-gray-500 border-gray-700 cursor-not-allowed'
+          : isSelected
+            ? `bg-gradient-to-r ${rank.color} text-white border-transparent hover:scale-[1.02]`
+            : 'bg-gray-700/50 text-gray-300 border-gray-600 hover:bg-gray-600/50 hover:scale-[1.02]'
+      }`}
+    >
+      <div className="font-medium truncate">{rank.name}</div>
+      <div className="text-xs sm:text-sm">
+        {soldOut ? (
+          <span className="text-red-400 font-semibold uppercase">Sold out</span>
+        ) : rank.originalPrice && rank.originalPrice > rank.price ? (
+          <div className="flex flex-col items-center">
+            <span className="line-through text-gray-400 text-xs">{formatPrice(rank.originalPrice)}</span>
+            <span className="text-emerald-300 font-semibold">{formatPrice(rank.price)}</span>
+          </div>
+        ) : (
+          <span>{formatPrice(rank.price)}</span>
+        )}
+      </div>
+      {rank.durationDays ? (
+        <div className="text-[11px] opacity-75">{formatRankDuration(rank.durationDays)}</div>
+      ) : null}
+      {!soldOut && rank.stock ? (
+        <div className="text-[11px] text-amber-300">{rank.stock} left</div>
+      ) : null}
+    </button>
+  );
+});
 
 // Virtualized rank buttons component for better performance with many ranks
 const VirtualizedRankButtons = memo(({ 
@@ -164,28 +206,38 @@ const OrderModal: React.FC<OrderModalProps> = ({
   name: initialName = '',
   platform: initialPlatform,
   rankName: initialRankName,
+  cartLines,
+  onOrderPlaced,
   onConfirm,
   isLoading = false
 }): JSX.Element | null => {
+  const { currency, storeCurrency, formatPrice } = useCurrency();
   const [name, setName] = useState(initialName);
-  const [phone, setPhone] = useState('');
-  const [platform, setPlatform] = useState<"java" | "bedrock" | undefined>(initialPlatform);
+  const [platform, setPlatform] = useState<Platform | undefined>(initialPlatform);
   const [rankName, setRankName] = useState(initialRankName);
   const [paymentProof, setPaymentProof] = useState<File | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [username, setUsername] = useState('');
-  const [selectedRank, setSelectedRank] = useState<string>('VIP');
+  // Pre-filled when renewing a rank
+  const [username, setUsername] = useState(initialName);
+  const [selectedRank, setSelectedRank] = useState<string>(initialRankName || 'VIP');
+  // Gift mode: the rank goes to another player
+  const [isGift, setIsGift] = useState(false);
+  const [recipientUsername, setRecipientUsername] = useState('');
+  const [recipientPlatform, setRecipientPlatform] = useState<Platform>('java');
+  const [giftMessage, setGiftMessage] = useState('');
   const [loading, setLoading] = useState(false);
   const [loadingStage, setLoadingStage] = useState<'uploading' | 'processing' | 'finalizing' | null>(null);
   const [showReceipt, setShowReceipt] = useState(false);
-  const [receiptData, setReceiptData] = useState<any>(null);
+  const [receiptData, setReceiptData] = useState<ReceiptOrder | null>(null);
   const [orderComplete, setOrderComplete] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [showComparison, setShowComparison] = useState(false);
   
-  // Store ranks and QR code image in state
+  // Store ranks and payment methods in state
   const [ranks, setRanks] = useState<RankOption[]>(DEFAULT_RANKS);
-  const [qrCodeImage, setQrCodeImage] = useState('/images/qr/qrcode.jpg');
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [paymentMethodId, setPaymentMethodId] = useState<string | null>(null);
   const [receiptImage, setReceiptImage] = useState('/images/receipt-bg.jpg');
   const [receiptLogoImage, setReceiptLogoImage] = useState('https://i.imgur.com/ArKEQz1.png');
   const [logoImage, setLogoImage] = useState<string>('https://i.imgur.com/ArKEQz1.png');
@@ -202,16 +254,20 @@ const OrderModal: React.FC<OrderModalProps> = ({
 
   // Implement debouncing for username input
   const [debouncedUsername, setDebouncedUsername] = useState('');
+  const [debouncedRecipient, setDebouncedRecipient] = useState('');
   
   useEffect(() => {
     const timer = setTimeout(() => {
       if (username !== debouncedUsername) {
         setDebouncedUsername(username);
       }
+      if (recipientUsername !== debouncedRecipient) {
+        setDebouncedRecipient(recipientUsername);
+      }
     }, 300);
     
     return () => clearTimeout(timer);
-  }, [username, debouncedUsername]);
+  }, [username, debouncedUsername, recipientUsername, debouncedRecipient]);
   
   // Prefetch image optimization
   useEffect(() => {
@@ -232,15 +288,149 @@ const OrderModal: React.FC<OrderModalProps> = ({
     [selectedRank, ranks]
   );
   
-  // Memoize expensive operations
+  const isCartCheckout = !!cartLines && cartLines.length > 0;
+
+  // What is being bought: the cart, or the rank picked in the form
+  const quoteItems = useMemo<CartQuoteItem[]>(() =>
+    isCartCheckout ? toCartQuoteItems(cartLines) : [{ product: selectedRank, quantity: 1 }],
+    [isCartCheckout, cartLines, selectedRank]
+  );
+
+  // Server-issued quote for the selected items; the order is charged at this price
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+
+  // Coupon code typed by the customer, and the one the current quote is priced with
+  const [couponInput, setCouponInput] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<string | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+
+  // The player's username and platform let the server quote an upgrade from a
+  // rank they own; for a gift, the recipient's rank is used instead
+  const requestQuote = useCallback(async (
+    items: CartQuoteItem[],
+    couponCode: string | null,
+    customerName?: string,
+    customerPlatform?: Platform,
+    recipient?: { username: string; platform: Platform }
+  ): Promise<PriceQuote> => {
+    const response = await fetch('/.netlify/functions/price-quote', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        items,
+        couponCode,
+        username: customerName,
+        platform: customerPlatform,
+        recipientUsername: recipient?.username,
+        recipientPlatform: recipient?.platform
+      })
+    });
+
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new QuoteRequestError(
+        result.message || `Failed to price the selected items (${response.status})`,
+        response.status,
+        Number(response.headers.get('Retry-After')) || 0
+      );
+    }
+
+    return result.quote;
+  }, []);
+
+  // Player an upgrade is quoted for: the gift recipient, otherwise the buyer.
+  // Empty until the name is valid, or when nothing in the order is a rank, so
+  // typing a name only asks for a new quote once it could change the price
+  const hasRank = cartLines && isCartCheckout ? !!getCartRankLine(cartLines) : true;
+  const getQuoteHolder = useCallback((name: string): string =>
+    hasRank && USERNAME_PATTERN.test(name.trim()) ? name.trim() : '',
+    [hasRank]
+  );
+  const quoteHolder = getQuoteHolder(isGift ? debouncedRecipient : debouncedUsername);
+
+  // Bumped to quote again once a rate limit has passed
+  const [quoteRetry, setQuoteRetry] = useState(0);
+
+  useEffect(() => {
+    if (!isOpen || !quoteItems.every(item => item.product)) return;
+
+    let cancelled = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    setQuote(null);
+
+    // A gift's buyer is left out: their name only matters to the coupon's
+    // per-customer limit, which create-order checks again anyway
+    const request = isGift
+      ? requestQuote(quoteItems, appliedCoupon, undefined, undefined,
+          quoteHolder ? { username: quoteHolder, platform: recipientPlatform } : undefined)
+      : requestQuote(quoteItems, appliedCoupon, quoteHolder || undefined, platform);
+
+    request
+      .then(newQuote => {
+        if (cancelled) return;
+        setQuote(newQuote);
+        if (appliedCoupon) setCouponError(null);
+      })
+      .catch(err => {
+        console.error('Error fetching price quote:', err);
+        if (cancelled) return;
+
+        if (err instanceof QuoteRequestError && err.status === 429) {
+          // Keep the coupon and quote again once the limit has passed
+          if (appliedCoupon) setCouponError('Too many attempts. Trying again shortly...');
+          retryTimer = setTimeout(() => setQuoteRetry(retry => retry + 1), Math.max(err.retryAfter, 5) * 1000);
+        } else if (appliedCoupon) {
+          // Fall back to the undiscounted price when the coupon doesn't apply
+          setCouponError(err.message);
+          setAppliedCoupon(null);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(retryTimer);
+    };
+  }, [isOpen, quoteItems, appliedCoupon, isGift, quoteHolder, platform, recipientPlatform, quoteRetry, requestQuote]);
+
+  const handleApplyCoupon = useCallback(() => {
+    const code = normalizeCouponCode(couponInput);
+    if (!code) return;
+
+    setCouponError(null);
+    setAppliedCoupon(code);
+  }, [couponInput]);
+
+  const handleRemoveCoupon = useCallback(() => {
+    setCouponError(null);
+    setCouponInput('');
+    setAppliedCoupon(null);
+  }, []);
+
+  const couponDiscount = quote?.coupon_code ? quote.discount_amount : 0;
+  const isApplyingCoupon = !!appliedCoupon && (!quote || quote.coupon_code !== appliedCoupon);
+
+  // Prefer the quoted price; the catalog price is only shown while the quote loads
   const selectedRankPrice = useMemo(() => 
-    selectedRankOption?.price || 0,
-    [selectedRankOption]
+    quote ? quote.price : isCartCheckout ? 0 : (selectedRankOption?.price || 0),
+    [quote, isCartCheckout, selectedRankOption]
+  );
+
+  const selectedRankOriginalPrice = useMemo(() => 
+    quote ? quote.original_price : isCartCheckout ? null : (selectedRankOption?.originalPrice ?? null),
+    [quote, isCartCheckout, selectedRankOption]
   );
   
+  // The picked method, or the first one until the customer picks
+  const selectedPaymentMethod = paymentMethods.find(method => method.id === paymentMethodId) || paymentMethods[0] || null;
+  const paymentFee = selectedPaymentMethod ? calculatePaymentFee(selectedPaymentMethod, selectedRankPrice) : 0;
+  const amountDue = Math.round((selectedRankPrice + paymentFee) * 100) / 100;
+
   const hasDiscount = useMemo(() => 
-    !!(selectedRankOption?.originalPrice && selectedRankOption.originalPrice > selectedRankOption.price),
-    [selectedRankOption]
+    !!(selectedRankOriginalPrice && selectedRankOriginalPrice > selectedRankPrice),
+    [selectedRankOriginalPrice, selectedRankPrice]
   );
   
   // Memoize platform selection handler to avoid function recreation
@@ -292,32 +482,72 @@ const OrderModal: React.FC<OrderModalProps> = ({
           .from('products')
           .select('*')
           .eq('active', true)
+          .order('sort_order', { ascending: true })
           .order('price');
           
         if (productsError) throw productsError;
+
+        // Live sales are applied here for display; the quote applies them again server-side
+        const { data: salesData, error: salesError } = await supabase
+          .from('sales')
+          .select('*')
+          .gt('ends_at', new Date().toISOString());
+
+        if (salesError) throw salesError;
         
-        if (productsData && productsData.length > 0) {
-          const formattedRanks = productsData.map(product => ({
-            name: product.name,
-            price: parseFloat(product.price),
-            originalPrice: product.original_price ? parseFloat(product.original_price) : undefined,
-            color: product.color || 'from-emerald-500 to-emerald-600',
-            image: product.image_url || 'https://i.imgur.com/NX3RB4i.png'
-          }));
+        // Other item types are bought through the store's cart
+        const rankProducts = (productsData || []).filter(product =>
+          (product.item_type || 'rank') === 'rank' && !product.purchase_url);
+
+        if (rankProducts.length > 0) {
+          const formattedRanks = rankProducts.map(product => {
+            const salePrice = applySale({
+              id: product.id,
+              price: parseFloat(product.price),
+              original_price: product.original_price ? parseFloat(product.original_price) : null
+            }, (salesData || []) as Sale[]);
+
+            return {
+              name: product.name,
+              price: salePrice.price,
+              originalPrice: salePrice.original_price ?? undefined,
+              durationDays: product.duration_days ?? null,
+              color: product.color || 'from-emerald-500 to-emerald-600',
+              image: product.image_url || 'https://i.imgur.com/NX3RB4i.png',
+              perks: Array.isArray(product.perks) ? product.perks : [],
+              stock: product.stock ?? null
+            };
+          });
           
           setRanks(formattedRanks);
           
-          // If the previously selected rank no longer exists, select the first available
-          if (!formattedRanks.some(rank => rank.name === selectedRank) && formattedRanks.length > 0) {
-            setSelectedRank(formattedRanks[0].name);
+          // If the previously selected rank no longer exists or sold out, select the first available
+          const available = formattedRanks.filter(rank => rank.stock === null || rank.stock > 0);
+          if (!available.some(rank => rank.name === selectedRank) && available.length > 0) {
+            setSelectedRank(available[0].name);
           }
         }
         
-        // Fetch QR code and logo images
+        const { data: methodsData, error: methodsError } = await supabase
+          .from('payment_methods')
+          .select('id, name, kind, instructions, account_number, qr_image_url, fee_percent, fee_fixed, active, sort_order')
+          .eq('active', true)
+          .order('sort_order', { ascending: true });
+
+        if (methodsError) throw methodsError;
+
+        setPaymentMethods((methodsData || []).map(method => ({
+          ...method,
+          kind: isPaymentMethodKind(method.kind) ? method.kind : 'bank_qr',
+          fee_percent: Number(method.fee_percent) || 0,
+          fee_fixed: Number(method.fee_fixed) || 0
+        })));
+
+        // Fetch receipt and logo images
         const { data: configData, error: configError } = await supabase
           .from('site_config')
           .select('*')
-          .in('key', ['qr_code_image', 'receipt_image', 'receipt_logo_image', 'logo_image']);
+          .in('key', ['receipt_image', 'receipt_logo_image', 'logo_image']);
           
         if (configError) throw configError;
         
@@ -327,10 +557,6 @@ const OrderModal: React.FC<OrderModalProps> = ({
             return acc;
           }, {});
           
-          if (configObj.qr_code_image) {
-            setQrCodeImage(configObj.qr_code_image);
-          }
-          
           if (configObj.receipt_image) {
             setReceiptImage(configObj.receipt_image);
           }
@@ -530,81 +756,50 @@ const OrderModal: React.FC<OrderModalProps> = ({
     }
   };
 
-  // Send to Discord webhook
-  const sendToDiscord = async (orderData: any, paymentProofUrl: string) => {
-    try {
-      const webhookData = {
-        type: 'new_order',
-        data: {
-          embeds: [
-            {
-              title: '🛍️ New Order Received',
-              color: 0x4ade80, // Emerald color
-              fields: [
-                {
-                  name: '👤 Username',
-                  value: orderData.username,
-                  inline: true
-                },
-                {
-                  name: '🎮 Platform',
-                  value: orderData.platform.charAt(0).toUpperCase() + orderData.platform.slice(1),
-                  inline: true
-                },
-                {
-                  name: '⭐ Rank',
-                  value: orderData.rank,
-                  inline: true
-                },
-                {
-                  name: '💰 Price',
-                  value: `$${orderData.price.toFixed(2)}`,
-                  inline: true
-                },
-                {
-                  name: '🆔 Order ID',
-                  value: orderData.orderId || 'N/A',
-                  inline: true
-                },
-                {
-                  name: '📅 Date',
-                  value: new Date().toLocaleString(),
-                  inline: true
-                }
-              ],
-              thumbnail: {
-                url: 'https://i.imgur.com/ArKEQz1.png'
-              },
-              image: paymentProofUrl ? {
-                url: paymentProofUrl
-              } : undefined,
-              footer: {
-                text: 'Champa Store - Order System',
-                icon_url: 'https://i.imgur.com/ArKEQz1.png'
-              }
-            }
-          ]
-        }
-      };
+  const giftRecipient = isGift ? { username: recipientUsername.trim(), platform: recipientPlatform } : undefined;
 
-      const response = await fetch('/.netlify/functions/discord-webhook', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(webhookData)
-      });
+  // Persist the order server-side; the function also notifies Discord
+  const createOrder = async (paymentProofUrl: string, orderQuote: PriceQuote): Promise<Order> => {
+    const response = await fetch('/.netlify/functions/create-order', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        username: username.trim(),
+        platform,
+        quoteId: orderQuote.id,
+        quoteSignature: orderQuote.signature,
+        paymentMethodId: selectedPaymentMethod?.id,
+        paymentProofUrl,
+        ...(isGift && {
+          recipientUsername: recipientUsername.trim(),
+          recipientPlatform,
+          giftMessage: giftMessage.trim() || undefined
+        })
+      })
+    });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Discord webhook error: ${response.status} ${response.statusText} - ${errorText}`);
-      }
+    const result = await response.json().catch(() => ({}));
 
-      return true;
-    } catch (error) {
-      console.error('Failed to send Discord notification:', error);
-      throw error;
+    if (response.status === 409 && result.code === 'coupon_unavailable') {
+      // The coupon ran out while the customer was paying; reprice without it
+      setCouponError(result.message);
+      setAppliedCoupon(null);
+    } else if (response.status === 409 && result.code === 'payment_method_unavailable') {
+      // Staff turned the method off while the customer was paying
+      setPaymentMethods(prev => prev.filter(method => method.id !== selectedPaymentMethod?.id));
+      setPaymentMethodId(null);
+    } else if (response.status === 409 && result.code !== 'sold_out') {
+      // Quote expired or was already used; show the current price before retrying
+      setQuote(await requestQuote(quoteItems, appliedCoupon, username.trim(), platform, giftRecipient));
+    }
+
+    if (!response.ok) {
+      throw new Error(result.message || `Failed to create order (${response.status})`);
     }
+
+    return normalizeOrder(result.order);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -624,11 +819,23 @@ const OrderModal: React.FC<OrderModalProps> = ({
       if (!platform) {
         validationErrors.push('Platform is required');
       }
+
+      if (isGift) {
+        if (!USERNAME_PATTERN.test(recipientUsername.trim())) {
+          validationErrors.push('Recipient username must be 3-16 letters, numbers, or underscores');
+        } else if (recipientUsername.trim().toLowerCase() === username.trim().toLowerCase() && recipientPlatform === platform) {
+          validationErrors.push('A gift must be for another player');
+        }
+      }
       
-      if (!selectedRank?.trim()) {
+      if (!isCartCheckout && !selectedRank?.trim()) {
         validationErrors.push('Rank selection is required');
       }
       
+      if (!selectedPaymentMethod) {
+        validationErrors.push('Select a payment method');
+      }
+
       if (!paymentProof) {
         validationErrors.push('Payment proof is required');
       }
@@ -672,25 +879,29 @@ const OrderModal: React.FC<OrderModalProps> = ({
       }
 
       setLoadingStage('finalizing');
-      // Create order data
-      const orderData = {
-        customer_name: username.trim(),
-        customer_phone: phone?.trim() || '', // Make phone optional
-        platform,
-        rank_name: selectedRank,
-        payment_proof_url: paymentProofUrl,
-        status: 'pending',
-        created_at: new Date().toISOString()
-      };
 
-      // Send to Discord
-      await sendToDiscord(orderData, paymentProofUrl);
+      // Refresh a quote that is missing, stale or close to expiring
+      let orderQuote = quote;
+      if (!orderQuote || !isQuoteForItems(orderQuote.lines, quoteItems) ||
+          orderQuote.coupon_code !== appliedCoupon ||
+          getQuoteHolder(isGift ? recipientUsername : username) !== quoteHolder ||
+          new Date(orderQuote.expires_at).getTime() - Date.now() < 30 * 1000) {
+        orderQuote = await requestQuote(quoteItems, appliedCoupon, username.trim(), platform, giftRecipient);
+        setQuote(orderQuote);
+
+        if (orderQuote.price !== selectedRankPrice) {
+          throw new Error('The price of your order has changed. Please review the new price and submit again.');
+        }
+      }
+
+      const order = await createOrder(paymentProofUrl, orderQuote);
+      onOrderPlaced?.();
 
       // Show success message
       toast.success('Order submitted successfully!');
       
-      // Set receipt data
-      setReceiptData(orderData);
+      // Show the persisted order on the receipt
+      setReceiptData(order);
       setShowReceipt(true);
       setOrderComplete(true);
       
@@ -713,7 +924,14 @@ const OrderModal: React.FC<OrderModalProps> = ({
       setUsername('');
       setPlatform('java');
       setSelectedRank('VIP');
+      setIsGift(false);
+      setRecipientUsername('');
+      setRecipientPlatform('java');
+      setGiftMessage('');
       setPaymentProof(null);
+      setCouponInput('');
+      setCouponError(null);
+      setAppliedCoupon(null);
       setOrderComplete(false);
     }, 500);
   };
@@ -735,28 +953,120 @@ const OrderModal: React.FC<OrderModalProps> = ({
         Order Summary
       </h3>
       <div className="space-y-2.5 text-sm sm:text-base">
-        <div className="flex justify-between items-center text-gray-300 pb-2 border-b border-gray-700/50">
-          <span>Selected Rank:</span>
-          <span className="font-medium text-white">{selectedRank}</span>
+        {isCartCheckout ? (
+          <div className="text-gray-300 pb-2 border-b border-gray-700/50 space-y-1.5">
+            <span>Items:</span>
+            {(quote?.lines || cartLines.map(line => ({ product_name: line.name, quantity: line.quantity, price: null }))).map(line => (
+              <div key={line.product_name} className="flex justify-between items-center text-sm">
+                <span className="text-white">
+                  {line.quantity > 1 && <span className="text-gray-400">{line.quantity}x </span>}
+                  {line.product_name}
+                </span>
+                <span className="text-gray-400">{line.price !== null ? formatPrice(line.price) : '-'}</span>
+              </div>
+            ))}
           </div>
+        ) : (
+          <>
+            <div className="flex justify-between items-center text-gray-300 pb-2 border-b border-gray-700/50">
+              <span>Selected Rank:</span>
+              <span className="font-medium text-white">{selectedRank}</span>
+            </div>
+            <div className="flex justify-between items-center text-gray-300 pb-2 border-b border-gray-700/50">
+              <span>Duration:</span>
+              <span className="font-medium text-white">{formatRankDuration(selectedRankOption?.durationDays)}</span>
+            </div>
+          </>
+        )}
         <div className="flex justify-between items-center text-gray-300 pb-2 border-b border-gray-700/50">
           <span>Platform:</span>
           <span className="font-medium text-white capitalize">{platform}</span>
               </div>
+        {isGift && (
+          <div className="flex justify-between items-center text-gray-300 pb-2 border-b border-gray-700/50">
+            <span className="flex items-center gap-1.5">
+              <Gift size={14} className="text-emerald-400" />
+              Gift For:
+            </span>
+            <span className="font-medium text-white">
+              {recipientUsername.trim() || '-'} <span className="capitalize text-gray-400">({recipientPlatform})</span>
+            </span>
+          </div>
+        )}
+        {quote?.order_type === 'upgrade' && (
+          <div className="flex items-start gap-2 text-sm text-emerald-300 bg-emerald-500/10 border border-emerald-500/20 rounded-lg p-2.5">
+            <ArrowUpCircle size={16} className="mt-0.5 shrink-0" />
+            <span>
+              {isGift ? `${recipientUsername.trim()} already owns` : 'You already own'}{' '}
+              <span className="font-medium text-white">{quote.upgrade_from}</span>, so you only pay
+              the upgrade price. {isGift ? 'Their' : 'Your'} {quote.upgrade_from} rank is replaced by {quote.product_name}.
+            </span>
+          </div>
+        )}
+        <div className="pb-2 border-b border-gray-700/50">
+          {appliedCoupon && !isApplyingCoupon ? (
+            <div className="flex justify-between items-center text-gray-300">
+              <span className="flex items-center gap-1.5">
+                <Tag size={14} className="text-emerald-400" />
+                Coupon <span className="font-mono text-white">{appliedCoupon}</span>
+                <button
+                  type="button"
+                  onClick={handleRemoveCoupon}
+                  className="text-gray-500 hover:text-red-400 transition-colors"
+                  aria-label="Remove coupon"
+                >
+                  <X size={14} />
+                </button>
+              </span>
+              <span className="font-medium text-emerald-400">-{formatPrice(couponDiscount)}</span>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={couponInput}
+                onChange={(e) => setCouponInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleApplyCoupon();
+                  }
+                }}
+                placeholder="Coupon code"
+                maxLength={32}
+                className="flex-1 min-w-0 bg-gray-700/50 border border-gray-600/80 rounded-lg py-1.5 px-3 text-white uppercase focus:outline-none focus:ring-2 focus:ring-emerald-400/50 text-sm"
+              />
+              <button
+                type="button"
+                onClick={handleApplyCoupon}
+                disabled={!couponInput.trim() || isApplyingCoupon}
+                className="px-3 py-1.5 rounded-lg bg-gray-700 text-white text-sm hover:bg-gray-600 transition-colors disabled:opacity-50"
+              >
+                {isApplyingCoupon ? 'Applying...' : 'Apply'}
+              </button>
+            </div>
+          )}
+          {couponError && (
+            <p className="text-xs text-red-400 mt-1.5">{couponError}</p>
+          )}
+        </div>
         <div className="flex justify-between items-center text-gray-300 pt-1">
           <span>Price:</span>
-          {hasDiscount ? (
+          {hasDiscount || couponDiscount > 0 ? (
             <div className="flex flex-col items-end">
-              <span className="line-through text-gray-500 text-xs">${selectedRankOption.originalPrice!.toFixed(2)}</span>
-              <span className="font-medium text-emerald-400 text-lg">${selectedRankOption.price.toFixed(2)}</span>
+              <span className="line-through text-gray-500 text-xs">
+                {formatPrice(Math.max(selectedRankOriginalPrice ?? 0, selectedRankPrice + couponDiscount))}
+              </span>
+              <span className="font-medium text-emerald-400 text-lg">{formatPrice(selectedRankPrice)}</span>
             </div>
           ) : (
-            <span className="font-medium text-emerald-400 text-lg">${selectedRankPrice.toFixed(2)}</span>
+            <span className="font-medium text-emerald-400 text-lg">{formatPrice(selectedRankPrice)}</span>
           )}
             </div>
             </div>
           </div>
-  ), [selectedRank, platform, hasDiscount, selectedRankOption, selectedRankPrice]);
+  ), [isCartCheckout, cartLines, selectedRank, selectedRankOption, platform, isGift, recipientUsername, recipientPlatform, quote, hasDiscount, selectedRankOriginalPrice, selectedRankPrice, appliedCoupon, isApplyingCoupon,
+      couponInput, couponError, couponDiscount, handleApplyCoupon, handleRemoveCoupon, formatPrice]);
 
   // State for animation
   const [showConfirmation, setShowConfirmation] = useState(false);
@@ -904,6 +1214,57 @@ const OrderModal: React.FC<OrderModalProps> = ({
                 </div>
               </div>
 
+              <div className="bg-gray-800/70 backdrop-blur-sm rounded-xl p-4 sm:p-5 border border-gray-700/80 transform transition-all duration-300 hover:border-emerald-500/40 shadow-md hover:shadow-emerald-900/20">
+                <label className="text-sm font-medium text-white flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isGift}
+                    onChange={(e) => setIsGift(e.target.checked)}
+                    className="rounded border-gray-600 bg-gray-700 text-emerald-500 focus:ring-emerald-500"
+                  />
+                  <div className="bg-emerald-500/20 p-1.5 rounded-lg">
+                    <Gift size={16} className="text-emerald-400" />
+                  </div>
+                  Gift this rank to another player
+                </label>
+                {isGift && (
+                  <div className="mt-4 pt-3 border-t border-gray-700/50 space-y-3">
+                    <input
+                      type="text"
+                      value={recipientUsername}
+                      onChange={(e) => setRecipientUsername(e.target.value)}
+                      className="w-full bg-gray-700/50 border border-gray-600/80 rounded-lg py-2.5 px-3 text-white focus:outline-none focus:ring-2 focus:ring-emerald-400/50 text-sm sm:text-base transition-all duration-200"
+                      required
+                      placeholder="Recipient's Minecraft username"
+                    />
+                    <div className="flex gap-3">
+                      <PlatformButton 
+                        label="java" 
+                        isSelected={recipientPlatform === 'java'} 
+                        onClick={() => setRecipientPlatform('java')} 
+                      />
+                      <PlatformButton 
+                        label="bedrock" 
+                        isSelected={recipientPlatform === 'bedrock'} 
+                        onClick={() => setRecipientPlatform('bedrock')} 
+                      />
+                    </div>
+                    <div>
+                      <textarea
+                        value={giftMessage}
+                        onChange={(e) => setGiftMessage(e.target.value)}
+                        maxLength={GIFT_MESSAGE_MAX_LENGTH}
+                        rows={2}
+                        placeholder="Message to the recipient (optional)"
+                        className="w-full bg-gray-700/50 border border-gray-600/80 rounded-lg py-2 px-3 text-white focus:outline-none focus:ring-2 focus:ring-emerald-400/50 text-sm resize-none"
+                      />
+                      <p className="text-xs text-gray-500 text-right">{giftMessage.length}/{GIFT_MESSAGE_MAX_LENGTH}</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {!isCartCheckout && (
               <div className="bg-gray-800/70 backdrop-blur-sm rounded-xl p-4 sm:p-5 border border-gray-700/80 transform transition-all duration-300 hover:border-emerald-500/40 shadow-md hover:shadow-emerald-900/20">
                 <label className="block text-sm font-medium text-white mb-4 flex items-center gap-2 pb-2 border-b border-gray-700/50">
                   <div className="bg-emerald-500/20 p-1.5 rounded-lg">
@@ -916,10 +1277,29 @@ const OrderModal: React.FC<OrderModalProps> = ({
                   selectedRank={selectedRank} 
                   onSelectRank={handleRankSelect} 
                 />
+                {ranks.length > 1 && ranks.some(rank => rank.perks.length > 0) && (
+                  <div className="mt-4">
+                    <button
+                      type="button"
+                      onClick={() => setShowComparison(show => !show)}
+                      className="flex items-center gap-1.5 text-sm text-emerald-400 hover:text-emerald-300 transition-colors"
+                      aria-expanded={showComparison}
+                    >
+                      <ChevronDown size={16} className={`transition-transform ${showComparison ? 'rotate-180' : ''}`} />
+                      Compare ranks
+                    </button>
+                    {showComparison && (
+                      <div className="mt-3">
+                        <RankComparisonTable ranks={ranks} selectedRank={selectedRank} compact />
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
+              )}
 
               {/* Rank Preview Section */}
-              {selectedRankOption && (
+              {!isCartCheckout && selectedRankOption && (
                 <div className="bg-gray-800/70 backdrop-blur-sm rounded-xl p-4 sm:p-5 border border-gray-700/80 transform transition-all duration-300 hover:border-emerald-500/40 shadow-md hover:shadow-emerald-900/20 overflow-hidden">
                   <h3 className="text-base sm:text-lg font-semibold text-white mb-4 flex items-center gap-2 pb-2 border-b border-gray-700/50">
                     <div className="bg-emerald-500/20 p-1.5 rounded-lg">
@@ -948,20 +1328,84 @@ const OrderModal: React.FC<OrderModalProps> = ({
                   </div>
                   Payment Details
                 </h3>
-                <div className="text-center py-2">
-                  <p className="text-gray-300 mb-4 text-sm sm:text-base">Scan the QR code below to pay:</p>
-                  <div className="bg-white p-3 sm:p-4 rounded-xl inline-block transition-transform duration-300 hover:scale-[1.03] shadow-lg relative group">
-                    <div className="absolute -inset-0.5 bg-gradient-to-r from-emerald-600 to-emerald-400 rounded-xl blur opacity-25 group-hover:opacity-40 transition duration-200"></div>
-                    <div className="relative bg-white rounded-lg p-2">
-                      <img 
-                        src={qrCodeImage} 
-                        alt="Payment QR Code"
-                        className="w-32 h-32 sm:w-40 sm:h-40 mx-auto"
-                      />
-                    </div>
+                {paymentMethods.length > 1 && (
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4" role="radiogroup" aria-label="Payment method">
+                    {paymentMethods.map(method => (
+                      <button
+                        key={method.id}
+                        type="button"
+                        role="radio"
+                        aria-checked={method.id === selectedPaymentMethod?.id}
+                        onClick={() => setPaymentMethodId(method.id)}
+                        className={`rounded-lg border px-3 py-2 text-left text-sm transition-colors ${
+                          method.id === selectedPaymentMethod?.id
+                            ? 'bg-emerald-500/20 border-emerald-500/60 text-white'
+                            : 'bg-gray-700/40 border-gray-600/80 text-gray-300 hover:bg-gray-700/70'
+                        }`}
+                      >
+                        <span className="block font-medium truncate">{method.name}</span>
+                        <span className="block text-xs text-gray-400">
+                          {method.fee_percent > 0 || method.fee_fixed > 0
+                            ? `+${formatPrice(calculatePaymentFee(method, selectedRankPrice))} fee`
+                            : 'No fee'}
+                        </span>
+                      </button>
+                    ))}
                   </div>
-                  <p className="text-sm sm:text-base text-gray-400 mt-4">Amount: <span className="text-emerald-400 font-bold">${selectedRankPrice.toFixed(2)}</span></p>
-                </div>
+                )}
+                {selectedPaymentMethod ? (
+                  <div className="text-center py-2">
+                    {selectedPaymentMethod.instructions && (
+                      <p className="text-gray-300 mb-4 text-sm sm:text-base whitespace-pre-line">{selectedPaymentMethod.instructions}</p>
+                    )}
+                    {selectedPaymentMethod.qr_image_url && (
+                      <div className="bg-white p-3 sm:p-4 rounded-xl inline-block transition-transform duration-300 hover:scale-[1.03] shadow-lg relative group">
+                        <div className="absolute -inset-0.5 bg-gradient-to-r from-emerald-600 to-emerald-400 rounded-xl blur opacity-25 group-hover:opacity-40 transition duration-200"></div>
+                        <div className="relative bg-white rounded-lg p-2">
+                          <img 
+                            src={selectedPaymentMethod.qr_image_url} 
+                            alt={`${selectedPaymentMethod.name} QR Code`}
+                            className="w-32 h-32 sm:w-40 sm:h-40 mx-auto"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    {selectedPaymentMethod.account_number && (
+                      <div className="mt-4 flex items-center justify-center gap-2">
+                        <span className="font-mono text-sm sm:text-base text-white bg-gray-700/50 border border-gray-600/80 rounded-lg px-3 py-1.5 break-all">
+                          {selectedPaymentMethod.account_number}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            navigator.clipboard.writeText(selectedPaymentMethod.account_number)
+                              .then(() => toast.success('Copied to clipboard'))
+                              .catch(() => toast.error('Could not copy. Please copy it by hand.'));
+                          }}
+                          className="p-2 rounded-lg bg-gray-700/50 border border-gray-600/80 text-gray-300 hover:text-white hover:bg-gray-600/50 transition-colors"
+                          aria-label="Copy account number"
+                        >
+                          <Copy size={14} />
+                        </button>
+                      </div>
+                    )}
+                    <p className="text-sm sm:text-base text-gray-400 mt-4">Amount: <span className="text-emerald-400 font-bold">{formatPrice(amountDue)}</span></p>
+                    {paymentFee > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Includes a {formatPrice(paymentFee)} {selectedPaymentMethod.name} fee
+                      </p>
+                    )}
+                    {currency !== storeCurrency && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Charged as {formatMoney(amountDue, storeCurrency)}, converted at the store's exchange rate
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-400 text-center py-2">
+                    Online payment is unavailable right now. Please contact us on Discord to complete your order.
+                  </p>
+                )}
               </div>
 
               {/* Replace the file upload section with enhanced version */}
@@ -970,7 +1414,7 @@ const OrderModal: React.FC<OrderModalProps> = ({
                   <div className="bg-emerald-500/20 p-1.5 rounded-lg">
                     <Upload size={16} className="text-emerald-400" />
                   </div>
-                  Payment Proof (QR Code Screenshot)
+                  Payment Proof (Screenshot)
                 </label>
                 
                 <div className="relative">
@@ -991,7 +1435,7 @@ const OrderModal: React.FC<OrderModalProps> = ({
                     {paymentProof ? (
                       <span className="truncate max-w-full">{paymentProof.name}</span>
                     ) : (
-                      'Upload QR Code Screenshot'
+                      'Upload Payment Screenshot'
                     )}
                   </label>
                   
@@ -1064,7 +1508,7 @@ const OrderModal: React.FC<OrderModalProps> = ({
 
               <button
                 type="submit"
-                disabled={loading || !paymentProof}
+                disabled={loading || !paymentProof || !selectedPaymentMethod}
                 className="w-full bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700 text-white rounded-lg py-3.5 px-4 transition duration-300 disabled:opacity-50 transform hover:scale-[1.02] text-sm sm:text-base font-medium mt-6 focus:outline-none focus:ring-2 focus:ring-emerald-400 focus:ring-opacity-50 shadow-lg relative group"
               >
                 <div className="absolute -inset-0.5 bg-gradient-to-r from-emerald-600 to-emerald-400 rounded-lg blur opacity-25 group-hover:opacity-50 transition duration-200 group-disabled:opacity-0"></div>
@@ -0,0 +1,120 @@
+import { memo, useMemo } from 'react';
+import { formatMoney } from '../utils/money';
+import { PRICE_IMPACT_RANGES, type PriceChange, type PriceImpactRange, type ProductSalesPoint } from '../types/price-history';
+
+interface PriceImpactChartProps {
+  // One product's price changes and sales
+  changes: PriceChange[];
+  points: ProductSalesPoint[];
+  range: PriceImpactRange;
+  currency: string;
+}
+
+interface ChartBucket {
+  start: number;
+  point: ProductSalesPoint | null;
+  price: number | null;
+}
+
+const CHART_HEIGHT = 80;
+const BAR_WIDTH = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Buckets are aligned like `date_bin` in get_product_sales_history
+const BUCKET_ORIGIN = Date.UTC(2000, 0, 1);
+
+const formatBucketDate = (time: number) => new Date(time).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+// Revenue per bucket as bars, with the product's price drawn over them as a
+// step line and each price change marked
+export default memo(function PriceImpactChart({ changes, points, range, currency }: PriceImpactChartProps) {
+  const buckets = useMemo<ChartBucket[]>(() => {
+    const { days, bucketDays } = PRICE_IMPACT_RANGES[range];
+    const bucketMs = bucketDays * DAY_MS;
+    const end = BUCKET_ORIGIN + Math.floor((Date.now() - BUCKET_ORIGIN) / bucketMs) * bucketMs;
+    const count = Math.ceil(days / bucketDays);
+    const byStart = new Map(points.map(point => [new Date(point.bucket).getTime(), point]));
+    const sorted = [...changes].sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime());
+
+    return Array.from({ length: count }, (_, index) => {
+      const start = end - (count - 1 - index) * bucketMs;
+      // The price in effect at the end of the bucket
+      const current = sorted.filter(change => new Date(change.changed_at).getTime() < start + bucketMs).pop();
+      return { start, point: byStart.get(start) || null, price: current ? current.price : null };
+    });
+  }, [changes, points, range]);
+
+  const revenueScale = Math.max(1, ...buckets.map(bucket => bucket.point?.revenue ?? 0));
+  const priceScale = Math.max(1, ...buckets.map(bucket => bucket.price ?? 0)) * 1.1;
+
+  const priceLine = buckets
+    .map((bucket, index) => bucket.price === null
+      ? null
+      : `${index * BAR_WIDTH},${CHART_HEIGHT - (bucket.price / priceScale) * CHART_HEIGHT} ${(index + 1) * BAR_WIDTH},${CHART_HEIGHT - (bucket.price / priceScale) * CHART_HEIGHT}`)
+    .filter(Boolean)
+    .join(' ');
+
+  const rangeStart = buckets[0].start;
+  const bucketMs = PRICE_IMPACT_RANGES[range].bucketDays * DAY_MS;
+  const changeMarkers = changes
+    .map(change => new Date(change.changed_at).getTime())
+    .filter(time => time > rangeStart);
+
+  return (
+    <div className="bg-gray-700/30 p-3 rounded-lg">
+      <svg
+        viewBox={`0 0 ${buckets.length * BAR_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-24"
+        role="img"
+        aria-label={`Revenue and price over the last ${range}`}
+      >
+        {buckets.map((bucket, index) => {
+          if (!bucket.point) return null;
+          const height = (bucket.point.revenue / revenueScale) * CHART_HEIGHT;
+
+          return (
+            <g key={bucket.start}>
+              <title>
+                {`${formatBucketDate(bucket.start)}: ${bucket.point.order_count} orders, ${formatMoney(bucket.point.revenue, currency)}${bucket.price !== null ? ` at ${formatMoney(bucket.price, currency)}` : ''}`}
+              </title>
+              <rect x={index * BAR_WIDTH + 1} y={CHART_HEIGHT - height} width={BAR_WIDTH - 2} height={height} className="fill-emerald-500" />
+            </g>
+          );
+        })}
+        {changeMarkers.map(time => {
+          const x = ((time - rangeStart) / bucketMs) * BAR_WIDTH;
+          return (
+            <line
+              key={time}
+              x1={x}
+              x2={x}
+              y1={0}
+              y2={CHART_HEIGHT}
+              strokeDasharray="3 3"
+              vectorEffect="non-scaling-stroke"
+              className="stroke-gray-400"
+            />
+          );
+        })}
+        {priceLine && (
+          <polyline
+            points={priceLine}
+            fill="none"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            className="stroke-amber-400"
+          />
+        )}
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+        <span>{formatBucketDate(rangeStart)}</span>
+        <span className="flex gap-3">
+          <span className="text-emerald-400">■ Revenue</span>
+          <span className="text-amber-400">— Price</span>
+          <span className="text-gray-400">┆ Price change</span>
+        </span>
+        <span>Now</span>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,77 @@
+import { memo, useMemo } from 'react';
+import { Check, Minus } from 'lucide-react';
+import { buildRankComparison, type CatalogProduct } from '../types/product';
+
+interface RankComparisonTableProps {
+  // In display order, lowest first; each rank inherits the perks of the ranks before it
+  ranks: Array<Pick<CatalogProduct, 'name' | 'color' | 'perks'>>;
+  selectedRank?: string;
+  compact?: boolean;
+}
+
+// Perks as rows and ranks as columns, marking which perks a rank adds and
+// which it inherits from a lower rank
+export default memo(function RankComparisonTable({ ranks, selectedRank, compact = false }: RankComparisonTableProps) {
+  const rows = useMemo(() => buildRankComparison(ranks), [ranks]);
+
+  if (ranks.length < 2 || rows.length === 0) return null;
+
+  const cellPadding = compact ? 'px-2 py-1.5' : 'px-3 py-2.5';
+
+  return (
+    <div>
+      <div className="overflow-x-auto rounded-xl border border-gray-700">
+        <table className={`w-full ${compact ? 'text-xs' : 'text-sm'}`}>
+          <thead>
+            <tr className="bg-gray-800/90">
+              <th className={`${cellPadding} text-left text-gray-300 font-medium sticky left-0 bg-gray-800`}>Perk</th>
+              {ranks.map(rank => (
+                <th
+                  key={rank.name}
+                  className={`${cellPadding} text-center ${rank.name === selectedRank ? 'bg-emerald-500/10' : ''}`}
+                >
+                  <span className={`inline-block px-2 py-0.5 rounded text-white font-semibold bg-gradient-to-r ${rank.color}`}>
+                    {rank.name}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const source = ranks[row.availability.indexOf('included')]?.name;
+
+              return (
+                <tr key={row.perk} className="border-t border-gray-700/60 bg-gray-900/40">
+                  <td className={`${cellPadding} text-gray-300 sticky left-0 bg-gray-900`}>{row.perk}</td>
+                  {row.availability.map((availability, index) => (
+                    <td
+                      key={ranks[index].name}
+                      className={`${cellPadding} text-center ${ranks[index].name === selectedRank ? 'bg-emerald-500/10' : ''}`}
+                    >
+                      {availability === 'included' && (
+                        <Check size={16} className="inline text-emerald-400" aria-label="Included" />
+                      )}
+                      {availability === 'inherited' && (
+                        <span title={`Inherited from ${source}`}>
+                          <Check size={16} className="inline text-gray-500" aria-label={`Inherited from ${source}`} />
+                        </span>
+                      )}
+                      {availability === null && (
+                        <Minus size={14} className="inline text-gray-700" aria-label="Not included" />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-400">
+        <span className="flex items-center gap-1"><Check size={12} className="text-emerald-400" /> Added by this rank</span>
+        <span className="flex items-center gap-1"><Check size={12} className="text-gray-500" /> Inherited from a lower rank</span>
+      </p>
+    </div>
+  );
+});
@@ -7,6 +7,8 @@ import * as VisuallyHidden from '@radix-ui/react-visually-hidden';
 import { Button } from "../ui/button";
 import { sanitizeInput } from '../utils/sanitize';
 import { formatDate } from '../utils/date-helpers';
+import { formatMoney } from '../utils/money';
+import { formatOrderItemName, type ReceiptOrder } from '../types/order';
 
 // Lazy loaded image viewer component to reduce initial bundle size
 const ImageViewer = lazy(() => import('./ImageViewer'));
@@ -32,15 +34,7 @@ const FallbackImageViewer = ({ onClose, imageUrl }: { onClose: () => void; image
 interface ReceiptModalProps {
   isOpen: boolean;
   onClose: () => void;
-  orderData: {
-    username: string;
-    platform: string;
-    rank: string;
-    price: number;
-    created_at: string;
-    payment_proof?: string;
-    orderId?: string;
-  };
+  orderData: ReceiptOrder;
   theme?: {
     colorScheme?: 'default' | 'dark' | 'light',
     primaryColor?: string,
@@ -77,6 +71,66 @@ const ReceiptDetailRow = memo(({
   </div>
 ));
 
+// Receipt header, also used by the public order status page
+export const ReceiptHeader = memo(({
+  logoUrl,
+  storeName,
+  subtitle,
+  badge,
+  primaryColor = 'emerald',
+}: {
+  logoUrl?: string;
+  storeName: string;
+  subtitle: string;
+  badge?: string;
+  primaryColor?: string;
+}) => (
+  <div className="text-center mb-6 border-b border-gray-200 pb-6 receipt-header relative z-10">
+    {badge && (
+      <div className="absolute top-0 right-0 text-xs text-gray-500 bg-gray-100 py-1 px-2 rounded-md">
+        {badge}
+      </div>
+    )}
+    <div className={`w-20 h-20 rounded-full mx-auto mb-3 shadow-lg overflow-hidden p-0.5 bg-white relative`}>
+      <div className="absolute inset-0 bg-gradient-to-br from-emerald-400 to-emerald-600 opacity-50"></div>
+      <img 
+        src={logoUrl || "https://i.imgur.com/ArKEQz1.png"} 
+        alt="Store Logo" 
+        className="w-full h-full rounded-full border-2 border-white relative z-10"
+        width={64}
+        height={64}
+        loading="eager"
+      />
+    </div>
+    <h2 id="receipt-title" className={`text-2xl font-bold text-${primaryColor}-600`}>
+      {storeName}
+    </h2>
+    <div className="flex items-center justify-center gap-2 mt-1">
+      <div className={`w-2 h-2 rounded-full bg-${primaryColor}-500`}></div>
+      <p className="text-sm text-gray-600 font-medium tracking-wide uppercase">{subtitle}</p>
+      <div className={`w-2 h-2 rounded-full bg-${primaryColor}-500`}></div>
+    </div>
+  </div>
+));
+
+// Titled receipt section
+export const ReceiptSection = memo(({
+  title,
+  primaryColor = 'emerald',
+  className = 'mb-5',
+  children,
+}: {
+  title: string;
+  primaryColor?: string;
+  className?: string;
+  children: React.ReactNode;
+}) => (
+  <div className={className}>
+    <h3 className={`text-sm font-semibold text-${primaryColor}-600 mb-3 pb-1 border-b border-gray-200`}>{title}</h3>
+    {children}
+  </div>
+));
+
 // Improved image loading with retry mechanism
 const useImageWithRetry = (src: string, maxRetries = 3) => {
   const [error, setError] = useState(false);
@@ -258,7 +312,7 @@ export const ReceiptModal = memo(function ReceiptModal({
         receiptBackgroundUrl,
         receiptLogoUrl,
         logoUrl,
-        orderData.payment_proof
+        orderData.payment_proof_url
       ].filter(Boolean);
 
       imagesToPreload.forEach(url => {
@@ -268,7 +322,7 @@ export const ReceiptModal = memo(function ReceiptModal({
         }
       });
     }
-  }, [isOpen, receiptBackgroundUrl, receiptLogoUrl, logoUrl, orderData.payment_proof]);
+  }, [isOpen, receiptBackgroundUrl, receiptLogoUrl, logoUrl, orderData.payment_proof_url]);
 
   const handleImageView = useCallback((url: string) => {
     setImageViewerUrl(url);
@@ -303,14 +357,26 @@ export const ReceiptModal = memo(function ReceiptModal({
   
   // Destructure orderData with default empty object for null/undefined cases
   const { 
-    username = '', 
+    customer_name: username = '', 
     platform = '', 
-    rank = '', 
-    price = 0, 
-    orderId: order_id = '', 
+    rank_name: rank, 
+    items = [],
+    order_type,
+    upgrade_from,
+    total_amount: price = 0, 
+    currency,
+    coupon_code,
+    discount_amount: discount = 0,
+    payment_method,
+    payment_fee: fee = 0,
+    gift_recipient_name,
+    gift_recipient_platform,
+    gift_message,
+    order_number: order_id = '', 
     created_at: time = '', 
-    payment_proof = '' 
+    payment_proof_url 
   } = useMemo(() => orderData || {}, [orderData]);
+  const payment_proof = payment_proof_url || '';
 
   // Format date once when component renders
   const formattedTime = useMemo(() => {
@@ -333,8 +399,8 @@ export const ReceiptModal = memo(function ReceiptModal({
 
   // Generate receipt number only once
   const receiptNumber = useMemo(() => {
-    return orderData.orderId || `CS-${Date.now().toString().slice(-8)}`;
-  }, [orderData.orderId]);
+    return orderData.order_number || `CS-${Date.now().toString().slice(-8)}`;
+  }, [orderData.order_number]);
   
   // Get payment proof URL if available, with error handling and caching
   const paymentProofUrl = useMemo(() => {
@@ -402,30 +468,13 @@ export const ReceiptModal = memo(function ReceiptModal({
           <div className="absolute inset-0 z-0 bg-white/90"></div>
           
           {/* Receipt Header with Logo */}
-          <div className="text-center mb-6 border-b border-gray-200 pb-6 receipt-header relative z-10">
-            <div className="absolute top-0 right-0 text-xs text-gray-500 bg-gray-100 py-1 px-2 rounded-md">
-              #{receiptNumber}
-            </div>
-            <div className={`w-20 h-20 rounded-full mx-auto mb-3 shadow-lg overflow-hidden p-0.5 bg-white relative`}>
-              <div className="absolute inset-0 bg-gradient-to-br from-emerald-400 to-emerald-600 opacity-50"></div>
-              <img 
-                src={receiptLogoUrl || logoUrl || "https://i.imgur.com/ArKEQz1.png"} 
-                alt="Store Logo" 
-                className="w-full h-full rounded-full border-2 border-white relative z-10"
-                width={64}
-                height={64}
-                loading="eager"
-              />
-            </div>
-            <h2 id="receipt-title" className={`text-2xl font-bold text-${theme.primaryColor || 'emerald'}-600`}>
-              {storeName}
-            </h2>
-            <div className="flex items-center justify-center gap-2 mt-1">
-              <div className={`w-2 h-2 rounded-full bg-${theme.primaryColor || 'emerald'}-500`}></div>
-              <p className="text-sm text-gray-600 font-medium tracking-wide uppercase">Official Receipt</p>
-              <div className={`w-2 h-2 rounded-full bg-${theme.primaryColor || 'emerald'}-500`}></div>
-            </div>
-          </div>
+          <ReceiptHeader
+            logoUrl={receiptLogoUrl || logoUrl}
+            storeName={storeName}
+            subtitle="Official Receipt"
+            badge={`#${receiptNumber}`}
+            primaryColor={theme.primaryColor}
+          />
           
           {/* Date and Transaction Details */}
           <div className="mb-5 bg-gray-50 p-4 rounded-lg border border-gray-100">
@@ -440,11 +489,10 @@ export const ReceiptModal = memo(function ReceiptModal({
           </div>
           
           {/* Customer Information */}
-          <div className="mb-5">
-            <h3 className={`text-sm font-semibold text-${theme.primaryColor || 'emerald'}-600 mb-3 pb-1 border-b border-gray-200`}>Customer Details</h3>
+          <ReceiptSection title="Customer Details" primaryColor={theme.primaryColor}>
             <div className="flex flex-col gap-2">
               <div className="flex justify-between">
-                <span className="text-xs text-gray-500">Username</span>
+                <span className="text-xs text-gray-500">{gift_recipient_name ? 'Buyer' : 'Username'}</span>
                 <span className="text-sm font-medium text-gray-700">{username}</span>
               </div>
               <div className="flex justify-between">
@@ -453,24 +501,80 @@ export const ReceiptModal = memo(function ReceiptModal({
                   {platform === 'java' ? 'Java Edition' : 'Bedrock Edition'}
                 </span>
               </div>
+              {gift_recipient_name && (
+                <>
+                  <div className="h-px bg-gray-100 my-1"></div>
+                  <div className="flex justify-between">
+                    <span className="text-xs text-gray-500">Gift Recipient</span>
+                    <span className="text-sm font-medium text-gray-700">{gift_recipient_name}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-xs text-gray-500">Recipient Platform</span>
+                    <span className="text-sm font-medium text-gray-700">
+                      {gift_recipient_platform === 'java' ? 'Java Edition' : 'Bedrock Edition'}
+                    </span>
+                  </div>
+                  {gift_message && (
+                    <p className="text-sm text-gray-600 italic bg-gray-50 border border-gray-100 rounded-lg p-2 mt-1 break-words">
+                      "{gift_message}"
+                    </p>
+                  )}
+                </>
+              )}
             </div>
-          </div>
+          </ReceiptSection>
           
           {/* Purchase Information */}
-          <div className="mb-6">
-            <h3 className={`text-sm font-semibold text-${theme.primaryColor || 'emerald'}-600 mb-3 pb-1 border-b border-gray-200`}>Purchase Summary</h3>
+          <ReceiptSection title="Purchase Summary" primaryColor={theme.primaryColor} className="mb-6">
             <div className="flex flex-col gap-2">
-              <div className="flex justify-between">
-                <span className="text-xs text-gray-500">Item</span>
-                <span className="text-sm font-medium text-gray-700">{rank} Rank</span>
-              </div>
+              {rank && items.length <= 1 ? (
+                <div className="flex justify-between">
+                  <span className="text-xs text-gray-500">Item</span>
+                  <span className="text-sm font-medium text-gray-700">{rank} Rank</span>
+                </div>
+              ) : items.map((item, index) => (
+                <div key={`${item.name}-${index}`} className="flex justify-between">
+                  <span className="text-xs text-gray-500">{formatOrderItemName(item)}</span>
+                  <span className="text-sm font-medium text-gray-700">{formatMoney(item.price, currency)}</span>
+                </div>
+              ))}
+              {order_type === 'upgrade' && upgrade_from && (
+                <div className="flex justify-between">
+                  <span className="text-xs text-gray-500">Upgraded From</span>
+                  <span className="text-sm font-medium text-gray-700">{upgrade_from} Rank</span>
+                </div>
+              )}
+              {payment_method && (
+                <div className="flex justify-between">
+                  <span className="text-xs text-gray-500">Payment Method</span>
+                  <span className="text-sm font-medium text-gray-700">{payment_method}</span>
+                </div>
+              )}
+              {((coupon_code && discount > 0) || fee > 0) && (
+                <div className="flex justify-between">
+                  <span className="text-xs text-gray-500">Subtotal</span>
+                  <span className="text-sm font-medium text-gray-700">{formatMoney(price - fee + discount, currency)}</span>
+                </div>
+              )}
+              {coupon_code && discount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-xs text-gray-500">Coupon ({coupon_code})</span>
+                  <span className="text-sm font-medium text-emerald-600">-{formatMoney(discount, currency)}</span>
+                </div>
+              )}
+              {fee > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-xs text-gray-500">Payment Fee</span>
+                  <span className="text-sm font-medium text-gray-700">+{formatMoney(fee, currency)}</span>
+                </div>
+              )}
               <div className="h-px bg-gray-100 my-2"></div>
               <div className="flex justify-between">
                 <span className="text-sm font-semibold text-gray-700">Total Amount</span>
-                <span className={`text-base font-bold text-${theme.primaryColor || 'emerald'}-600`}>${price.toFixed(2)}</span>
+                <span className={`text-base font-bold text-${theme.primaryColor || 'emerald'}-600`}>{formatMoney(price, currency)}</span>
               </div>
             </div>
-          </div>
+          </ReceiptSection>
           
           {/* Payment Confirmation */}
           <div className="text-center my-6 bg-gradient-to-r from-gray-50/80 to-white/80 py-4 px-3 rounded-lg border border-gray-100">
@@ -479,7 +583,11 @@ export const ReceiptModal = memo(function ReceiptModal({
               <span className="text-sm font-medium">Payment Confirmed</span>
             </div>
             <p className="text-sm text-gray-600 mt-2">Thank you for your purchase!</p>
-            <p className="text-xs text-gray-500 mt-1">Login to the server to claim your rank</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {gift_recipient_name
+                ? `${gift_recipient_name} can log in to the server to claim ${rank ? 'the rank' : 'their items'}`
+                : `Login to the server to claim your ${rank ? 'rank' : 'items'}`}
+            </p>
           </div>
           
           {/* Payment Proof Section - Only shown if available and enabled */}
@@ -519,6 +627,14 @@ export const ReceiptModal = memo(function ReceiptModal({
           {/* Footer with Terms and Support Info */}
           <div className="mt-8 pt-4 border-t border-gray-200 text-center text-xs text-gray-500">
             <p>For support, please contact us on Discord</p>
+            {order_id && (
+              <p className="mt-1">
+                Track this order at{' '}
+                <a href={`/order/${encodeURIComponent(order_id)}?username=${encodeURIComponent(username)}`} className={`font-mono text-${theme.primaryColor || 'emerald'}-600 hover:underline`}>
+                  /order/{order_id}
+                </a>
+              </p>
+            )}
             <p className="mt-1">All purchases are final and non-refundable</p>
             <div className={`w-8 h-1 bg-${theme.primaryColor || 'emerald'}-500 mx-auto mt-3 rounded-full opacity-50`}></div>
           </div>
@@ -545,7 +661,7 @@ export const ReceiptModal = memo(function ReceiptModal({
           <ImageViewer
             onClose={handleImageViewerClose}
             imageUrl={imageViewerUrl}
-            alt={`Payment proof for order ${orderData.orderId || ''}`}
+            alt={`Payment proof for order ${orderData.order_number || ''}`}
           />
         </Suspense>
       )}
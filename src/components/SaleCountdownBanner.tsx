@@ -0,0 +1,76 @@
+import { useState, useEffect, useMemo, memo } from 'react';
+import { Timer } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { formatCountdown } from '../utils/date-helpers';
+import { isLiveSale, type Sale } from '../types/sale';
+
+interface SaleCountdownBannerProps {
+  onShopNow: () => void;
+}
+
+// Banner shown on the store while a sale campaign is live, counting down to
+// its end. Hides itself when the sale ends and appears when the next starts.
+export default memo(function SaleCountdownBanner({ onShopNow }: SaleCountdownBannerProps) {
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const fetchSales = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('sales')
+          .select('*')
+          .gt('ends_at', new Date().toISOString())
+          .order('starts_at', { ascending: true });
+
+        if (error) throw error;
+        setSales(data || []);
+      } catch (error) {
+        console.error('Error fetching sales:', error);
+      }
+    };
+
+    fetchSales();
+  }, []);
+
+  useEffect(() => {
+    if (sales.length === 0) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [sales.length]);
+
+  // The live sale ending soonest, so the banner always counts down to the next change
+  const sale = useMemo(() => sales
+    .filter(s => isLiveSale(s, now))
+    .sort((a, b) => new Date(a.ends_at).getTime() - new Date(b.ends_at).getTime())[0] || null,
+    [sales, now]
+  );
+
+  if (!sale) return null;
+
+  return (
+    <div className="mx-auto w-full max-w-6xl px-3 sm:px-4 mt-3 sm:mt-4">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-3 bg-gradient-to-r from-emerald-600/90 to-emerald-500/90 backdrop-blur-sm rounded-xl px-4 py-3 shadow-lg border border-emerald-400/40">
+        <div className="flex items-center gap-3 text-white">
+          <Timer size={20} className="flex-shrink-0" />
+          <div>
+            <p className="font-semibold text-sm sm:text-base">
+              {sale.name} - {Number(sale.discount_percent)}% off
+              {sale.product_ids && sale.product_ids.length > 0 ? ' selected ranks' : ' all ranks'}
+            </p>
+            <p className="text-xs sm:text-sm text-emerald-50">
+              Ends in <span className="font-mono font-semibold">{formatCountdown(new Date(sale.ends_at).getTime() - now)}</span>
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onShopNow}
+          className="bg-white text-emerald-700 hover:bg-emerald-50 font-medium text-sm px-4 py-2 rounded-lg transition-colors"
+        >
+          Shop the sale
+        </button>
+      </div>
+    </div>
+  );
+});
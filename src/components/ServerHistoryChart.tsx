@@ -0,0 +1,163 @@
+import { useState, useEffect, useMemo, memo } from 'react';
+import { Activity } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { SERVER_HISTORY_RANGES, type ServerHistoryPoint, type ServerHistoryRange } from '../types/server';
+
+interface ServerHistoryChartProps {
+  serverId: string;
+  initialRange?: ServerHistoryRange;
+}
+
+interface ChartBucket {
+  start: number;
+  point: ServerHistoryPoint | null;
+}
+
+const CHART_HEIGHT = 60;
+const BAR_WIDTH = 10;
+
+const formatBucketTime = (time: number, range: ServerHistoryRange) =>
+  range === '24h'
+    ? new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : new Date(time).toLocaleDateString([], { weekday: 'short', hour: '2-digit' });
+
+// Uptime percentage and player-count history of one server, from the samples
+// recorded by the scheduled sample-server-status function
+export default memo(function ServerHistoryChart({ serverId, initialRange = '24h' }: ServerHistoryChartProps) {
+  const [range, setRange] = useState<ServerHistoryRange>(initialRange);
+  const [points, setPoints] = useState<ServerHistoryPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!serverId) return;
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const { hours, bucketMinutes } = SERVER_HISTORY_RANGES[range];
+        const { data, error } = await supabase.rpc('get_server_status_history', {
+          p_server_id: serverId,
+          p_hours: hours,
+          p_bucket_minutes: bucketMinutes
+        });
+
+        if (error) throw error;
+        if (!cancelled) {
+          setPoints((data || []).map((point: ServerHistoryPoint) => ({
+            ...point,
+            avg_players: Number(point.avg_players) || 0
+          })));
+        }
+      } catch (err) {
+        console.error('Error fetching server history:', err);
+        if (!cancelled) setError('History is unavailable right now');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+    return () => { cancelled = true; };
+  }, [serverId, range]);
+
+  // One slot per bucket in the range so gaps without samples stay visible
+  const buckets = useMemo<ChartBucket[]>(() => {
+    const { hours, bucketMinutes } = SERVER_HISTORY_RANGES[range];
+    const bucketMs = bucketMinutes * 60 * 1000;
+    const end = Math.floor(Date.now() / bucketMs) * bucketMs;
+    const count = Math.round((hours * 60) / bucketMinutes);
+    const byStart = new Map(points.map(point => [new Date(point.bucket).getTime(), point]));
+
+    return Array.from({ length: count }, (_, index) => {
+      const start = end - (count - 1 - index) * bucketMs;
+      return { start, point: byStart.get(start) || null };
+    });
+  }, [points, range]);
+
+  const uptime = useMemo(() => {
+    const samples = points.reduce((sum, point) => sum + point.sample_count, 0);
+    const online = points.reduce((sum, point) => sum + point.online_count, 0);
+    return samples > 0 ? (online / samples) * 100 : null;
+  }, [points]);
+
+  const peakPlayers = useMemo(() => Math.max(0, ...points.map(point => point.max_players)), [points]);
+  const scale = Math.max(peakPlayers, 1);
+
+  return (
+    <div className="bg-gray-700/30 p-3 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center gap-2">
+          <Activity size={16} className="text-emerald-400" />
+          <h3 className="text-white font-medium text-sm">
+            Uptime {uptime === null ? '-' : `${uptime.toFixed(1)}%`}
+          </h3>
+          {peakPlayers > 0 && <span className="text-xs text-gray-400">peak {peakPlayers} players</span>}
+        </div>
+        <div className="flex rounded-md overflow-hidden border border-gray-700">
+          {(Object.keys(SERVER_HISTORY_RANGES) as ServerHistoryRange[]).map(option => (
+            <button
+              key={option}
+              className={`py-0.5 px-2 text-xs font-medium ${
+                range === option ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              } transition-colors`}
+              onClick={() => setRange(option)}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-16 bg-gray-700/40 rounded animate-pulse"></div>
+      ) : error ? (
+        <p className="text-xs text-gray-400 h-16 flex items-center">{error}</p>
+      ) : points.length === 0 ? (
+        <p className="text-xs text-gray-400 h-16 flex items-center">No history recorded yet</p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${buckets.length * BAR_WIDTH} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-16"
+            role="img"
+            aria-label={`Players online over the last ${range}`}
+          >
+            {buckets.map((bucket, index) => {
+              const x = index * BAR_WIDTH;
+              if (!bucket.point) return null;
+
+              const offline = bucket.point.online_count === 0;
+              const avgHeight = (bucket.point.avg_players / scale) * CHART_HEIGHT;
+              const peakHeight = (bucket.point.max_players / scale) * CHART_HEIGHT;
+
+              return (
+                <g key={bucket.start}>
+                  <title>
+                    {`${formatBucketTime(bucket.start, range)}: ${offline ? 'offline' : `${bucket.point.avg_players} avg, ${bucket.point.max_players} peak`}`}
+                  </title>
+                  {offline ? (
+                    <rect x={x + 1} y={CHART_HEIGHT - 3} width={BAR_WIDTH - 2} height={3} className="fill-red-500/70" />
+                  ) : (
+                    <>
+                      <rect x={x + 1} y={CHART_HEIGHT - peakHeight} width={BAR_WIDTH - 2} height={peakHeight} className="fill-emerald-500/25" />
+                      <rect x={x + 1} y={CHART_HEIGHT - avgHeight} width={BAR_WIDTH - 2} height={avgHeight} className="fill-emerald-500" />
+                    </>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+          <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+            <span>{formatBucketTime(buckets[0].start, range)}</span>
+            <span>Now</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
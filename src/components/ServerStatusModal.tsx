@@ -1,135 +1,119 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, lazy, Suspense } from 'react';
 import { X, Server, Users, Globe, Copy, ExternalLink, RefreshCw, AlertTriangle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  getServerEditions,
+  getServerPort,
+  type ServerDefinition,
+  type ServerEdition,
+  type ServerStatus
+} from '../types/server';
+
+const ServerHistoryChart = lazy(() => import('./ServerHistoryChart'));
 
 interface ServerStatusModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type ServerType = 'java' | 'bedrock';
+type ServerType = ServerEdition;
 
-interface ServerStatus {
-  online: boolean;
-  players: { 
-    online: number; 
-    max: number;
-    list?: string[];
-  };
-  version: string;
-  hostname: string;
-  port: number;
-  motd?: string;
-  icon?: string;
-  lastUpdated: string;
-}
+// Shown when the servers table can't be loaded
+const FALLBACK_SERVER: ServerDefinition = {
+  id: '',
+  name: 'Champa',
+  host: 'champa.lol',
+  java_port: 25565,
+  bedrock_port: 19132,
+  description: '',
+  sort_order: 0
+};
+
+const emptyStatus = (server: ServerDefinition, type: ServerType): ServerStatus => ({
+  online: false,
+  players: { online: 0, max: 0 },
+  version: '-',
+  hostname: server.host,
+  port: getServerPort(server, type),
+  lastUpdated: '-'
+});
 
 export default function ServerStatusModal({ isOpen, onClose }: ServerStatusModalProps) {
+  const [servers, setServers] = useState<ServerDefinition[]>([]);
+  const [selectedServerId, setSelectedServerId] = useState<string | null>(null);
   const [serverType, setServerType] = useState<ServerType>('java');
-  const [serverData, setServerData] = useState<ServerStatus>({
-    online: false,
-    players: { online: 0, max: 0 },
-    version: '-',
-    hostname: 'champa.lol',
-    port: serverType === 'java' ? 25565 : 19132,
-    lastUpdated: '-'
-  });
+  const [serverData, setServerData] = useState<ServerStatus>(emptyStatus(FALLBACK_SERVER, 'java'));
   const [isLoading, setIsLoading] = useState(true);
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
+  const selectedServer = useMemo(
+    () => servers.find(server => server.id === selectedServerId) || servers[0] || FALLBACK_SERVER,
+    [servers, selectedServerId]
+  );
+  const serverEditions = useMemo(() => getServerEditions(selectedServer), [selectedServer]);
+
+  // Load the server list once the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchServers = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('servers')
+          .select('id, name, host, java_port, bedrock_port, description, sort_order')
+          .order('sort_order', { ascending: true });
+
+        if (error) throw error;
+
+        if (data && data.length > 0) {
+          setServers(data);
+          setSelectedServerId(prev => prev && data.some(server => server.id === prev) ? prev : data[0].id);
+        }
+      } catch (err) {
+        console.error("Error fetching servers:", err);
+      }
+    };
+
+    fetchServers();
+  }, [isOpen]);
+
+  // Fall back to an edition the selected server actually offers
+  useEffect(() => {
+    if (serverEditions.length > 0 && !serverEditions.includes(serverType)) {
+      setServerType(serverEditions[0]);
+    }
+  }, [serverEditions, serverType]);
+
   const fetchServerStatus = async () => {
     setIsLoading(true);
     setError(null);
     setIsRefreshing(true);
     
     try {
-      if (serverType === 'java') {
-        // Using mcsrvstat.us API for Java servers
-        const response = await fetch(`https://api.mcsrvstat.us/2/${serverData.hostname}`);
-        
-        if (!response.ok) {
-          throw new Error(`Failed to fetch Java server status: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        
-        if (data && typeof data === 'object') {
-          setServerData({
-            online: data.online || false,
-            players: { 
-              online: data.players?.online || 0, 
-              max: data.players?.max || 0,
-              list: data.players?.list || []
-            },
-            version: data.version || 'Unknown',
-            hostname: serverData.hostname,
-            port: serverData.port,
-            motd: data.motd?.clean?.[0] || '',
-            icon: data.icon,
-            lastUpdated: new Date().toLocaleTimeString()
-          });
-        } else {
-          throw new Error("Invalid response from Java server status API");
-        }
-      } else {
-        // For Bedrock, we'll use a proxy API if available, or fallback to simulated data
-        try {
-          // Try mcstatus.io API which supports Bedrock
-          const response = await fetch(`https://api.mcstatus.io/v2/status/bedrock/${serverData.hostname}:${serverData.port}`);
-          
-          if (!response.ok) {
-            throw new Error("Bedrock API unavailable");
-          }
-          
-          const data = await response.json();
-          
-          if (data && data.online) {
-            setServerData({
-              online: true,
-              players: { 
-                online: data.players?.online || 0, 
-                max: data.players?.max || 0
-              },
-              version: data.version?.name || 'Bedrock',
-              hostname: serverData.hostname,
-              port: serverData.port,
-              motd: data.motd?.clean || data.motd?.raw || '',
-              lastUpdated: new Date().toLocaleTimeString()
-            });
-          } else {
-            throw new Error("Server offline or API error");
-          }
-        } catch (bedrockError) {
-          console.log("Bedrock API error, using fallback:", bedrockError);
-          
-          // Use our own ping mechanism or fallback data
-          // In a real app, you'd use a backend service to ping the Bedrock server
-          
-          // Simulate a check with timeout to mimic real behavior
-          await new Promise(resolve => setTimeout(resolve, 800));
-          
-          // Fallback data for demo - in production, you'd use a server to ping the Bedrock server
-          const isMockOnline = Math.random() > 0.3; // 70% chance to be online for demo
-          
-          setServerData({
-            online: isMockOnline,
-            players: { 
-              online: isMockOnline ? Math.floor(Math.random() * 30) + 5 : 0, 
-              max: 100 
-            },
-            version: 'Bedrock 1.20.x',
-            hostname: serverData.hostname,
-            port: serverData.port,
-            motd: isMockOnline ? "Welcome to Champa Bedrock Server!" : "",
-            lastUpdated: new Date().toLocaleTimeString()
-          });
-          
-          // Only show error if our fallback also thinks it's offline
-          if (!isMockOnline) {
-            setError("Bedrock server seems to be offline. Please try again later.");
-          }
-        }
+      // Pinged server-side over the Java Server List Ping / Bedrock RakNet protocols
+      const params = new URLSearchParams({ edition: serverType });
+      if (selectedServer.id) params.set('server', selectedServer.id);
+      const response = await fetch(`/.netlify/functions/server-status?${params}`);
+      
+      if (!response.ok) {
+        throw new Error(`Failed to fetch server status: ${response.status}`);
+      }
+      
+      const data: { status?: ServerStatus } = await response.json();
+      
+      if (!data.status) {
+        throw new Error("Invalid response from server status function");
+      }
+      
+      setServerData(data.status);
+      
+      if (!data.status.online) {
+        setError(serverType === 'java'
+          ? "Java server seems to be offline. Please try again later."
+          : "Bedrock server seems to be offline. Please try again later."
+        );
       }
     } catch (err) {
       console.error("Error fetching server status:", err);
@@ -140,10 +124,8 @@ export default function ServerStatusModal({ isOpen, onClose }: ServerStatusModal
       
       // Fallback data
       setServerData({
-        ...serverData,
-        online: false,
-        players: { online: 0, max: 0 },
-        lastUpdated: new Date().toLocaleTimeString()
+        ...emptyStatus(selectedServer, serverType),
+        lastUpdated: new Date().toISOString()
       });
     } finally {
       setIsLoading(false);
@@ -152,10 +134,10 @@ export default function ServerStatusModal({ isOpen, onClose }: ServerStatusModal
   };
 
   useEffect(() => {
-    if (isOpen) {
+    if (isOpen && serverEditions.includes(serverType)) {
       fetchServerStatus();
     }
-  }, [isOpen, serverType]);
+  }, [isOpen, serverType, selectedServer, serverEditions]);
 
   const handleCopyAddress = () => {
     navigator.clipboard.writeText(`${serverData.hostname}:${serverData.port}`);
@@ -165,11 +147,15 @@ export default function ServerStatusModal({ isOpen, onClose }: ServerStatusModal
 
   const handleServerTypeChange = (type: ServerType) => {
     setServerType(type);
-    setServerData({
-      ...serverData,
-      hostname: 'champa.lol',
-      port: type === 'java' ? 25565 : 19132
-    });
+    setServerData(emptyStatus(selectedServer, type));
+  };
+
+  const handleServerChange = (server: ServerDefinition) => {
+    setSelectedServerId(server.id);
+    const editions = getServerEditions(server);
+    const type = editions.includes(serverType) ? serverType : editions[0];
+    setServerType(type);
+    setServerData(emptyStatus(server, type));
   };
 
   if (!isOpen) return null;
@@ -189,7 +175,7 @@ export default function ServerStatusModal({ isOpen, onClose }: ServerStatusModal
         <div className="relative">
           <img 
             src="https://cdn.discordapp.com/attachments/1313065351709200394/1355932494305824849/est.png?ex=67ee05ca&is=67ecb44a&hm=09034ccd6d23bf22ea9453c1a7d030431ff774649e14cba9ca3e38b07e81da76&" 
-            alt="Champa Server" 
+            alt={`${selectedServer.name} Server`} 
             className="w-full h-36 object-cover rounded-t-xl"
           />
           <div className="absolute inset-0 bg-gradient-to-b from-transparent to-gray-800/80"></div>
@@ -214,7 +200,12 @@ export default function ServerStatusModal({ isOpen, onClose }: ServerStatusModal
         {/* Header */}
         <div className="border-b border-gray-700 p-4">
           <div className="flex justify-between items-center mb-3">
-            <h2 className="text-white text-lg font-semibold">Champa Minecraft Server</h2>
+            <div>
+              <h2 className="text-white text-lg font-semibold">{selectedServer.name} Minecraft Server</h2>
+              {selectedServer.description && (
+                <p className="text-xs text-gray-400">{selectedServer.description}</p>
+              )}
+            </div>
             <button 
               onClick={fetchServerStatus}
               className="text-gray-400 hover:text-white transition-colors"
@@ -225,28 +216,42 @@ export default function ServerStatusModal({ isOpen, onClose }: ServerStatusModal
             </button>
           </div>
           
+          {/* Server Selector */}
+          {servers.length > 1 && (
+            <div className="flex flex-wrap gap-2 mb-3" role="tablist" aria-label="Servers">
+              {servers.map(server => (
+                <button
+                  key={server.id}
+                  role="tab"
+                  aria-selected={server.id === selectedServer.id}
+                  className={`py-1 px-3 rounded-full text-sm font-medium ${
+                    server.id === selectedServer.id
+                      ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/50'
+                      : 'bg-gray-700 text-gray-300 border border-gray-700 hover:bg-gray-600'
+                  } transition-colors`}
+                  onClick={() => handleServerChange(server)}
+                >
+                  {server.name}
+                </button>
+              ))}
+            </div>
+          )}
+          
           {/* Server Type Selector */}
           <div className="flex rounded-lg overflow-hidden border border-gray-700">
-            <button 
-              className={`flex-1 py-1.5 px-3 text-sm font-medium ${
-                serverType === 'java' 
-                  ? 'bg-emerald-600 text-white' 
-                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-              } transition-colors`}
-              onClick={() => handleServerTypeChange('java')}
-            >
-              Java Edition
-            </button>
-            <button 
-              className={`flex-1 py-1.5 px-3 text-sm font-medium ${
-                serverType === 'bedrock' 
-                  ? 'bg-emerald-600 text-white' 
-                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-              } transition-colors`}
-              onClick={() => handleServerTypeChange('bedrock')}
-            >
-              Bedrock Edition
-            </button>
+            {serverEditions.map(edition => (
+              <button 
+                key={edition}
+                className={`flex-1 py-1.5 px-3 text-sm font-medium ${
+                  serverType === edition 
+                    ? 'bg-emerald-600 text-white' 
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                } transition-colors`}
+                onClick={() => handleServerTypeChange(edition)}
+              >
+                {edition === 'java' ? 'Java Edition' : 'Bedrock Edition'}
+              </button>
+            ))}
           </div>
         </div>
 
@@ -348,6 +353,15 @@ export default function ServerStatusModal({ isOpen, onClose }: ServerStatusModal
               </div>
             </>
           )}
+
+          {/* Uptime and player history */}
+          {selectedServer.id && (
+            <div className="mt-4">
+              <Suspense fallback={null}>
+                <ServerHistoryChart serverId={selectedServer.id} />
+              </Suspense>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -0,0 +1,172 @@
+import { memo, useMemo, useState } from 'react';
+import { Check, ExternalLink, ShoppingCart } from 'lucide-react';
+import { formatRankDuration } from '../utils/date-helpers';
+import { isSoldOut, ITEM_TYPE_LABELS, type CatalogProduct, type ProductCategory } from '../types/product';
+import type { CartLine } from '../types/cart';
+import { useCurrency } from '../lib/currency';
+
+interface ShopCatalogProps {
+  categories: ProductCategory[];
+  products: CatalogProduct[];
+  cartLines: CartLine[];
+  onAddToCart: (product: CatalogProduct) => void;
+}
+
+// Tab for products whose category was removed or never set
+const UNCATEGORIZED_TAB = 'other';
+
+// Product card, adding its product to the cart or linking to the store that sells it
+const ProductCard = memo(({ product, inCart, onAddToCart }: {
+  product: CatalogProduct;
+  inCart: CartLine | undefined;
+  onAddToCart: (product: CatalogProduct) => void;
+}) => {
+  const { formatPrice } = useCurrency();
+  const onSale = product.original_price !== null && product.original_price > product.price;
+  const soldOut = isSoldOut(product);
+
+  return (
+    <div className="bg-gray-800/80 backdrop-blur-sm rounded-xl p-4 sm:p-5 shadow-lg border border-gray-700 flex flex-col">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div>
+          <span className={`inline-block px-3 py-1 rounded text-white font-semibold text-sm bg-gradient-to-r ${product.color}`}>
+            {product.name}
+          </span>
+          <p className="text-xs text-gray-400 mt-1.5">
+            {ITEM_TYPE_LABELS[product.item_type]}
+            {product.item_type === 'rank' && ` · ${formatRankDuration(product.duration_days)}`}
+            {product.stock !== null && !soldOut && <span className="text-amber-400"> · {product.stock} left</span>}
+          </p>
+        </div>
+        {!product.purchase_url && (
+          <div className="text-right">
+            {onSale && (
+              <p className="line-through text-gray-500 text-xs">{formatPrice(product.original_price!)}</p>
+            )}
+            <p className={`font-bold ${onSale ? 'text-emerald-300' : 'text-white'}`}>{formatPrice(product.price)}</p>
+          </div>
+        )}
+      </div>
+
+      {product.image_url && (
+        <img
+          src={product.image_url}
+          alt={product.name}
+          loading="lazy"
+          className="w-full h-32 object-contain rounded-lg bg-gray-900/40 mb-3"
+        />
+      )}
+
+      {product.description && (
+        <p className="text-sm text-gray-300 mb-3 whitespace-pre-line">{product.description}</p>
+      )}
+
+      {product.perks.length > 0 && (
+        <ul className="space-y-1.5 mb-4">
+          {product.perks.map(perk => (
+            <li key={perk} className="flex items-start gap-2 text-sm text-gray-300">
+              <Check size={16} className="text-emerald-400 flex-shrink-0 mt-0.5" />
+              <span>{perk}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {product.purchase_url ? (
+        <a
+          href={product.purchase_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-auto w-full bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white rounded-lg py-2 px-4 flex items-center justify-center gap-2 transition-colors text-sm font-medium"
+        >
+          <ExternalLink size={16} />
+          Buy {ITEM_TYPE_LABELS[product.item_type]}
+        </a>
+      ) : (
+        <button
+          type="button"
+          onClick={() => onAddToCart(product)}
+          disabled={soldOut}
+          className="mt-auto w-full bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700 text-white rounded-lg py-2 px-4 flex items-center justify-center gap-2 transition-colors text-sm font-medium disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed"
+        >
+          {inCart ? <Check size={16} /> : <ShoppingCart size={16} />}
+          {soldOut
+            ? 'Sold out'
+            : inCart
+              ? product.item_type === 'rank' ? 'In cart' : `Add another (${inCart.quantity} in cart)`
+              : 'Add to cart'}
+        </button>
+      )}
+    </div>
+  );
+});
+
+// The store's catalog, one tab per category that has products
+export default memo(function ShopCatalog({ categories, products, cartLines, onAddToCart }: ShopCatalogProps) {
+  const tabs = useMemo(() => {
+    const withProducts = categories
+      .filter(category => products.some(product => product.category_id === category.id))
+      .map(category => ({ id: category.id, name: category.name, description: category.description }));
+
+    const hasUncategorized = products.some(product =>
+      !product.category_id || !categories.some(category => category.id === product.category_id));
+
+    return hasUncategorized
+      ? [...withProducts, { id: UNCATEGORIZED_TAB, name: withProducts.length > 0 ? 'Other' : 'Shop', description: '' }]
+      : withProducts;
+  }, [categories, products]);
+
+  const [selectedTab, setSelectedTab] = useState<string | null>(null);
+  const activeTab = tabs.find(tab => tab.id === selectedTab) || tabs[0];
+
+  const tabProducts = useMemo(() => {
+    if (!activeTab) return [];
+    if (activeTab.id !== UNCATEGORIZED_TAB) {
+      return products.filter(product => product.category_id === activeTab.id);
+    }
+    return products.filter(product =>
+      !product.category_id || !categories.some(category => category.id === product.category_id));
+  }, [activeTab, products, categories]);
+
+  if (!activeTab) return null;
+
+  return (
+    <div>
+      {tabs.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-2 mb-5 sm:mb-6" role="tablist">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              type="button"
+              role="tab"
+              aria-selected={tab.id === activeTab.id}
+              onClick={() => setSelectedTab(tab.id)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                tab.id === activeTab.id
+                  ? 'bg-emerald-600 text-white'
+                  : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700 border border-gray-700'
+              }`}
+            >
+              {tab.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {activeTab.description && (
+        <p className="text-gray-300 text-center mb-5 sm:mb-6 max-w-2xl mx-auto text-sm sm:text-base">{activeTab.description}</p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+        {tabProducts.map(product => (
+          <ProductCard
+            key={product.id}
+            product={product}
+            inCart={cartLines.find(line => line.product_id === product.id)}
+            onAddToCart={onAddToCart}
+          />
+        ))}
+      </div>
+    </div>
+  );
+});
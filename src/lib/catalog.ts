@@ -0,0 +1,58 @@
+import { supabase } from './supabase';
+import { applySale, type Sale } from '../types/sale';
+import { isItemType, type CatalogProduct, type ProductCategory } from '../types/product';
+
+// Catalog tabs in display order
+export async function fetchCategories(): Promise<ProductCategory[]> {
+  const { data, error } = await supabase
+    .from('product_categories')
+    .select('id, slug, name, description, sort_order')
+    .order('sort_order', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Active products in display order, with live sales applied for display; the
+// price-quote function prices them again when the cart is checked out
+export async function fetchCatalog(): Promise<CatalogProduct[]> {
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('*')
+    .eq('active', true)
+    .order('sort_order', { ascending: true })
+    .order('price');
+
+  if (error) throw error;
+
+  const { data: sales, error: salesError } = await supabase
+    .from('sales')
+    .select('*')
+    .gt('ends_at', new Date().toISOString());
+
+  if (salesError) throw salesError;
+
+  return (products || []).map(product => {
+    const salePrice = applySale({
+      id: product.id,
+      price: Number(product.price) || 0,
+      original_price: product.original_price ? Number(product.original_price) : null
+    }, (sales || []) as Sale[]);
+
+    return {
+      id: product.id,
+      name: product.name,
+      description: product.description || '',
+      perks: Array.isArray(product.perks) ? product.perks : [],
+      category_id: product.category_id ?? null,
+      purchase_url: product.purchase_url || null,
+      item_type: isItemType(product.item_type) ? product.item_type : 'rank',
+      price: salePrice.price,
+      original_price: salePrice.original_price,
+      color: product.color || 'from-emerald-500 to-emerald-600',
+      image_url: product.image_url || '',
+      duration_days: product.duration_days ?? null,
+      stock: product.stock ?? null
+    };
+  });
+}
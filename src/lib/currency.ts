@@ -0,0 +1,51 @@
+import { createContext, useContext } from 'react';
+import { supabase } from './supabase';
+import { DEFAULT_CURRENCY, formatMoney, type CurrencyRate } from '../utils/money';
+
+// The store currency and the exchange rates customers can view prices in
+export interface CurrencySettings {
+  storeCurrency: string;
+  rates: CurrencyRate[];
+}
+
+export async function fetchCurrencySettings(): Promise<CurrencySettings> {
+  const [configResult, ratesResult] = await Promise.all([
+    supabase.from('site_config').select('value').eq('key', 'store_currency').maybeSingle(),
+    supabase.from('currency_rates').select('code, rate').order('sort_order', { ascending: true })
+  ]);
+
+  if (configResult.error) throw configResult.error;
+  if (ratesResult.error) throw ratesResult.error;
+
+  const storeCurrency = configResult.data?.value?.trim().toUpperCase() || DEFAULT_CURRENCY;
+  return {
+    storeCurrency,
+    rates: (ratesResult.data || [])
+      .map(rate => ({ code: rate.code, rate: Number(rate.rate) }))
+      .filter(rate => rate.code !== storeCurrency && rate.rate > 0)
+  };
+}
+
+export interface CurrencyContextValue {
+  storeCurrency: string;
+  // The currency prices are shown in
+  currency: string;
+  // The store currency first, then the secondary currencies
+  currencies: string[];
+  setCurrency: (code: string) => void;
+  // Formats an amount in the store currency in the selected currency
+  formatPrice: (amount: number) => string;
+  // Reloads the settings after the admin changes them
+  refresh: () => Promise<void>;
+}
+
+export const CurrencyContext = createContext<CurrencyContextValue>({
+  storeCurrency: DEFAULT_CURRENCY,
+  currency: DEFAULT_CURRENCY,
+  currencies: [DEFAULT_CURRENCY],
+  setCurrency: () => {},
+  formatPrice: amount => formatMoney(amount, DEFAULT_CURRENCY),
+  refresh: async () => {}
+});
+
+export const useCurrency = () => useContext(CurrencyContext);
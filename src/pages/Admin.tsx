@@ -1,23 +1,59 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
 import { useNavigate } from 'react-router-dom';
-import { Save, Image, DollarSign, Percent, Settings, LogOut, ShoppingCart, FileText, X, AlertTriangle, Lock, Upload, Shield, Info, Users } from 'lucide-react';
+import { Save, Image, DollarSign, Percent, Settings, LogOut, ShoppingCart, FileText, X, AlertTriangle, Lock, Upload, Shield, Info, Users, Clock, MessageSquare, Eye, RefreshCw, Truck, Server, Plus, Trash2, Activity, Tag, Timer, LayoutGrid, EyeOff, GripVertical, Copy, Archive, TrendingUp, CreditCard } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import {
+  canTransitionOrder,
+  formatOrderItemName,
+  normalizeOrder,
+  ORDER_STATUS_TRANSITIONS,
+  type Order,
+  type OrderEvent,
+  type OrderStatus
+} from '../types/order';
+import {
+  isItemType,
+  ITEM_TYPE_LABELS,
+  ITEM_TYPES,
+  parsePerks,
+  validateColorGradient,
+  validatePerks,
+  type ItemType,
+  type ProductCategory
+} from '../types/product';
+import type { ServerDefinition } from '../types/server';
+import {
+  COUPON_CODE_PATTERN,
+  formatCouponValue,
+  getCouponStatus,
+  normalizeCouponCode,
+  type Coupon,
+  type CouponDiscountType,
+  type CouponStatus
+} from '../types/coupon';
+import { getSaleStatus, type Sale, type SaleStatus } from '../types/sale';
+import {
+  applySalesToPriceHistory,
+  PRICE_IMPACT_RANGES,
+  summarizePricePeriods,
+  type PriceChange,
+  type PriceImpactRange,
+  type ProductSalesPoint
+} from '../types/price-history';
+import {
+  isPaymentMethodKind,
+  PAYMENT_METHOD_KIND_LABELS,
+  PAYMENT_METHOD_KINDS,
+  type PaymentMethod,
+  type PaymentMethodKind
+} from '../types/payment-method';
+import { DEFAULT_CURRENCY, formatMoney, isCurrencyCode } from '../utils/money';
+import { useCurrency } from '../lib/currency';
+import ServerHistoryChart from '../components/ServerHistoryChart';
+import PriceImpactChart from '../components/PriceImpactChart';
 
 // Types
-interface Order {
-  id: string;
-  customer_name: string;
-  customer_phone: string;
-  created_at: string;
-  total_amount: number;
-  status: 'pending' | 'processing' | 'completed' | 'cancelled';
-  items: Array<{
-    name: string;
-    price: number;
-  }>;
-}
-
 interface Product {
   id: number;
   name: string;
@@ -26,6 +62,15 @@ interface Product {
   original_price: number | null;
   image_url: string;
   color: string;
+  item_type: ItemType;
+  delivery_command: string | null;
+  revoke_command: string | null;
+  duration_days: number | null;
+  active: boolean;
+  // Units left; null for unlimited
+  stock: number | null;
+  category_id: string | null;
+  perks: string[];
 }
 
 // Enhanced authentication with SessionProvider pattern
@@ -215,6 +260,12 @@ const AdminLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
               { id: 'orders', label: 'Orders', icon: <ShoppingCart size={18} /> },
               { id: 'images', label: 'Images', icon: <Image size={18} /> },
               { id: 'prices', label: 'Prices', icon: <DollarSign size={18} /> },
+              { id: 'price-impact', label: 'Price Impact', icon: <TrendingUp size={18} /> },
+              { id: 'catalog', label: 'Catalog', icon: <LayoutGrid size={18} /> },
+              { id: 'coupons', label: 'Coupons', icon: <Tag size={18} /> },
+              { id: 'sales', label: 'Sales', icon: <Timer size={18} /> },
+              { id: 'deliveries', label: 'Deliveries', icon: <Truck size={18} /> },
+              { id: 'servers', label: 'Servers', icon: <Server size={18} /> },
               { id: 'settings', label: 'Settings', icon: <Settings size={18} /> }
             ].map(tab => (
               <li key={tab.id}>
@@ -274,7 +325,13 @@ const AdminLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
           <div className="space-y-6">
             {activeTab === 'images' && <ImageManager />}
             {activeTab === 'prices' && <PriceManager />}
+            {activeTab === 'price-impact' && <PriceImpactReport />}
+            {activeTab === 'catalog' && <CatalogManager />}
+            {activeTab === 'coupons' && <CouponsManager />}
+            {activeTab === 'sales' && <SalesManager />}
             {activeTab === 'orders' && <OrdersManager />}
+            {activeTab === 'deliveries' && <DeliveriesManager />}
+            {activeTab === 'servers' && <ServersManager />}
             {activeTab === 'settings' && <SettingsManager />}
           </div>
         </div>
@@ -408,7 +465,13 @@ const AdminDashboard: React.FC = () => {
   const tabs = [
     { id: 'images', label: 'Images', icon: <Image size={18} /> },
     { id: 'prices', label: 'Prices & Discounts', icon: <DollarSign size={18} /> },
+    { id: 'price-impact', label: 'Price Impact', icon: <TrendingUp size={18} /> },
+    { id: 'catalog', label: 'Catalog', icon: <LayoutGrid size={18} /> },
+    { id: 'coupons', label: 'Coupons', icon: <Tag size={18} /> },
+    { id: 'sales', label: 'Sales', icon: <Timer size={18} /> },
     { id: 'orders', label: 'Orders', icon: <ShoppingCart size={18} /> },
+    { id: 'deliveries', label: 'Deliveries', icon: <Truck size={18} /> },
+    { id: 'servers', label: 'Servers', icon: <Server size={18} /> },
     { id: 'settings', label: 'Settings', icon: <Settings size={18} /> },
   ];
 
@@ -580,7 +643,13 @@ const AdminDashboard: React.FC = () => {
           <div className="space-y-6">
             {activeTab === 'images' && <ImageManager />}
             {activeTab === 'prices' && <PriceManager />}
+            {activeTab === 'price-impact' && <PriceImpactReport />}
+            {activeTab === 'catalog' && <CatalogManager />}
+            {activeTab === 'coupons' && <CouponsManager />}
+            {activeTab === 'sales' && <SalesManager />}
             {activeTab === 'orders' && <OrdersManager />}
+            {activeTab === 'deliveries' && <DeliveriesManager />}
+            {activeTab === 'servers' && <ServersManager />}
             {activeTab === 'settings' && <SettingsManager />}
           </div>
         </div>
@@ -589,11 +658,66 @@ const AdminDashboard: React.FC = () => {
   );
 };
 
+// Checks an image picked for upload, returning an error message when it can't be used
+const validateImageFile = (file: File): string | null => {
+  if (!file.type.startsWith('image/')) return 'Please upload a valid image file';
+  // Max size 2MB
+  if (file.size > 2 * 1024 * 1024) return 'Image is too large (max 2MB)';
+  return null;
+};
+
+// Uploads a store image to the first storage bucket that accepts it, returning its public URL
+const uploadStoreImage = async (file: File, imageType: string): Promise<string> => {
+  // Create a unique filename
+  const timestamp = Date.now();
+  const randomString = Math.random().toString(36).substring(2, 10);
+  const fileExtension = file.name.split('.').pop() || 'jpg';
+  const fileName = `${imageType}_${timestamp}_${randomString}.${fileExtension}`;
+  const filePath = `store-images/${fileName}`;
+  
+  // Try multiple buckets in case some are not available
+  let uploadResult = null;
+  let bucketName = null;
+  
+  for (const bucket of ['images', 'store-images', 'public', 'media', 'uploads']) {
+    try {
+      const result = await supabase.storage
+        .from(bucket)
+        .upload(filePath, file, {
+          cacheControl: '3600',
+          upsert: false
+        });
+        
+      if (!result.error) {
+        uploadResult = result;
+        bucketName = bucket;
+        break;
+      }
+    } catch (err) {
+      // Continue trying the next bucket
+    }
+  }
+  
+  if (!uploadResult || !bucketName) {
+    throw new Error('Failed to upload image: No valid storage bucket found');
+  }
+  
+  // Get public URL
+  const { data: urlData } = supabase.storage
+    .from(bucketName)
+    .getPublicUrl(filePath);
+    
+  if (!urlData || !urlData.publicUrl) {
+    throw new Error('Failed to get public URL');
+  }
+  
+  return urlData.publicUrl;
+};
+
 // Image Manager Component
 const ImageManager: React.FC = () => {
   const [bannerImage, setBannerImage] = useState('/images/banner.gif');
   const [logoImage, setLogoImage] = useState('https://i.imgur.com/ArKEQz1.png');
-  const [qrCodeImage, setQrCodeImage] = useState('/images/qr/qrcode.jpg');
   const [receiptImage, setReceiptImage] = useState('/images/receipt-bg.jpg');
   const [receiptLogoImage, setReceiptLogoImage] = useState('https://i.imgur.com/ArKEQz1.png');
   const [rankImages, setRankImages] = useState<{[key: string]: string}>({
@@ -630,7 +754,6 @@ const ImageManager: React.FC = () => {
     const imagesToPreload = [
       bannerImage,
       logoImage,
-      qrCodeImage,
       receiptImage,
       receiptLogoImage,
       ...Object.values(rankImages)
@@ -649,7 +772,7 @@ const ImageManager: React.FC = () => {
         img.onerror = null;
       });
     };
-  }, [bannerImage, logoImage, qrCodeImage, receiptImage, receiptLogoImage, rankImages]);
+  }, [bannerImage, logoImage, receiptImage, receiptLogoImage, rankImages]);
 
   // Fetch images from database
   useEffect(() => {
@@ -660,7 +783,7 @@ const ImageManager: React.FC = () => {
         const { data: configData, error: configError } = await supabase
           .from('site_config')
           .select('*')
-          .in('key', ['banner_image', 'logo_image', 'qr_code_image', 'receipt_image', 'receipt_logo_image']);
+          .in('key', ['banner_image', 'logo_image', 'receipt_image', 'receipt_logo_image']);
           
         if (configError) throw configError;
         
@@ -672,7 +795,6 @@ const ImageManager: React.FC = () => {
           
           setBannerImage(imagesObj.banner_image || '/images/banner.gif');
           setLogoImage(imagesObj.logo_image || 'https://i.imgur.com/ArKEQz1.png');
-          setQrCodeImage(imagesObj.qr_code_image || '/images/qr/qrcode.jpg');
           setReceiptImage(imagesObj.receipt_image || '/images/receipt-bg.jpg');
           setReceiptLogoImage(imagesObj.receipt_logo_image || 'https://i.imgur.com/ArKEQz1.png');
         }
@@ -680,7 +802,8 @@ const ImageManager: React.FC = () => {
         // Fetch rank images from products table
         const { data: rankData, error: rankError } = await supabase
           .from('products')
-          .select('name, image_url');
+          .select('name, image_url')
+          .is('archived_at', null);
           
         if (rankError) throw rankError;
         
@@ -721,7 +844,6 @@ const ImageManager: React.FC = () => {
         .upsert([
           { key: 'banner_image', value: bannerImage },
           { key: 'logo_image', value: logoImage },
-          { key: 'qr_code_image', value: qrCodeImage },
           { key: 'receipt_image', value: receiptImage },
           { key: 'receipt_logo_image', value: receiptLogoImage }
         ]);
@@ -741,7 +863,7 @@ const ImageManager: React.FC = () => {
     } finally {
       setIsSaving(false);
     }
-  }, [bannerImage, logoImage, qrCodeImage, receiptImage, receiptLogoImage, rankImages]);
+  }, [bannerImage, logoImage, receiptImage, receiptLogoImage, rankImages]);
 
   // Memoize rank image change handler
   const handleRankImageChange = useCallback((value: string) => {
@@ -755,65 +877,16 @@ const ImageManager: React.FC = () => {
   const handleFileUpload = useCallback(async (file: File, imageType: string) => {
     if (!file) return;
     
-    // Validate file
-    if (!file.type.startsWith('image/')) {
-      toast.error('Please upload a valid image file');
-      return;
-    }
-    
-    // Max size 2MB
-    if (file.size > 2 * 1024 * 1024) {
-      toast.error('Image is too large (max 2MB)');
+    const fileError = validateImageFile(file);
+    if (fileError) {
+      toast.error(fileError);
       return;
     }
     
     setUploadLoading(imageType);
     
     try {
-      // Create a unique filename
-      const timestamp = Date.now();
-      const randomString = Math.random().toString(36).substring(2, 10);
-      const fileExtension = file.name.split('.').pop() || 'jpg';
-      const fileName = `${imageType}_${timestamp}_${randomString}.${fileExtension}`;
-      const filePath = `store-images/${fileName}`;
-      
-      // Try multiple buckets in case some are not available
-      let uploadResult = null;
-      let bucketName = null;
-      
-      for (const bucket of ['images', 'store-images', 'public', 'media', 'uploads']) {
-        try {
-          const result = await supabase.storage
-            .from(bucket)
-            .upload(filePath, file, {
-              cacheControl: '3600',
-              upsert: false
-            });
-            
-          if (!result.error) {
-            uploadResult = result;
-            bucketName = bucket;
-            break;
-          }
-        } catch (err) {
-          // Continue trying the next bucket
-        }
-      }
-      
-      if (!uploadResult || !bucketName) {
-        throw new Error('Failed to upload image: No valid storage bucket found');
-      }
-      
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from(bucketName)
-        .getPublicUrl(filePath);
-        
-      if (!urlData || !urlData.publicUrl) {
-        throw new Error('Failed to get public URL');
-      }
-      
-      const imageUrl = urlData.publicUrl;
+      const imageUrl = await uploadStoreImage(file, imageType);
       
       // Update the appropriate image state based on type
       switch (imageType) {
@@ -823,9 +896,6 @@ const ImageManager: React.FC = () => {
         case 'logo':
           setLogoImage(imageUrl);
           break;
-        case 'qr_code':
-          setQrCodeImage(imageUrl);
-          break;
         case 'receipt':
           setReceiptImage(imageUrl);
           break;
@@ -939,40 +1009,10 @@ const ImageManager: React.FC = () => {
           </div>
             
           <div>
-            <label className="block text-gray-300 mb-2 font-medium">Payment QR Code</label>
-            <div className="mb-3 bg-gray-900/70 p-4 rounded-xl flex items-center justify-center relative group h-48 overflow-hidden border border-gray-700/50 shadow-md hover:shadow-emerald-900/10 transition-shadow">
-              <div className="bg-white p-3 rounded-lg">
-                <img 
-                  src={qrCodeImage} 
-                  alt="QR Code Preview" 
-                  className="w-32 h-32 object-contain"
-                />
-              </div>
-              <ImageUploader 
-                imageType="qr_code" 
-                currentUrl={qrCodeImage} 
-                label="QR Code"
-                onUpload={handleFileUpload}
-                isUploading={!!uploadLoading}
-              />
-              {uploadLoading === 'qr_code' && (
-                <div className="absolute inset-0 bg-black/60 flex items-center justify-center backdrop-blur-sm">
-                  <div className="flex flex-col items-center gap-2">
-                    <div className="w-8 h-8 border-3 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
-                    <span className="text-sm text-emerald-400">Uploading...</span>
-                  </div>
-                </div>
-              )}
-            </div>
-              
-            <div className="mb-4">
-              <input
-                type="text"
-                value={qrCodeImage}
-                onChange={(e) => setQrCodeImage(e.target.value)}
-                className="w-full bg-gray-700/50 text-white border border-gray-600/80 rounded-lg px-4 py-2 focus:outline-none focus:border-emerald-500/70 focus:ring-1 focus:ring-emerald-500/50 transition-colors text-sm"
-              />
-              <p className="text-xs text-gray-400 mt-1.5 ml-1">QR code for payments</p>
+            <label className="block text-gray-300 mb-2 font-medium">Payment QR Codes</label>
+            <div className="bg-gray-700/30 p-4 rounded-xl text-sm text-gray-400">
+              Each payment method has its own QR code, instructions and fee. Manage them under
+              <span className="text-white"> Settings → Payment Methods</span>.
             </div>
           </div>
         </div>
@@ -1146,11 +1186,200 @@ const ImageManager: React.FC = () => {
   );
 };
 
+const toProduct = (item: any): Product => ({
+  id: item.id,
+  name: item.name,
+  description: item.description || '',
+  price: Number(item.price) || 0,
+  original_price: item.original_price ? Number(item.original_price) : null,
+  image_url: item.image_url,
+  color: item.color,
+  item_type: isItemType(item.item_type) ? item.item_type : 'rank',
+  delivery_command: item.delivery_command ?? null,
+  revoke_command: item.revoke_command ?? null,
+  duration_days: item.duration_days ?? null,
+  active: item.active !== false,
+  stock: item.stock ?? null,
+  category_id: item.category_id ?? null,
+  perks: item.perks || []
+});
+
+// Product being created or edited in the product form; `id` is 0 until it is saved
+interface ProductDraft {
+  id: number;
+  name: string;
+  description: string;
+  color: string;
+  image_url: string;
+  item_type: ItemType;
+  price: string;
+  // Set when duplicating; its commands, duration, category and perks are copied
+  template: Product | null;
+}
+
+const EMPTY_PRODUCT_DRAFT: ProductDraft = {
+  id: 0,
+  name: '',
+  description: '',
+  color: 'from-emerald-500 to-emerald-600',
+  image_url: '',
+  item_type: 'rank',
+  price: '',
+  template: null
+};
+
+const toProductDraft = (product: Product): ProductDraft => ({
+  id: product.id,
+  name: product.name,
+  description: product.description,
+  color: product.color || EMPTY_PRODUCT_DRAFT.color,
+  image_url: product.image_url || '',
+  item_type: product.item_type,
+  price: String(product.price),
+  template: null
+});
+
+const toDuplicateDraft = (product: Product): ProductDraft => ({
+  ...toProductDraft(product),
+  id: 0,
+  name: `${product.name} Copy`,
+  template: product
+});
+
+// `existingNames` are the other products' names; names are unique ignoring case
+const validateProductDraft = (draft: ProductDraft, existingNames: string[]): string | null => {
+  const name = draft.name.trim();
+  if (!name) return 'Every product needs a name';
+  if (!draft.id && existingNames.some(existing => existing.toLowerCase() === name.toLowerCase())) {
+    return `A product named ${name} already exists`;
+  }
+
+  const price = Number(draft.price);
+  if (draft.price === '' || !Number.isFinite(price) || price < 0) return 'The price must be zero or more';
+
+  const colorError = validateColorGradient(draft.color);
+  if (colorError) return colorError;
+
+  if (draft.image_url.trim() && !/^(https?:\/\/|\/)\S+$/.test(draft.image_url.trim())) {
+    return 'The image must be a URL starting with http://, https:// or /';
+  }
+
+  return null;
+};
+
+// A product's fields as the price manager saves them; `sort_order` is its row index
+interface ProductSaveRow {
+  id: number;
+  price: number;
+  original_price: number | null;
+  delivery_command: string | null;
+  revoke_command: string | null;
+  item_type: ItemType;
+  duration_days: number | null;
+  active: boolean;
+  stock: number | null;
+  sort_order: number;
+}
+
+// A row as `save_product_prices` takes it. Stock is left out unless it should be
+// written, since create-order lowers it while the page is open; `expected_stock`
+// makes the write conditional on the stock the admin loaded
+type ProductSavePayload = Omit<ProductSaveRow, 'stock'> & { stock?: number | null; expected_stock?: number | null };
+
+const toSavePayload = (row: ProductSaveRow, saved: ProductSaveRow | undefined, withStock: boolean): ProductSavePayload => {
+  const payload: ProductSavePayload = { ...row };
+  if (!withStock || (saved && saved.stock === row.stock)) {
+    delete payload.stock;
+  } else if (saved) {
+    payload.expected_stock = saved.stock;
+  }
+  return payload;
+};
+
+const toSaveRow = (product: Product, index: number): ProductSaveRow => ({
+  id: product.id,
+  price: product.price,
+  original_price: product.original_price,
+  delivery_command: product.delivery_command?.trim() || null,
+  revoke_command: product.revoke_command?.trim() || null,
+  item_type: product.item_type,
+  duration_days: product.duration_days,
+  active: product.active,
+  stock: product.stock,
+  sort_order: index
+});
+
+const fromSaveRow = (product: Product, row: ProductSaveRow): Product => ({
+  ...product,
+  price: row.price,
+  original_price: row.original_price,
+  delivery_command: row.delivery_command,
+  revoke_command: row.revoke_command,
+  item_type: row.item_type,
+  duration_days: row.duration_days,
+  active: row.active,
+  stock: row.stock
+});
+
+const formatPriceOrNone = (value: number | null, currency: string) => value === null ? 'none' : formatMoney(value, currency);
+
+// Readable list of what changed between two saves of a product, e.g. "$5.00 → $4.00"
+const describeProductChanges = (before: ProductSaveRow, after: ProductSaveRow, currency = DEFAULT_CURRENCY): string[] => {
+  const changes: string[] = [];
+  if (before.price !== after.price) {
+    changes.push(`${formatPriceOrNone(before.price, currency)} → ${formatPriceOrNone(after.price, currency)}`);
+  }
+  if (before.original_price !== after.original_price) {
+    changes.push(`original price ${formatPriceOrNone(before.original_price, currency)} → ${formatPriceOrNone(after.original_price, currency)}`);
+  }
+  if (before.item_type !== after.item_type) {
+    changes.push(`${ITEM_TYPE_LABELS[before.item_type]} → ${ITEM_TYPE_LABELS[after.item_type]}`);
+  }
+  if (before.duration_days !== after.duration_days) {
+    const formatDuration = (days: number | null) => days === null ? 'lifetime' : `${days} days`;
+    changes.push(`duration ${formatDuration(before.duration_days)} → ${formatDuration(after.duration_days)}`);
+  }
+  if (before.stock !== after.stock) {
+    const formatStock = (stock: number | null) => stock === null ? 'unlimited' : String(stock);
+    changes.push(`stock ${formatStock(before.stock)} → ${formatStock(after.stock)}`);
+  }
+  if (before.active !== after.active) changes.push(after.active ? 'shown in store' : 'hidden');
+  if (before.delivery_command !== after.delivery_command) changes.push('delivery command changed');
+  if (before.revoke_command !== after.revoke_command) changes.push('revoke command changed');
+  if (before.sort_order !== after.sort_order) changes.push(`position ${before.sort_order + 1} → ${after.sort_order + 1}`);
+  return changes;
+};
+
+const isSameSaveRow = (a: ProductSaveRow, b: ProductSaveRow) => describeProductChanges(a, b).length === 0;
+
+// Rounds a price up to the next .99, e.g. 4.20 → 4.99 and 5.00 → 5.99; a
+// price already ending in .99 is kept. Works in cents to avoid float drift.
+const roundToNinetyNine = (price: number) => {
+  if (price <= 0) return price;
+  const cents = Math.round(price * 100);
+  return (Math.ceil((cents - 99) / 100) * 100 + 99) / 100;
+};
+
 // Price Manager Component
 const PriceManager: React.FC = () => {
+  const { storeCurrency } = useCurrency();
   const [products, setProducts] = useState<Product[]>([]);
+  const [archivedProducts, setArchivedProducts] = useState<Product[]>([]);
+  const [draft, setDraft] = useState<ProductDraft>(EMPTY_PRODUCT_DRAFT);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const [upgradePriceFloor, setUpgradePriceFloor] = useState('1.00');
   const [loading, setLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  // Row being dragged to a new display position
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  // What the database holds, to preview and save only what changed
+  const [savedRows, setSavedRows] = useState<ProductSaveRow[]>([]);
+  const [savedPriceFloor, setSavedPriceFloor] = useState('1.00');
+  const [showPreview, setShowPreview] = useState(false);
+  // The rows the last save replaced, for undo
+  const [lastSave, setLastSave] = useState<{ before: ProductSaveRow[]; priceFloor: string } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [bulkPercent, setBulkPercent] = useState('');
   
   useEffect(() => {
     const fetchProducts = async () => {
@@ -1158,20 +1387,28 @@ const PriceManager: React.FC = () => {
         const { data, error } = await supabase
           .from('products')
           .select('*')
+          .order('sort_order', { ascending: true })
           .order('id');
           
         if (error) throw error;
         
         if (data) {
-          setProducts(data.map((item: any) => ({
-            id: item.id,
-            name: item.name,
-            description: item.description,
-            price: Number(item.price) || 0,
-            original_price: item.original_price ? Number(item.original_price) : null,
-            image_url: item.image_url,
-            color: item.color
-          })));
+          const activeProducts = data.filter(item => !item.archived_at).map(toProduct);
+          setProducts(activeProducts);
+          setSavedRows(activeProducts.map(toSaveRow));
+          setArchivedProducts(data.filter(item => item.archived_at).map(toProduct));
+        }
+
+        const { data: floorConfig, error: floorError } = await supabase
+          .from('site_config')
+          .select('value')
+          .eq('key', 'upgrade_price_floor')
+          .maybeSingle();
+
+        if (floorError) throw floorError;
+        if (floorConfig?.value) {
+          setUpgradePriceFloor(floorConfig.value);
+          setSavedPriceFloor(floorConfig.value);
         }
       } catch (error) {
         console.error('Error fetching products:', error);
@@ -1196,6 +1433,175 @@ const PriceManager: React.FC = () => {
     ));
   };
   
+  const handleDeliveryCommandChange = (id: number, deliveryCommand: string) => {
+    setProducts(prevProducts => prevProducts.map(product => 
+      product.id === id ? { ...product, delivery_command: deliveryCommand } : product
+    ));
+  };
+
+  const handleRevokeCommandChange = (id: number, revokeCommand: string) => {
+    setProducts(prevProducts => prevProducts.map(product => 
+      product.id === id ? { ...product, revoke_command: revokeCommand } : product
+    ));
+  };
+  
+  const handleItemTypeChange = (id: number, itemType: ItemType) => {
+    setProducts(prevProducts => prevProducts.map(product => 
+      product.id === id ? { ...product, item_type: itemType } : product
+    ));
+  };
+
+  const handleDurationChange = (id: number, durationDays: number | null) => {
+    setProducts(prevProducts => prevProducts.map(product => 
+      product.id === id ? { ...product, duration_days: durationDays } : product
+    ));
+  };
+
+  const handleActiveChange = (id: number, active: boolean) => {
+    setProducts(prevProducts => prevProducts.map(product => 
+      product.id === id ? { ...product, active } : product
+    ));
+  };
+
+  const handleStockChange = (id: number, stock: number | null) => {
+    setProducts(prevProducts => prevProducts.map(product => 
+      product.id === id ? { ...product, stock } : product
+    ));
+  };
+
+  // Moves the dragged row to the position of the row it is dropped on
+  const handleDrop = (targetId: number) => {
+    if (draggedId === null || draggedId === targetId) return;
+
+    setProducts(prevProducts => {
+      const from = prevProducts.findIndex(product => product.id === draggedId);
+      const to = prevProducts.findIndex(product => product.id === targetId);
+      if (from < 0 || to < 0) return prevProducts;
+
+      const next = [...prevProducts];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+    setDraggedId(null);
+  };
+
+  const updateDraft = (changes: Partial<ProductDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSaveProduct = async () => {
+    const otherNames = [...products, ...archivedProducts]
+      .filter(product => product.id !== draft.id)
+      .map(product => product.name);
+    const validationError = validateProductDraft(draft, otherNames);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSavingDraft(true);
+    try {
+      const appearance = {
+        description: draft.description.trim(),
+        color: draft.color.trim(),
+        image_url: draft.image_url.trim() || null
+      };
+
+      if (draft.id) {
+        // Orders refer to products by name, so an existing product keeps its name
+        const { error } = await supabase.from('products').update(appearance).eq('id', draft.id);
+        if (error) throw error;
+
+        setProducts(prev => prev.map(product => product.id === draft.id
+          ? { ...product, ...appearance, image_url: appearance.image_url || '' }
+          : product));
+        toast.success(`${draft.name} updated successfully!`);
+      } else {
+        const template = draft.template;
+        const { data, error } = await supabase
+          .from('products')
+          .insert({
+            ...appearance,
+            name: draft.name.trim(),
+            price: Number(draft.price),
+            item_type: draft.item_type,
+            // New products stay hidden until their commands are set and they are shown
+            active: false,
+            sort_order: products.length,
+            delivery_command: template?.delivery_command ?? null,
+            revoke_command: template?.revoke_command ?? null,
+            duration_days: template?.duration_days ?? null,
+            category_id: template?.category_id ?? null,
+            perks: template?.perks ?? []
+          })
+          .select('*')
+          .single();
+
+        // 23505 = unique violation on the name
+        if (error?.code === '23505') {
+          toast.error(`A product named ${draft.name.trim()} already exists`);
+          return;
+        }
+        if (error) throw error;
+
+        const created = toProduct(data);
+        setProducts(prev => [...prev, created]);
+        setSavedRows(prev => [...prev, toSaveRow(created, data.sort_order)]);
+        toast.success(`${data.name} created. It stays hidden until you tick Shown in store and save.`);
+      }
+
+      setDraft(EMPTY_PRODUCT_DRAFT);
+    } catch (error) {
+      console.error('Error saving product:', error);
+      toast.error('Failed to save product. Please try again.');
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
+
+  const handleDeleteProduct = async (product: Product) => {
+    if (!window.confirm(`Delete ${product.name}? A product that orders include is archived instead, keeping their history.`)) return;
+
+    const { data, error } = await supabase.rpc('delete_product', { p_product_id: product.id });
+    if (error) {
+      console.error('Error deleting product:', error);
+      toast.error('Failed to delete product');
+      return;
+    }
+
+    setProducts(prev => prev.filter(p => p.id !== product.id));
+    setSavedRows(prev => prev.filter(row => row.id !== product.id));
+    setSelectedIds(prev => prev.filter(id => id !== product.id));
+    setLastSave(prev => prev && { ...prev, before: prev.before.filter(row => row.id !== product.id) });
+    if (draft.id === product.id || draft.template?.id === product.id) setDraft(EMPTY_PRODUCT_DRAFT);
+
+    if (data === 'archived') {
+      setArchivedProducts(prev => [...prev, { ...product, active: false }]);
+      toast.success(`${product.name} was archived because orders include it`);
+    } else {
+      toast.success(`${product.name} deleted`);
+    }
+  };
+
+  const handleRestoreProduct = async (product: Product) => {
+    const { error } = await supabase
+      .from('products')
+      .update({ archived_at: null, sort_order: products.length })
+      .eq('id', product.id);
+
+    if (error) {
+      console.error('Error restoring product:', error);
+      toast.error('Failed to restore product');
+      return;
+    }
+
+    setArchivedProducts(prev => prev.filter(p => p.id !== product.id));
+    setProducts(prev => [...prev, { ...product, active: false }]);
+    setSavedRows(prev => [...prev, toSaveRow({ ...product, active: false }, products.length)]);
+    toast.success(`${product.name} restored. It stays hidden until you tick Shown in store and save.`);
+  };
+
   const applyDiscount = (id: number, discountPercentage: number) => {
     const product = products.find(p => p.id === id);
     if (!product) return;
@@ -1222,27 +1628,147 @@ const PriceManager: React.FC = () => {
     ));
   };
   
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(prev => prev.length === products.length ? [] : products.map(product => product.id));
+  };
+
+  const applyToSelected = (update: (product: Product) => Product) => {
+    setProducts(prevProducts => prevProducts.map(product =>
+      selectedIds.includes(product.id) ? update(product) : product
+    ));
+  };
+
+  const handleBulkPercent = () => {
+    const percent = Number(bulkPercent);
+    if (bulkPercent === '' || !Number.isFinite(percent) || percent <= -100) {
+      toast.error('Enter a percentage above -100, e.g. -10 for 10% off or 15 for 15% more');
+      return;
+    }
+
+    applyToSelected(product => ({ ...product, price: Math.round(product.price * (100 + percent)) / 100 }));
+    setBulkPercent('');
+  };
+
+  const handleBulkRound = () => {
+    applyToSelected(product => ({ ...product, price: roundToNinetyNine(product.price) }));
+  };
+
+  const currentRows = useMemo(() => products.map(toSaveRow), [products]);
+
+  const changedRows = useMemo(() => currentRows.filter(row => {
+    const saved = savedRows.find(savedRow => savedRow.id === row.id);
+    return !saved || !isSameSaveRow(saved, row);
+  }), [currentRows, savedRows]);
+
+  const priceFloorChanged = Number(upgradePriceFloor) !== Number(savedPriceFloor);
+  const hasUnsavedChanges = changedRows.length > 0 || priceFloorChanged;
+
+  const handleReviewChanges = () => {
+    const floor = Number(upgradePriceFloor);
+    if (upgradePriceFloor === '' || !Number.isFinite(floor) || floor < 0) {
+      toast.error('The upgrade price floor must be zero or more');
+      return;
+    }
+
+    const invalidDuration = products.find(product =>
+      product.duration_days !== null && (!Number.isInteger(product.duration_days) || product.duration_days < 1)
+    );
+    if (invalidDuration) {
+      toast.error(`${invalidDuration.name}: duration must be a whole number of days, or empty for lifetime`);
+      return;
+    }
+
+    const invalidStock = products.find(product =>
+      product.stock !== null && (!Number.isInteger(product.stock) || product.stock < 0)
+    );
+    if (invalidStock) {
+      toast.error(`${invalidStock.name}: stock must be a whole number, or empty for unlimited`);
+      return;
+    }
+
+    const invalidPrice = products.find(product =>
+      !Number.isFinite(product.price) || product.price < 0 || (product.original_price !== null && product.original_price < 0)
+    );
+    if (invalidPrice) {
+      toast.error(`${invalidPrice.name}: prices must be zero or more`);
+      return;
+    }
+
+    if (!hasUnsavedChanges) {
+      toast('No changes to save');
+      return;
+    }
+
+    setShowPreview(true);
+  };
+
+  // Saves `rows` and the price floor in one transaction, so a failure changes nothing.
+  // Stock is only written where the admin changed it; without `withStock` never
+  const saveRows = async (rows: ProductSaveRow[], priceFloor: string, withStock: boolean) => {
+    const { error } = await supabase.rpc('save_product_prices', {
+      p_products: rows.map(row => toSavePayload(row, savedRows.find(saved => saved.id === row.id), withStock)),
+      p_upgrade_price_floor: Number(priceFloor)
+    });
+    if (error) throw error;
+
+    const floor = Number(priceFloor).toFixed(2);
+    setSavedRows(prev => prev.map(saved => {
+      const row = rows.find(r => r.id === saved.id);
+      return row ? { ...row, stock: withStock ? row.stock : saved.stock } : saved;
+    }));
+    setSavedPriceFloor(floor);
+    setUpgradePriceFloor(floor);
+  };
+
   const handleSavePrices = async () => {
     setIsSaving(true);
     
     try {
-      // Update each product
-      for (const product of products) {
-        const { error } = await supabase
-          .from('products')
-          .update({ 
-            price: product.price,
-            original_price: product.original_price
-          })
-          .eq('id', product.id);
-          
-        if (error) throw error;
-      }
-      
+      const before = savedRows.filter(saved => changedRows.some(row => row.id === saved.id));
+      await saveRows(changedRows, upgradePriceFloor, true);
+
+      setLastSave({ before, priceFloor: savedPriceFloor });
+      setShowPreview(false);
       toast.success('Prices updated successfully!');
     } catch (error) {
+      const pgError = error as { code?: string; message?: string };
       console.error('Error saving prices:', error);
-      toast.error('Failed to save prices. Please try again.');
+      toast.error(pgError.code === 'PT409'
+        ? `${pgError.message}. Nothing was changed.`
+        : 'Failed to save prices. Nothing was changed, please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUndoSave = async () => {
+    if (!lastSave) return;
+
+    setIsSaving(true);
+    try {
+      // Stock is never restored: orders placed since the save have reserved some of it
+      await saveRows(lastSave.before, lastSave.priceFloor, false);
+
+      // Put the rows back in their previous display order
+      setProducts(prevProducts => prevProducts
+        .map((product, index) => {
+          const before = lastSave.before.find(row => row.id === product.id);
+          return {
+            product: before ? fromSaveRow(product, { ...before, stock: product.stock }) : product,
+            position: before ? before.sort_order : index
+          };
+        })
+        .sort((a, b) => a.position - b.position)
+        .map(({ product }) => product));
+      setLastSave(null);
+      toast.success('Last save undone');
+    } catch (error) {
+      console.error('Error undoing save:', error);
+      toast.error('Failed to undo the last save. Please try again.');
     } finally {
       setIsSaving(false);
     }
@@ -1255,25 +1781,116 @@ const PriceManager: React.FC = () => {
   return (
     <div className="space-y-6">
       <AdminCard title="Price Management" icon={<DollarSign size={18} className="text-emerald-400" />}>
+        <div className="flex flex-wrap items-center gap-2 mb-4 bg-gray-700/30 px-4 py-3 rounded-xl">
+          <span className="text-sm text-gray-300 mr-2">
+            {selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Select products for bulk changes'}
+          </span>
+          <input
+            type="number"
+            step="1"
+            value={bulkPercent}
+            onChange={(e) => setBulkPercent(e.target.value)}
+            placeholder="-10"
+            disabled={selectedIds.length === 0}
+            className="w-20 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500 disabled:opacity-40"
+          />
+          <button
+            onClick={handleBulkPercent}
+            disabled={selectedIds.length === 0}
+            className="px-3 py-1 rounded-lg bg-gray-700 text-sm text-white hover:bg-gray-600 transition-colors disabled:opacity-40"
+          >
+            <Percent size={14} className="inline mr-1" />
+            Adjust price
+          </button>
+          <button
+            onClick={handleBulkRound}
+            disabled={selectedIds.length === 0}
+            className="px-3 py-1 rounded-lg bg-gray-700 text-sm text-white hover:bg-gray-600 transition-colors disabled:opacity-40"
+          >
+            Round to .99
+          </button>
+          {selectedIds.length > 0 && (
+            <button
+              onClick={() => setSelectedIds([])}
+              className="px-3 py-1 rounded-lg text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              Clear selection
+            </button>
+          )}
+        </div>
+
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead>
               <tr className="border-b border-gray-700">
+                <th className="py-3 px-2">
+                  <input
+                    type="checkbox"
+                    checked={products.length > 0 && selectedIds.length === products.length}
+                    onChange={toggleSelectAll}
+                    aria-label="Select all products"
+                    className="accent-emerald-500"
+                  />
+                </th>
+                <th className="py-3 px-2" aria-label="Reorder"></th>
                 <th className="text-left py-3 px-4 text-gray-300">Rank</th>
                 <th className="text-left py-3 px-4 text-gray-300">Description</th>
                 <th className="text-center py-3 px-4 text-gray-300">Preview</th>
-                <th className="text-left py-3 px-4 text-gray-300">Price ($)</th>
-                <th className="text-left py-3 px-4 text-gray-300">Original Price ($)</th>
+                <th className="text-left py-3 px-4 text-gray-300">Price ({storeCurrency})</th>
+                <th className="text-left py-3 px-4 text-gray-300">Original Price ({storeCurrency})</th>
+                <th className="text-left py-3 px-4 text-gray-300">Duration (days)</th>
+                <th className="text-left py-3 px-4 text-gray-300">Stock</th>
+                <th className="text-left py-3 px-4 text-gray-300">Delivery / Revoke Commands</th>
                 <th className="text-left py-3 px-4 text-gray-300">Actions</th>
               </tr>
             </thead>
             <tbody>
               {products.map((product) => (
-                <tr key={product.id} className="border-b border-gray-700">
+                <tr
+                  key={product.id}
+                  draggable
+                  onDragStart={() => setDraggedId(product.id)}
+                  onDragEnd={() => setDraggedId(null)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => handleDrop(product.id)}
+                  className={`border-b border-gray-700 ${draggedId === product.id ? 'opacity-50' : ''} ${product.active ? '' : 'bg-gray-900/40'}`}
+                >
+                  <td className="py-3 px-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(product.id)}
+                      onChange={() => toggleSelected(product.id)}
+                      aria-label={`Select ${product.name}`}
+                      className="accent-emerald-500"
+                    />
+                  </td>
+                  <td className="py-3 px-2 text-gray-500 cursor-grab" title="Drag to reorder">
+                    <GripVertical size={18} />
+                  </td>
                   <td className="py-3 px-4">
-                    <div className={`inline-block px-3 py-1 rounded text-white font-medium bg-gradient-to-r ${product.color}`}>
+                    <div className={`inline-block px-3 py-1 rounded text-white font-medium bg-gradient-to-r ${product.color} ${product.active ? '' : 'opacity-50'}`}>
                       {product.name}
                     </div>
+                    <label className="flex items-center gap-1.5 mt-2 text-xs text-gray-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={product.active}
+                        onChange={(e) => handleActiveChange(product.id, e.target.checked)}
+                        className="accent-emerald-500"
+                      />
+                      {product.active ? 'Shown in store' : (
+                        <span className="flex items-center gap-1 text-gray-400"><EyeOff size={12} /> Hidden</span>
+                      )}
+                    </label>
+                    <select
+                      value={product.item_type}
+                      onChange={(e) => handleItemTypeChange(product.id, e.target.value as ItemType)}
+                      className="block mt-2 bg-gray-700 text-white text-xs border border-gray-600 rounded px-2 py-1 focus:outline-none focus:border-emerald-500"
+                    >
+                      {ITEM_TYPES.map(type => (
+                        <option key={type} value={type}>{ITEM_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
                   </td>
                   <td className="py-3 px-4 text-gray-300">{product.description}</td>
                   <td className="py-3 px-4 text-center">
@@ -1310,7 +1927,47 @@ const PriceManager: React.FC = () => {
                     />
                   </td>
                   <td className="py-3 px-4">
-                    <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={product.duration_days ?? ''}
+                      onChange={(e) => handleDurationChange(product.id, e.target.value ? Number(e.target.value) : null)}
+                      placeholder="Lifetime"
+                      className="w-24 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+                    />
+                  </td>
+                  <td className="py-3 px-4">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={product.stock ?? ''}
+                      onChange={(e) => handleStockChange(product.id, e.target.value ? Number(e.target.value) : null)}
+                      placeholder="Unlimited"
+                      className="w-24 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+                    />
+                    {product.stock === 0 && <p className="text-xs text-red-400 mt-1">Sold out</p>}
+                  </td>
+                  <td className="py-3 px-4">
+                    <textarea
+                      value={product.delivery_command || ''}
+                      onChange={(e) => handleDeliveryCommandChange(product.id, e.target.value)}
+                      placeholder="lp user {username} parent add {rank}"
+                      rows={2}
+                      className="w-64 bg-gray-700 text-white font-mono text-xs border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+                    />
+                    <textarea
+                      value={product.revoke_command || ''}
+                      onChange={(e) => handleRevokeCommandChange(product.id, e.target.value)}
+                      placeholder="lp user {username} parent remove {rank}"
+                      title="Revoke command"
+                      rows={2}
+                      className="w-64 mt-2 bg-gray-700 text-white font-mono text-xs border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+                    />
+                  </td>
+                  <td className="py-3 px-4">
+                    <div className="flex gap-2">
                       <div className="relative">
                         <select
                           className="appearance-none bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 pr-8 focus:outline-none focus:border-emerald-500"
@@ -1350,6 +2007,28 @@ const PriceManager: React.FC = () => {
                         </button>
                       )}
                     </div>
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        onClick={() => setDraft(toProductDraft(product))}
+                        className="px-3 py-1 rounded-lg bg-gray-700 text-sm text-white hover:bg-gray-600 transition-colors"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => setDraft(toDuplicateDraft(product))}
+                        className="bg-gray-700 hover:bg-gray-600 text-white rounded px-2 py-1 transition-colors"
+                        title="Duplicate product"
+                      >
+                        <Copy size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteProduct(product)}
+                        className="bg-red-600/80 hover:bg-red-700 text-white rounded px-2 py-1 transition-colors"
+                        title="Delete product"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
                   </td>
                 </tr>
               ))}
@@ -1357,148 +2036,1132 @@ const PriceManager: React.FC = () => {
           </table>
         </div>
         
-        <div className="mt-6 flex justify-end">
-          <SaveButton 
-            isSaving={isSaving}
-            onClick={handleSavePrices}
-            disabled={isSaving}
+        <p className="mt-4 text-xs text-gray-400">
+          Delivery commands run over RCON when an order is completed, one command per line.
+          Revoke commands remove the rank again; an upgrade runs the old rank's revoke command before the new rank's delivery command.
+          Available placeholders: {'{username}'}, {'{rank}'} (the product name), {'{quantity}'}, {'{platform}'}, {'{order_number}'}.
+          Only ranks are upgraded and expire; other item types can be bought in any quantity through the store's cart.
+        </p>
+        <p className="mt-2 text-xs text-gray-400">
+          Drag rows to set the order products appear in on the store. Hidden products can't be bought.
+          Stock counts down as orders are placed and goes back up when an order is cancelled; leave it empty for unlimited.
+          Saving only writes the stock you edited, and not if an order changed it since the page loaded.
+        </p>
+        
+        <div className="mt-6 flex justify-between items-end">
+          <label className="block">
+            <span className="text-sm text-gray-300">Minimum upgrade price ({storeCurrency})</span>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={upgradePriceFloor}
+              onChange={(e) => setUpgradePriceFloor(e.target.value)}
+              className="block w-32 mt-1 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+            />
+            <span className="text-xs text-gray-500">Players upgrading pay the difference between ranks, but at least this much</span>
+          </label>
+          <div className="flex gap-2">
+            {lastSave && (
+              <button
+                onClick={handleUndoSave}
+                disabled={isSaving || hasUnsavedChanges}
+                title={hasUnsavedChanges ? 'Save or discard your current changes first' : 'Restore the values from before the last save'}
+                className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-gray-700 text-white hover:bg-gray-600 transition-colors disabled:opacity-40"
+              >
+                <RefreshCw size={16} />
+                Undo Last Save
+              </button>
+            )}
+            {!showPreview && (
+              <button
+                onClick={handleReviewChanges}
+                disabled={isSaving}
+                className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-emerald-600 text-white hover:bg-emerald-700 transition-colors disabled:opacity-40"
+              >
+                <Eye size={16} />
+                Review Changes
+              </button>
+            )}
+          </div>
+        </div>
+
+        {showPreview && (
+          <div className="mt-6 bg-gray-700/30 p-4 rounded-xl">
+            <h4 className="text-white font-medium mb-3">Changes to save</h4>
+            {hasUnsavedChanges ? (
+              <ul className="space-y-1.5 text-sm">
+                {changedRows.map(row => {
+                  const product = products.find(p => p.id === row.id)!;
+                  const saved = savedRows.find(savedRow => savedRow.id === row.id);
+                  return (
+                    <li key={row.id} className="text-gray-300">
+                      <span className="text-white font-medium">{product.name}</span>{' '}
+                      {saved ? describeProductChanges(saved, row, storeCurrency).join(', ') : 'new product'}
+                    </li>
+                  );
+                })}
+                {priceFloorChanged && (
+                  <li className="text-gray-300">
+                    <span className="text-white font-medium">Minimum upgrade price</span>{' '}
+                    {formatMoney(Number(savedPriceFloor), storeCurrency)} → {formatMoney(Number(upgradePriceFloor), storeCurrency)}
+                  </li>
+                )}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-400">Nothing left to save</p>
+            )}
+            <div className="mt-4 flex justify-between">
+              <button
+                onClick={() => setShowPreview(false)}
+                className="px-4 py-2 rounded-xl bg-gray-700 text-white hover:bg-gray-600 transition-colors"
+              >
+                Keep Editing
+              </button>
+              <SaveButton
+                isSaving={isSaving}
+                onClick={handleSavePrices}
+                disabled={isSaving || !hasUnsavedChanges}
+              />
+            </div>
+          </div>
+        )}
+      </AdminCard>
+
+      <AdminCard
+        title={draft.id ? `Edit ${draft.name}` : draft.template ? `Duplicate ${draft.template.name}` : 'New Product'}
+        icon={<Plus size={18} className="text-emerald-400" />}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-sm text-gray-300">Name</span>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              disabled={!!draft.id}
+              placeholder="ELITE"
+              className="w-full mt-1 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500 disabled:opacity-60"
+            />
+            {draft.id > 0 && (
+              <span className="text-xs text-gray-500">Orders refer to products by name, so it can't be renamed</span>
+            )}
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="text-sm text-gray-300">Item type</span>
+              <select
+                value={draft.item_type}
+                onChange={(e) => updateDraft({ item_type: e.target.value as ItemType })}
+                disabled={!!draft.id}
+                className="w-full mt-1 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500 disabled:opacity-60"
+              >
+                {ITEM_TYPES.map(type => (
+                  <option key={type} value={type}>{ITEM_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm text-gray-300">Price ({storeCurrency})</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.price}
+                onChange={(e) => updateDraft({ price: e.target.value })}
+                disabled={!!draft.id}
+                placeholder="10.00"
+                className="w-full mt-1 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500 disabled:opacity-60"
+              />
+            </label>
+          </div>
+          <label className="block">
+            <span className="text-sm text-gray-300">Color gradient</span>
+            <input
+              type="text"
+              value={draft.color}
+              onChange={(e) => updateDraft({ color: e.target.value })}
+              placeholder="from-emerald-500 to-emerald-600"
+              className="w-full mt-1 bg-gray-700 text-white font-mono text-sm border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+            />
+            {validateColorGradient(draft.color) ? (
+              <span className="text-xs text-red-400">{validateColorGradient(draft.color)}</span>
+            ) : (
+              <span className={`inline-block mt-2 px-3 py-1 rounded text-white font-medium bg-gradient-to-r ${draft.color}`}>
+                {draft.name.trim() || 'Preview'}
+              </span>
+            )}
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-300">Image URL</span>
+            <input
+              type="text"
+              value={draft.image_url}
+              onChange={(e) => updateDraft({ image_url: e.target.value })}
+              placeholder="https://i.imgur.com/NX3RB4i.png"
+              className="w-full mt-1 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+            />
+            <span className="text-xs text-gray-500">Or upload one under Images once the product is created</span>
+          </label>
+          <label className="block md:col-span-2">
+            <span className="text-sm text-gray-300">Description</span>
+            <textarea
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+              rows={3}
+              className="w-full mt-1 bg-gray-700 text-white text-sm border border-gray-600 rounded px-3 py-2 focus:outline-none focus:border-emerald-500"
+            />
+          </label>
+        </div>
+
+        {draft.template && (
+          <p className="mt-4 text-xs text-gray-400">
+            The copy takes {draft.template.name}'s delivery and revoke commands, duration, category and perks.
+            Check its commands use the new name before showing it in the store.
+          </p>
+        )}
+
+        <div className="mt-6 flex justify-between">
+          {draft.id || draft.template ? (
+            <button
+              onClick={() => setDraft(EMPTY_PRODUCT_DRAFT)}
+              className="px-4 py-2 rounded-xl bg-gray-700 text-white hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+          ) : <span />}
+          <SaveButton
+            isSaving={isSavingDraft}
+            onClick={handleSaveProduct}
+            disabled={isSavingDraft}
           />
         </div>
       </AdminCard>
+
+      {archivedProducts.length > 0 && (
+        <AdminCard title="Archived Products" icon={<Archive size={18} className="text-emerald-400" />}>
+          <p className="text-sm text-gray-400 mb-4">
+            Deleted products that orders include. They are never shown in the store, but their orders still deliver, renew and upgrade.
+          </p>
+          <div className="space-y-2">
+            {archivedProducts.map(product => (
+              <div key={product.id} className="flex items-center justify-between gap-3 bg-gray-700/30 px-4 py-2 rounded-xl">
+                <span className={`inline-block px-3 py-1 rounded text-white font-medium bg-gradient-to-r ${product.color} opacity-60`}>
+                  {product.name}
+                </span>
+                <button
+                  onClick={() => handleRestoreProduct(product)}
+                  className="px-3 py-1 rounded-lg bg-gray-700 text-sm text-white hover:bg-gray-600 transition-colors"
+                >
+                  Restore
+                </button>
+              </div>
+            ))}
+          </div>
+        </AdminCard>
+      )}
     </div>
   );
 };
 
-// Orders Manager Component
-const OrdersManager: React.FC = () => {
-  const [orders, setOrders] = useState<Order[]>([]);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Change between two rates as a signed percentage, or null without a baseline
+const percentChange = (before: number, after: number): number | null =>
+  before > 0 ? ((after - before) / before) * 100 : null;
+
+const ChangeBadge: React.FC<{ before: number; after: number }> = ({ before, after }) => {
+  const change = percentChange(before, after);
+  if (change === null) return null;
+
+  return (
+    <span className={`ml-1 text-xs ${change >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+      {change >= 0 ? '+' : ''}{change.toFixed(0)}%
+    </span>
+  );
+};
+
+// Price Impact Report Component
+const PriceImpactReport: React.FC = () => {
+  const { storeCurrency } = useCurrency();
+  const [range, setRange] = useState<PriceImpactRange>('90d');
+  const [products, setProducts] = useState<Pick<Product, 'id' | 'name' | 'color'>[]>([]);
+  const [changes, setChanges] = useState<PriceChange[]>([]);
+  const [points, setPoints] = useState<ProductSalesPoint[]>([]);
+  const [campaigns, setCampaigns] = useState<Sale[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
-  const [isModalOpen, setIsModalOpen] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
 
-  // Fetch orders with filters
-  const fetchOrders = useCallback(async () => {
-    setLoading(true);
-    try {
-      let query = supabase
-        .from('orders')
-        .select('*')
-        .order('created_at', { ascending: false });
+  useEffect(() => {
+    let cancelled = false;
 
-      // Apply search filter
-      if (searchTerm) {
-        query = query.or(`id.ilike.%${searchTerm}%,customer_name.ilike.%${searchTerm}%,customer_phone.ilike.%${searchTerm}%`);
-      }
+    const fetchReport = async () => {
+      setLoading(true);
+      try {
+        const { days, bucketDays } = PRICE_IMPACT_RANGES[range];
+        const [productsResult, historyResult, salesResult, campaignsResult] = await Promise.all([
+          supabase.from('products').select('id, name, color').order('sort_order', { ascending: true }).order('id'),
+          supabase.from('price_history').select('id, product_id, price, original_price, changed_at').order('changed_at'),
+          supabase.rpc('get_product_sales_history', { p_days: days, p_bucket_days: bucketDays }),
+          // Sale campaigns that were live at some point in the range
+          supabase
+            .from('sales')
+            .select('id, name, discount_percent, product_ids, starts_at, ends_at, created_at, updated_at')
+            .gt('ends_at', new Date(Date.now() - days * DAY_MS).toISOString())
+        ]);
 
-      // Apply status filter
-      if (statusFilter !== 'all') {
-        query = query.eq('status', statusFilter);
+        if (productsResult.error) throw productsResult.error;
+        if (historyResult.error) throw historyResult.error;
+        if (salesResult.error) throw salesResult.error;
+        if (campaignsResult.error) throw campaignsResult.error;
+        if (cancelled) return;
+
+        setProducts(productsResult.data || []);
+        setChanges((historyResult.data || []).map(change => ({
+          ...change,
+          price: Number(change.price),
+          original_price: change.original_price !== null ? Number(change.original_price) : null
+        })));
+        setPoints((salesResult.data || []).map((point: ProductSalesPoint) => ({
+          ...point,
+          revenue: Number(point.revenue) || 0
+        })));
+        setCampaigns(campaignsResult.data || []);
+      } catch (error) {
+        console.error('Error fetching price impact report:', error);
+        if (!cancelled) toast.error('Failed to load the price impact report');
+      } finally {
+        if (!cancelled) setLoading(false);
       }
+    };
 
-      const { data, error } = await query;
-      
-      if (error) throw error;
-      
-      // Ensure all orders have required properties with default values
-      const processedOrders = (data || []).map(order => ({
-        ...order,
-        total_amount: order.total_amount || 0,
-        items: order.items || [],
-        status: order.status || 'pending',
-        customer_name: order.customer_name || 'Unknown',
-        customer_phone: order.customer_phone || 'N/A'
-      }));
-      
-      setOrders(processedOrders);
-      setTotalPages(Math.ceil(processedOrders.length / 10));
-    } catch (err: any) {
-      setError(err.message);
-      toast.error('Failed to fetch orders');
+    fetchReport();
+    return () => { cancelled = true; };
+  }, [range]);
+
+  const report = useMemo(() => {
+    const rangeStart = Date.now() - PRICE_IMPACT_RANGES[range].days * DAY_MS;
+
+    return products.map(product => {
+      const productChanges = applySalesToPriceHistory(
+        product.id,
+        changes.filter(change => change.product_id === product.id),
+        campaigns
+      );
+      const productPoints = points.filter(point => point.product_id === product.id);
+      const periods = summarizePricePeriods(productChanges, productPoints, rangeStart);
+
+      return {
+        product,
+        changes: productChanges,
+        points: productPoints,
+        periods,
+        orders: productPoints.reduce((total, point) => total + point.order_count, 0),
+        revenue: productPoints.reduce((total, point) => total + point.revenue, 0)
+      };
+    }).filter(row => row.periods.length > 0 || row.orders > 0);
+  }, [products, changes, points, campaigns, range]);
+
+  const selected = report.find(row => row.product.id === selectedId) || report[0];
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <AdminCard title="Price Impact" icon={<TrendingUp size={18} className="text-emerald-400" />}>
+        <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+          <p className="text-sm text-gray-400">
+            Orders and revenue per day at each product's current price, against the price before its last change.
+            Each sale campaign counts as a price of its own. Cancelled orders are left out; revenue is before coupons.
+          </p>
+          <div className="flex rounded-md overflow-hidden border border-gray-700">
+            {(Object.keys(PRICE_IMPACT_RANGES) as PriceImpactRange[]).map(option => (
+              <button
+                key={option}
+                className={`py-1 px-3 text-sm font-medium ${
+                  range === option ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                } transition-colors`}
+                onClick={() => setRange(option)}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {report.length === 0 ? (
+          <p className="text-gray-400">No prices or orders recorded in this range</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-3 px-4 text-gray-300">Product</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Price</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Orders</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Revenue</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Orders / Day</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Revenue / Day</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map(row => {
+                  const current = row.periods[row.periods.length - 1];
+                  const previous = row.periods.length > 1 ? row.periods[row.periods.length - 2] : null;
+
+                  return (
+                    <tr
+                      key={row.product.id}
+                      onClick={() => setSelectedId(row.product.id)}
+                      className={`border-b border-gray-700 cursor-pointer hover:bg-gray-700/30 ${selected?.product.id === row.product.id ? 'bg-gray-700/40' : ''}`}
+                    >
+                      <td className="py-3 px-4">
+                        <span className={`inline-block px-3 py-1 rounded text-white font-medium bg-gradient-to-r ${row.product.color}`}>
+                          {row.product.name}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-gray-300">
+                        {current ? formatMoney(current.price, storeCurrency) : '-'}
+                        {current && previous && (
+                          <p className="text-xs text-gray-500">
+                            was {formatMoney(previous.price, storeCurrency)} until {new Date(current.start).toLocaleDateString()}
+                          </p>
+                        )}
+                        {current?.sale && <p className="text-xs text-amber-400">{current.sale}</p>}
+                      </td>
+                      <td className="py-3 px-4 text-gray-300">{row.orders}</td>
+                      <td className="py-3 px-4 text-gray-300">{formatMoney(row.revenue, storeCurrency)}</td>
+                      <td className="py-3 px-4 text-gray-300">
+                        {previous && current ? (
+                          <>
+                            {previous.ordersPerDay.toFixed(2)} → {current.ordersPerDay.toFixed(2)}
+                            <ChangeBadge before={previous.ordersPerDay} after={current.ordersPerDay} />
+                          </>
+                        ) : current ? current.ordersPerDay.toFixed(2) : '-'}
+                      </td>
+                      <td className="py-3 px-4 text-gray-300">
+                        {previous && current ? (
+                          <>
+                            {formatMoney(previous.revenuePerDay, storeCurrency)} → {formatMoney(current.revenuePerDay, storeCurrency)}
+                            <ChangeBadge before={previous.revenuePerDay} after={current.revenuePerDay} />
+                          </>
+                        ) : current ? formatMoney(current.revenuePerDay, storeCurrency) : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </AdminCard>
+
+      {selected && (
+        <AdminCard title={`${selected.product.name} Over Time`} icon={<Activity size={18} className="text-emerald-400" />}>
+          <PriceImpactChart changes={selected.changes} points={selected.points} range={range} currency={storeCurrency} />
+
+          {selected.periods.length > 0 && (
+            <div className="overflow-x-auto mt-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="text-left py-2 px-4 text-gray-300">Price</th>
+                    <th className="text-left py-2 px-4 text-gray-300">From</th>
+                    <th className="text-left py-2 px-4 text-gray-300">Until</th>
+                    <th className="text-left py-2 px-4 text-gray-300">Orders</th>
+                    <th className="text-left py-2 px-4 text-gray-300">Revenue</th>
+                    <th className="text-left py-2 px-4 text-gray-300">Revenue / Day</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...selected.periods].reverse().map(period => (
+                    <tr key={period.start} className="border-b border-gray-700/60 text-gray-300">
+                      <td className="py-2 px-4">
+                        {formatMoney(period.price, storeCurrency)}
+                        {period.original_price !== null && period.original_price > period.price && (
+                          <span className="ml-1 text-xs text-gray-500 line-through">{formatMoney(period.original_price, storeCurrency)}</span>
+                        )}
+                        {period.sale && <p className="text-xs text-amber-400">{period.sale}</p>}
+                      </td>
+                      <td className="py-2 px-4">{new Date(period.start).toLocaleDateString()}</td>
+                      <td className="py-2 px-4">{period === selected.periods[selected.periods.length - 1] ? 'Now' : new Date(period.end).toLocaleDateString()}</td>
+                      <td className="py-2 px-4">{period.orders}</td>
+                      <td className="py-2 px-4">{formatMoney(period.revenue, storeCurrency)}</td>
+                      <td className="py-2 px-4">{formatMoney(period.revenuePerDay, storeCurrency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </AdminCard>
+      )}
+    </div>
+  );
+};
+
+// Category being edited; `id` is empty until it is saved
+type CategoryDraft = ProductCategory & { key: string };
+
+const toCategoryDraft = (category: ProductCategory): CategoryDraft => ({ ...category, key: category.id });
+
+const CATEGORY_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const toCategorySlug = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const validateCategory = (category: CategoryDraft): string | null => {
+  if (!category.name.trim()) return 'Every category needs a name';
+  if (!CATEGORY_SLUG_PATTERN.test(category.slug || toCategorySlug(category.name))) {
+    return `${category.name}: the slug may only contain lowercase letters, numbers and dashes`;
+  }
+  return null;
+};
+
+// Catalog details of a product; perks are edited one per line
+interface ProductDetailsDraft {
+  id: number;
+  name: string;
+  color: string;
+  category_id: string | null;
+  description: string;
+  perks: string;
+  purchase_url: string;
+}
+
+const validateProductDetails = (product: ProductDetailsDraft): string | null => {
+  const perksError = validatePerks(parsePerks(product.perks));
+  if (perksError) return `${product.name}: ${perksError}`;
+
+  if (product.purchase_url.trim() && !/^https?:\/\/\S+$/.test(product.purchase_url.trim())) {
+    return `${product.name}: the purchase URL must start with http:// or https://`;
+  }
+  return null;
+};
+
+// Catalog Manager Component
+const CatalogManager: React.FC = () => {
+  const [categories, setCategories] = useState<CategoryDraft[]>([]);
+  const [removedCategoryIds, setRemovedCategoryIds] = useState<string[]>([]);
+  const [products, setProducts] = useState<ProductDetailsDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSavingCategories, setIsSavingCategories] = useState(false);
+  const [isSavingProducts, setIsSavingProducts] = useState(false);
+
+  const fetchCatalog = useCallback(async () => {
+    try {
+      const [categoriesResult, productsResult] = await Promise.all([
+        supabase
+          .from('product_categories')
+          .select('id, slug, name, description, sort_order')
+          .order('sort_order', { ascending: true }),
+        supabase
+          .from('products')
+          .select('id, name, color, category_id, description, perks, purchase_url')
+          .is('archived_at', null)
+          .order('id')
+      ]);
+
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (productsResult.error) throw productsResult.error;
+
+      setCategories((categoriesResult.data || []).map(toCategoryDraft));
+      setRemovedCategoryIds([]);
+      setProducts((productsResult.data || []).map(product => ({
+        id: product.id,
+        name: product.name,
+        color: product.color || 'from-emerald-500 to-emerald-600',
+        category_id: product.category_id ?? null,
+        description: product.description || '',
+        perks: (product.perks || []).join('\n'),
+        purchase_url: product.purchase_url || ''
+      })));
+    } catch (error) {
+      console.error('Error fetching catalog:', error);
+      toast.error('Failed to load the catalog');
     } finally {
       setLoading(false);
     }
-  }, [searchTerm, statusFilter]);
+  }, []);
 
   useEffect(() => {
-    fetchOrders();
-  }, [fetchOrders]);
+    fetchCatalog();
+  }, [fetchCatalog]);
 
-  // Calculate pagination
-  const filteredOrders = orders;
-  const startIndex = (currentPage - 1) * 10;
-  const paginatedOrders = filteredOrders.slice(startIndex, startIndex + 10);
+  const updateCategory = (key: string, changes: Partial<ProductCategory>) => {
+    setCategories(prev => prev.map(category => category.key === key ? { ...category, ...changes } : category));
+  };
 
-  // Handle page change
-  const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+  const updateProduct = (id: number, changes: Partial<ProductDetailsDraft>) => {
+    setProducts(prev => prev.map(product => product.id === id ? { ...product, ...changes } : product));
   };
 
-  // Handle status update with optimistic UI
-  const handleStatusChange = (orderId: string, newStatus: Order['status']) => {
-    setOrders(prev => prev.map(order => 
-      order.id === orderId ? { ...order, status: newStatus } : order
-    ));
+  const handleAddCategory = () => {
+    setCategories(prev => [...prev, {
+      key: `new-${Date.now()}`,
+      id: '',
+      slug: '',
+      name: '',
+      description: '',
+      sort_order: prev.length
+    }]);
   };
 
-  // Update the order items rendering to handle undefined values
-  const renderOrderItems = (items: Order['items']) => {
-    if (!items || !Array.isArray(items)) return null;
-    
-    return items.map((item, index) => (
-      <div key={index} className="flex justify-between py-2">
-        <span>{item.name || 'Unknown Item'}</span>
-        <span>${(item.price || 0).toFixed(2)}</span>
-      </div>
-    ));
+  const handleRemoveCategory = (category: CategoryDraft) => {
+    if (category.id) setRemovedCategoryIds(prev => [...prev, category.id]);
+    setCategories(prev => prev.filter(c => c.key !== category.key));
   };
 
-  return (
-    <div className="space-y-6">
-      {/* Search and Filter Controls */}
-      <div className="flex flex-col md:flex-row gap-4">
-        <div className="flex-1">
-          <div className="relative">
-            <input
-              type="text"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              placeholder="Search orders by ID, name, or phone..."
-              className="w-full bg-gray-700/50 text-white border border-gray-600/80 rounded-xl px-4 py-2 pl-10 focus:outline-none focus:border-emerald-500/70 focus:ring-1 focus:ring-emerald-500/50 transition-colors"
-            />
-            <div className="absolute left-3 top-2.5 text-gray-400">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-              </svg>
-            </div>
-          </div>
-        </div>
-        <div className="flex gap-4">
-          <select
-            value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value)}
-            className="bg-gray-700/50 text-white border border-gray-600/80 rounded-xl px-4 py-2 focus:outline-none focus:border-emerald-500/70 focus:ring-1 focus:ring-emerald-500/50 transition-colors"
-          >
-            <option value="all">All Status</option>
-            <option value="pending">Pending</option>
-            <option value="processing">Processing</option>
-            <option value="completed">Completed</option>
-            <option value="cancelled">Cancelled</option>
-          </select>
-        </div>
-      </div>
+  const handleMoveCategory = (index: number, offset: number) => {
+    setCategories(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
 
-      {/* Orders Table */}
-      <div className="bg-gray-800/50 rounded-xl shadow overflow-hidden border border-gray-700/50">
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-700">
-            <thead className="bg-gray-700/30">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Order ID</th>
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSaveCategories = async () => {
+    const validationError = categories.map(validateCategory).find(Boolean);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    const slugs = categories.map(category => category.slug || toCategorySlug(category.name));
+    const duplicate = slugs.find((slug, index) => slugs.indexOf(slug) !== index);
+    if (duplicate) {
+      toast.error(`Two categories use the slug "${duplicate}"`);
+      return;
+    }
+
+    setIsSavingCategories(true);
+    try {
+      if (removedCategoryIds.length > 0) {
+        const { error } = await supabase.from('product_categories').delete().in('id', removedCategoryIds);
+        if (error) throw error;
+      }
+
+      for (const [index, category] of categories.entries()) {
+        const fields = {
+          slug: slugs[index],
+          name: category.name.trim(),
+          description: category.description.trim(),
+          sort_order: index
+        };
+
+        const { error } = category.id
+          ? await supabase.from('product_categories').update(fields).eq('id', category.id)
+          : await supabase.from('product_categories').insert(fields);
+
+        if (error) throw error;
+      }
+
+      toast.success('Categories updated successfully!');
+      fetchCatalog();
+    } catch (error) {
+      console.error('Error saving categories:', error);
+      toast.error('Failed to save categories. Please try again.');
+    } finally {
+      setIsSavingCategories(false);
+    }
+  };
+
+  const handleSaveProducts = async () => {
+    const validationError = products.map(validateProductDetails).find(Boolean);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSavingProducts(true);
+    try {
+      for (const product of products) {
+        const { error } = await supabase
+          .from('products')
+          .update({
+            category_id: product.category_id,
+            description: product.description.trim(),
+            perks: parsePerks(product.perks),
+            purchase_url: product.purchase_url.trim() || null
+          })
+          .eq('id', product.id);
+
+        if (error) throw error;
+      }
+
+      toast.success('Product details updated successfully!');
+    } catch (error) {
+      console.error('Error saving product details:', error);
+      toast.error('Failed to save product details. Please try again.');
+    } finally {
+      setIsSavingProducts(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const savedCategories = categories.filter(category => category.id);
+
+  return (
+    <div className="space-y-6">
+      <AdminCard title="Categories" icon={<LayoutGrid size={18} className="text-emerald-400" />}>
+        <p className="text-sm text-gray-400 mb-4">
+          Categories are the tabs of the store's catalog, in this order. Tabs without products are hidden.
+        </p>
+
+        <div className="space-y-4">
+          {categories.map((category, index) => (
+            <div key={category.key} className="grid grid-cols-1 md:grid-cols-6 gap-3 bg-gray-700/30 p-4 rounded-xl">
+              <input
+                type="text"
+                value={category.name}
+                onChange={(e) => updateCategory(category.key, { name: e.target.value })}
+                placeholder="Name"
+                className="md:col-span-2 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+              />
+              <input
+                type="text"
+                value={category.slug}
+                onChange={(e) => updateCategory(category.key, { slug: e.target.value.toLowerCase() })}
+                placeholder={toCategorySlug(category.name) || 'slug'}
+                className="md:col-span-2 bg-gray-700 text-white font-mono border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleMoveCategory(index, -1)}
+                  disabled={index === 0}
+                  className="flex-1 bg-gray-700 hover:bg-gray-600 text-white rounded px-2 py-1 transition-colors disabled:opacity-40"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => handleMoveCategory(index, 1)}
+                  disabled={index === categories.length - 1}
+                  className="flex-1 bg-gray-700 hover:bg-gray-600 text-white rounded px-2 py-1 transition-colors disabled:opacity-40"
+                  title="Move down"
+                >
+                  ↓
+                </button>
+              </div>
+              <button
+                onClick={() => handleRemoveCategory(category)}
+                className="flex items-center justify-center gap-1.5 bg-red-600/80 hover:bg-red-700 text-white rounded px-2 py-1 transition-colors"
+                title="Remove category"
+              >
+                <Trash2 size={16} />
+              </button>
+              <input
+                type="text"
+                value={category.description}
+                onChange={(e) => updateCategory(category.key, { description: e.target.value })}
+                placeholder="Description shown above the tab's products"
+                className="md:col-span-6 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-6 flex justify-between">
+          <button
+            onClick={handleAddCategory}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-gray-700 text-white hover:bg-gray-600 transition-colors"
+          >
+            <Plus size={16} />
+            Add Category
+          </button>
+          <SaveButton
+            isSaving={isSavingCategories}
+            onClick={handleSaveCategories}
+            disabled={isSavingCategories}
+          />
+        </div>
+      </AdminCard>
+
+      <AdminCard title="Product Details" icon={<FileText size={18} className="text-emerald-400" />}>
+        <p className="text-sm text-gray-400 mb-4">
+          Descriptions and perks shown on the store's product cards, one perk per line.
+          Products with a purchase URL link to that store instead of being added to the cart.
+        </p>
+
+        <div className="space-y-4">
+          {products.map(product => (
+            <div key={product.id} className="grid grid-cols-1 md:grid-cols-2 gap-3 bg-gray-700/30 p-4 rounded-xl">
+              <div className="md:col-span-2 flex flex-wrap items-center justify-between gap-3">
+                <span className={`inline-block px-3 py-1 rounded text-white font-medium bg-gradient-to-r ${product.color}`}>
+                  {product.name}
+                </span>
+                <select
+                  value={product.category_id ?? ''}
+                  onChange={(e) => updateProduct(product.id, { category_id: e.target.value || null })}
+                  className="bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+                >
+                  <option value="">No category</option>
+                  {savedCategories.map(category => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+                </select>
+              </div>
+              <textarea
+                value={product.description}
+                onChange={(e) => updateProduct(product.id, { description: e.target.value })}
+                placeholder="Description"
+                rows={4}
+                className="bg-gray-700 text-white text-sm border border-gray-600 rounded px-3 py-2 focus:outline-none focus:border-emerald-500"
+              />
+              <textarea
+                value={product.perks}
+                onChange={(e) => updateProduct(product.id, { perks: e.target.value })}
+                placeholder="Perks, one per line"
+                rows={4}
+                className="bg-gray-700 text-white text-sm border border-gray-600 rounded px-3 py-2 focus:outline-none focus:border-emerald-500"
+              />
+              <input
+                type="url"
+                value={product.purchase_url}
+                onChange={(e) => updateProduct(product.id, { purchase_url: e.target.value })}
+                placeholder="External purchase URL (optional)"
+                className="md:col-span-2 bg-gray-700 text-white text-sm border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <SaveButton
+            isSaving={isSavingProducts}
+            onClick={handleSaveProducts}
+            disabled={isSavingProducts}
+          />
+        </div>
+      </AdminCard>
+    </div>
+  );
+};
+
+type DeliveryResult = Pick<Order, 'order_number' | 'delivery_status' | 'delivery_error' | 'delivery_player_name'>;
+
+// Ask the deliver-order function to run delivery for a completed order now
+const requestDelivery = async (orderId: string, skipOnlineCheck = false): Promise<DeliveryResult> => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch('/.netlify/functions/deliver-order', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session?.access_token || ''}`
+    },
+    body: JSON.stringify({ orderId, skipOnlineCheck })
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(result.message || `Delivery failed with status ${response.status}`);
+  }
+
+  return result.delivery;
+};
+
+const notifyDeliveryResult = (delivery: DeliveryResult) => {
+  if (delivery.delivery_status === 'delivered') {
+    toast.success(`Order ${delivery.order_number} delivered to the server`);
+  } else if (delivery.delivery_status === 'waiting_for_player') {
+    toast(`Order ${delivery.order_number} will be delivered when ${delivery.delivery_player_name} is online`);
+  } else {
+    toast.error(`Delivery for ${delivery.order_number} failed: ${delivery.delivery_error || 'unknown error'}`);
+  }
+};
+
+// Orders Manager Component
+const OrdersManager: React.FC = () => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  // Fetch orders with filters
+  const fetchOrders = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('orders')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      // Apply search filter
+      if (searchTerm) {
+        query = query.or(`order_number.ilike.%${searchTerm}%,customer_name.ilike.%${searchTerm}%,customer_phone.ilike.%${searchTerm}%`);
+      }
+
+      // Apply status filter
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      
+      if (error) throw error;
+      
+      // Ensure all orders have required properties with default values
+      const processedOrders = (data || []).map(normalizeOrder);
+      
+      setOrders(processedOrders);
+      setTotalPages(Math.ceil(processedOrders.length / 10));
+    } catch (err: any) {
+      setError(err.message);
+      toast.error('Failed to fetch orders');
+    } finally {
+      setLoading(false);
+    }
+  }, [searchTerm, statusFilter]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  // Calculate pagination
+  const filteredOrders = orders;
+  const startIndex = (currentPage - 1) * 10;
+  const paginatedOrders = filteredOrders.slice(startIndex, startIndex + 10);
+
+  // Handle page change
+  const handlePageChange = (page: number) => {
+    setCurrentPage(page);
+  };
+
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
+  const [orderEvents, setOrderEvents] = useState<OrderEvent[]>([]);
+  const [eventsLoading, setEventsLoading] = useState(false);
+  const [orderNote, setOrderNote] = useState('');
+  const [noteCustomerVisible, setNoteCustomerVisible] = useState(false);
+  const [addingNote, setAddingNote] = useState(false);
+  const [deliveringOrderId, setDeliveringOrderId] = useState<string | null>(null);
+
+  // Fetch the audit trail of an order
+  const fetchOrderEvents = useCallback(async (orderId: string) => {
+    setEventsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('order_events')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setOrderEvents(data || []);
+    } catch (err) {
+      console.error('Error fetching order history:', err);
+      toast.error('Failed to load order history');
+    } finally {
+      setEventsLoading(false);
+    }
+  }, []);
+
+  const selectedOrderId = selectedOrder?.id;
+
+  // Load history whenever a different order is opened
+  useEffect(() => {
+    if (!isModalOpen || !selectedOrderId) return;
+    setOrderEvents([]);
+    setOrderNote('');
+    setNoteCustomerVisible(false);
+    fetchOrderEvents(selectedOrderId);
+  }, [isModalOpen, selectedOrderId, fetchOrderEvents]);
+
+  // Replace an order in the list and in the open details modal
+  const applyOrderUpdate = useCallback((updated: Order) => {
+    setOrders(prev => prev.map(order => order.id === updated.id ? updated : order));
+    setSelectedOrder(prev => prev && prev.id === updated.id ? updated : prev);
+  }, []);
+
+  // Run RCON delivery for a completed order now instead of waiting for the queue
+  const triggerDelivery = async (order: Order, skipOnlineCheck = false) => {
+    setDeliveringOrderId(order.id);
+    try {
+      notifyDeliveryResult(await requestDelivery(order.id, skipOnlineCheck));
+    } catch (err) {
+      console.error('Error delivering order:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to run delivery');
+    } finally {
+      setDeliveringOrderId(null);
+
+      // Pick up the delivery result recorded on the order
+      const { data } = await supabase.from('orders').select('*').eq('id', order.id).single();
+      if (data) applyOrderUpdate(normalizeOrder(data));
+    }
+  };
+
+  // Handle status update with optimistic UI, rolled back if the database rejects it
+  const handleStatusChange = async (order: Order, newStatus: OrderStatus) => {
+    if (order.status === newStatus) return;
+
+    if (!canTransitionOrder(order.status, newStatus)) {
+      toast.error(`Cannot change an order from ${order.status} to ${newStatus}`);
+      return;
+    }
+
+    applyOrderUpdate({ ...order, status: newStatus });
+    setUpdatingOrderId(order.id);
+
+    try {
+      const { data, error } = await supabase.rpc('update_order_status', {
+        p_order_id: order.id,
+        p_from_status: order.status,
+        p_to_status: newStatus,
+        p_note: orderNote.trim() || null,
+        p_note_customer_visible: noteCustomerVisible
+      });
+
+      if (error) throw error;
+
+      const updated = normalizeOrder(data);
+      applyOrderUpdate(updated);
+      setOrderNote('');
+      setNoteCustomerVisible(false);
+      fetchOrderEvents(order.id);
+      toast.success(`Order ${order.order_number} marked as ${newStatus}`);
+
+      if (updated.status === 'completed') {
+        triggerDelivery(updated);
+      }
+    } catch (err) {
+      const pgError = err as { code?: string; message?: string };
+      applyOrderUpdate(order);
+
+      if (pgError.code === 'PT409') {
+        toast.error(`Order ${order.order_number} was updated by another admin. Showing the latest status.`);
+        fetchOrders();
+      } else {
+        console.error('Error updating order status:', err);
+        toast.error(pgError.message || 'Failed to update order status');
+      }
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  // Add a standalone note to the order history
+  const handleAddNote = async (order: Order) => {
+    const note = orderNote.trim();
+    if (!note) return;
+
+    setAddingNote(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('order_events')
+        .insert({
+          order_id: order.id,
+          event_type: 'note',
+          note,
+          customer_visible: noteCustomerVisible,
+          actor_id: user?.id,
+          actor_email: user?.email
+        });
+
+      if (error) throw error;
+
+      setOrderNote('');
+      setNoteCustomerVisible(false);
+      fetchOrderEvents(order.id);
+      toast.success('Note added');
+    } catch (err) {
+      console.error('Error adding order note:', err);
+      toast.error('Failed to add note');
+    } finally {
+      setAddingNote(false);
+    }
+  };
+
+  const describeOrderEvent = (event: OrderEvent) => {
+    switch (event.event_type) {
+      case 'created':
+        return 'Order placed';
+      case 'status_changed':
+        return `Status changed from ${event.from_status} to ${event.to_status}`;
+      default:
+        return 'Note added';
+    }
+  };
+
+  // Update the order items rendering to handle undefined values
+  const renderOrderItems = (items: Order['items'], currency: string) => {
+    if (!items || !Array.isArray(items)) return null;
+    
+    return items.map((item, index) => (
+      <div key={index} className="flex justify-between py-2">
+        <span>
+          {item.name ? formatOrderItemName(item) : 'Unknown Item'}
+          {item.delivery_status && (
+            <span className={`ml-2 text-xs ${
+              item.delivery_status === 'delivered' ? 'text-emerald-400'
+                : item.delivery_status === 'failed' ? 'text-red-400' : 'text-yellow-400'
+            }`}>
+              {item.delivery_status}
+            </span>
+          )}
+          {item.delivery_error && <p className="text-xs text-red-400">{item.delivery_error}</p>}
+        </span>
+        <span>{formatMoney(item.price || 0, currency)}</span>
+      </div>
+    ));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Search and Filter Controls */}
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="flex-1">
+          <div className="relative">
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search orders by ID, name, or phone..."
+              className="w-full bg-gray-700/50 text-white border border-gray-600/80 rounded-xl px-4 py-2 pl-10 focus:outline-none focus:border-emerald-500/70 focus:ring-1 focus:ring-emerald-500/50 transition-colors"
+            />
+            <div className="absolute left-3 top-2.5 text-gray-400">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+              </svg>
+            </div>
+          </div>
+        </div>
+        <div className="flex gap-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="bg-gray-700/50 text-white border border-gray-600/80 rounded-xl px-4 py-2 focus:outline-none focus:border-emerald-500/70 focus:ring-1 focus:ring-emerald-500/50 transition-colors"
+          >
+            <option value="all">All Status</option>
+            <option value="pending">Pending</option>
+            <option value="processing">Processing</option>
+            <option value="completed">Completed</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Orders Table */}
+      <div className="bg-gray-800/50 rounded-xl shadow overflow-hidden border border-gray-700/50">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead className="bg-gray-700/30">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Order ID</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Customer</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Date</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Amount</th>
@@ -1517,182 +3180,2026 @@ const OrdersManager: React.FC = () => {
                         <div className="absolute inset-0 flex items-center justify-center">
                           <Settings size={16} className="text-emerald-400" />
                         </div>
-                      </div>
-                    </div>
-                  </td>
+                      </div>
+                    </div>
+                  </td>
+                </tr>
+              ) : paginatedOrders.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-gray-400">
+                    No orders found
+                  </td>
+                </tr>
+              ) : (
+                paginatedOrders.map((order) => (
+                  <tr key={order.id} className="hover:bg-gray-700/30 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-white">
+                      {order.order_number}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {order.customer_name || 'Unknown'}
+                      {order.gift_recipient_name && (
+                        <span className="ml-1.5 text-xs text-pink-400">→ {order.gift_recipient_name}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {new Date(order.created_at).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {formatMoney(order.total_amount || 0, order.currency)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-3 py-1 rounded-full text-sm font-medium border ${
+                        order.status === 'pending' ? 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' :
+                        order.status === 'processing' ? 'bg-blue-500/20 text-blue-400 border-blue-500/30' :
+                        order.status === 'completed' ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' :
+                        'bg-red-500/20 text-red-400 border-red-500/30'
+                      }`}>
+                        {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      <button
+                        onClick={() => {
+                          setSelectedOrder(order);
+                          setIsModalOpen(true);
+                        }}
+                        className="text-emerald-400 hover:text-emerald-300 transition-colors"
+                      >
+                        View Details
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="px-6 py-4 flex items-center justify-between border-t border-gray-700">
+            <div className="flex-1 flex justify-between sm:hidden">
+              <button
+                onClick={() => handlePageChange(currentPage - 1)}
+                disabled={currentPage === 1}
+                className="relative inline-flex items-center px-4 py-2 border border-gray-700 text-sm font-medium rounded-md text-gray-300 bg-gray-800 hover:bg-gray-700 transition-colors"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => handlePageChange(currentPage + 1)}
+                disabled={currentPage === totalPages}
+                className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-700 text-sm font-medium rounded-md text-gray-300 bg-gray-800 hover:bg-gray-700 transition-colors"
+              >
+                Next
+              </button>
+            </div>
+            <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
+              <div>
+                <p className="text-sm text-gray-400">
+                  Showing <span className="font-medium text-white">{startIndex + 1}</span> to{' '}
+                  <span className="font-medium text-white">
+                    {Math.min(startIndex + 10, filteredOrders.length)}
+                  </span>{' '}
+                  of <span className="font-medium text-white">{filteredOrders.length}</span> results
+                </p>
+              </div>
+              <div>
+                <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px" aria-label="Pagination">
+                  {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
+                    <button
+                      key={page}
+                      onClick={() => handlePageChange(page)}
+                      className={`relative inline-flex items-center px-4 py-2 border text-sm font-medium ${
+                        currentPage === page
+                          ? 'z-10 bg-emerald-500/20 border-emerald-500/50 text-emerald-400'
+                          : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700 transition-colors'
+                      }`}
+                    >
+                      {page}
+                    </button>
+                  ))}
+                </nav>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Order Details Modal */}
+      {isModalOpen && selectedOrder && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="bg-gray-800 rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-gray-700/50">
+            <div className="p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-lg font-medium text-white">Order Details</h3>
+                  <p className="text-sm text-gray-400">Order #{selectedOrder.order_number}</p>
+                </div>
+                <button
+                  onClick={() => setIsModalOpen(false)}
+                  className="text-gray-400 hover:text-gray-300 transition-colors"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+              
+              <div className="grid grid-cols-2 gap-4 mb-6">
+                <div>
+                  <h4 className="text-sm font-medium text-gray-400">Customer</h4>
+                  <p className="mt-1 text-white">{selectedOrder.customer_name || 'Unknown'}</p>
+                  <p className="text-sm text-gray-400">{selectedOrder.customer_phone || 'N/A'}</p>
+                  {selectedOrder.gift_recipient_name && (
+                    <>
+                      <p className="mt-2 text-sm text-pink-400">
+                        Gift for {selectedOrder.gift_recipient_name} ({selectedOrder.gift_recipient_platform})
+                      </p>
+                      {selectedOrder.gift_message && (
+                        <p className="text-sm text-gray-400 italic break-words">"{selectedOrder.gift_message}"</p>
+                      )}
+                    </>
+                  )}
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium text-gray-400">Order Date</h4>
+                  <p className="mt-1 text-white">{new Date(selectedOrder.created_at).toLocaleDateString()}</p>
+                  {selectedOrder.updated_by_email && (
+                    <p className="text-sm text-gray-400">
+                      Last updated {new Date(selectedOrder.updated_at).toLocaleString()} by {selectedOrder.updated_by_email}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="mb-6">
+                <h4 className="text-sm font-medium text-gray-400">Order Items</h4>
+                <div className="mt-2 space-y-2">
+                  {renderOrderItems(selectedOrder.items, selectedOrder.currency)}
+                </div>
+              </div>
+
+              <div className="flex justify-between items-center">
+                <div>
+                  <h4 className="text-sm font-medium text-gray-400">Total Amount</h4>
+                  <p className="text-lg font-medium text-white">{formatMoney(selectedOrder.total_amount || 0, selectedOrder.currency)}</p>
+                  {selectedOrder.order_type === 'upgrade' && (
+                    <p className="text-xs text-blue-400">Upgrade from {selectedOrder.upgrade_from}</p>
+                  )}
+                  {selectedOrder.coupon_code && (
+                    <p className="text-xs text-emerald-400">
+                      {selectedOrder.coupon_code} saved {formatMoney(selectedOrder.discount_amount, selectedOrder.currency)}
+                    </p>
+                  )}
+                  {selectedOrder.payment_method && (
+                    <p className="text-xs text-gray-400">
+                      Paid with {selectedOrder.payment_method}
+                      {selectedOrder.payment_fee > 0 && ` (incl. ${formatMoney(selectedOrder.payment_fee, selectedOrder.currency)} fee)`}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium text-gray-400">Status</h4>
+                  <select
+                    value={selectedOrder.status || 'pending'}
+                    onChange={(e) => handleStatusChange(selectedOrder, e.target.value as OrderStatus)}
+                    disabled={updatingOrderId === selectedOrder.id || ORDER_STATUS_TRANSITIONS[selectedOrder.status].length === 0}
+                    className="mt-1 block w-full rounded-xl border-gray-700 bg-gray-800 text-white focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm disabled:opacity-50"
+                  >
+                    {[selectedOrder.status, ...ORDER_STATUS_TRANSITIONS[selectedOrder.status]].map(status => (
+                      <option key={status} value={status}>
+                        {status.charAt(0).toUpperCase() + status.slice(1)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {selectedOrder.delivery_status !== 'none' && (
+                <div className="mt-6">
+                  <div className="flex justify-between items-center">
+                    <h4 className="text-sm font-medium text-gray-400">Delivery</h4>
+                    {selectedOrder.status === 'completed' && ['pending', 'waiting_for_player', 'failed'].includes(selectedOrder.delivery_status) && (
+                      <button
+                        onClick={() => triggerDelivery(selectedOrder, true)}
+                        disabled={deliveringOrderId === selectedOrder.id}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-700 text-sm text-white hover:bg-gray-600 transition-colors disabled:opacity-50"
+                      >
+                        <RefreshCw size={14} className={deliveringOrderId === selectedOrder.id ? 'animate-spin' : ''} />
+                        Deliver now
+                      </button>
+                    )}
+                  </div>
+                  <p className="mt-1 text-white capitalize">
+                    {selectedOrder.delivery_status === 'waiting_for_player' ? 'Waiting for player' : selectedOrder.delivery_status}
+                    {selectedOrder.delivery_player_name && (
+                      <span className="ml-2 normal-case text-sm text-gray-400 font-mono">{selectedOrder.delivery_player_name}</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-400">
+                    {selectedOrder.delivery_attempts} attempt{selectedOrder.delivery_attempts === 1 ? '' : 's'}
+                    {selectedOrder.delivered_at && ` · delivered ${new Date(selectedOrder.delivered_at).toLocaleString()}`}
+                    {selectedOrder.delivery_waiting_since && selectedOrder.delivery_status === 'waiting_for_player' &&
+                      ` · offline since ${new Date(selectedOrder.delivery_waiting_since).toLocaleString()}`}
+                    {['pending', 'waiting_for_player'].includes(selectedOrder.delivery_status) && selectedOrder.next_delivery_at &&
+                      ` · next attempt ${new Date(selectedOrder.next_delivery_at).toLocaleString()}`}
+                  </p>
+                  {selectedOrder.delivery_error && selectedOrder.delivery_status !== 'delivered' && (
+                    <p className="mt-1 text-sm text-red-400">{selectedOrder.delivery_error}</p>
+                  )}
+                  {selectedOrder.delivery_response && (
+                    <pre className="mt-2 max-h-40 overflow-auto rounded-lg bg-gray-900 p-3 text-xs text-gray-300 whitespace-pre-wrap">
+                      {selectedOrder.delivery_response}
+                    </pre>
+                  )}
+                </div>
+              )}
+
+              {selectedOrder.expires_at && (
+                <div className="mt-6">
+                  <h4 className="text-sm font-medium text-gray-400">Rank Term</h4>
+                  <p className="mt-1 text-white">
+                    {selectedOrder.revoked_at
+                      ? `Expired and revoked ${new Date(selectedOrder.revoked_at).toLocaleString()}`
+                      : selectedOrder.superseded_by
+                        ? 'Renewed or upgraded by a later order'
+                        : `${new Date(selectedOrder.expires_at).getTime() > Date.now() ? 'Expires' : 'Expired'} ${new Date(selectedOrder.expires_at).toLocaleString()}`}
+                  </p>
+                  {selectedOrder.revoke_error && !selectedOrder.revoked_at && (
+                    <p className="mt-1 text-sm text-red-400">
+                      Revoke failed after {selectedOrder.revoke_attempts} attempt{selectedOrder.revoke_attempts === 1 ? '' : 's'}: {selectedOrder.revoke_error}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="mt-6">
+                <label htmlFor="order-note" className="text-sm font-medium text-gray-400">Note</label>
+                <textarea
+                  id="order-note"
+                  value={orderNote}
+                  onChange={(e) => setOrderNote(e.target.value)}
+                  rows={2}
+                  placeholder="Saved with the next status change, or add it on its own"
+                  className="mt-1 block w-full rounded-xl border-gray-700 bg-gray-900 text-white placeholder-gray-500 focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm"
+                />
+                <div className="mt-2 flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-sm text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={noteCustomerVisible}
+                      onChange={(e) => setNoteCustomerVisible(e.target.checked)}
+                      className="rounded border-gray-600 bg-gray-900 text-emerald-500 focus:ring-emerald-500"
+                    />
+                    Visible to customer
+                  </label>
+                  <button
+                    onClick={() => handleAddNote(selectedOrder)}
+                    disabled={addingNote || !orderNote.trim()}
+                    className="px-3 py-1.5 rounded-lg bg-gray-700 text-sm text-white hover:bg-gray-600 transition-colors disabled:opacity-50"
+                  >
+                    {addingNote ? 'Adding...' : 'Add Note'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="mt-6">
+                <h4 className="text-sm font-medium text-gray-400 mb-3">History</h4>
+                {eventsLoading && orderEvents.length === 0 ? (
+                  <p className="text-sm text-gray-500">Loading history...</p>
+                ) : orderEvents.length === 0 ? (
+                  <p className="text-sm text-gray-500">No history recorded for this order</p>
+                ) : (
+                  <ol className="space-y-3">
+                    {orderEvents.map(event => (
+                      <li key={event.id} className="flex gap-3">
+                        <div className="mt-0.5 shrink-0 text-gray-500">
+                          {event.event_type === 'note' ? <MessageSquare size={16} /> : <Clock size={16} />}
+                        </div>
+                        <div className="min-w-0">
+                          <p className="text-sm text-white">{describeOrderEvent(event)}</p>
+                          {event.note && (
+                            <p className="text-sm text-gray-300 whitespace-pre-wrap break-words">
+                              {event.note}
+                              {event.customer_visible && (
+                                <span className="ml-2 inline-flex items-center gap-1 text-xs text-emerald-400">
+                                  <Eye size={12} /> Customer
+                                </span>
+                              )}
+                            </p>
+                          )}
+                          <p className="text-xs text-gray-500">
+                            {new Date(event.created_at).toLocaleString()} · {event.actor_email || 'System'}
+                          </p>
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Deliveries still queued this long after the order was completed need a look
+const STUCK_DELIVERY_MS = 30 * 60 * 1000;
+
+// Deliveries Manager Component
+const DeliveriesManager: React.FC = () => {
+  const [deliveries, setDeliveries] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deliveringOrderId, setDeliveringOrderId] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*')
+        .eq('status', 'completed')
+        .in('delivery_status', ['pending', 'waiting_for_player', 'delivering', 'failed'])
+        .order('delivery_queued_at', { ascending: true });
+
+      if (error) throw error;
+      setDeliveries((data || []).map(normalizeOrder));
+    } catch (err) {
+      console.error('Error fetching deliveries:', err);
+      toast.error('Failed to load deliveries');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const stuckDeliveries = useMemo(() => deliveries.filter(order =>
+    order.delivery_status === 'failed' ||
+    Date.now() - new Date(order.delivery_queued_at || order.updated_at).getTime() > STUCK_DELIVERY_MS
+  ), [deliveries]);
+
+  const handleDeliverNow = async (order: Order) => {
+    setDeliveringOrderId(order.id);
+    try {
+      notifyDeliveryResult(await requestDelivery(order.id, true));
+    } catch (err) {
+      console.error('Error delivering order:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to run delivery');
+    } finally {
+      setDeliveringOrderId(null);
+      fetchDeliveries();
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <AdminCard title="Stuck Deliveries" icon={<Truck size={18} className="text-emerald-400" />}>
+        <p className="text-sm text-gray-400 mb-4">
+          {deliveries.length} deliveries queued, {stuckDeliveries.length} failed or waiting for more than {STUCK_DELIVERY_MS / 60000} minutes.
+        </p>
+
+        {stuckDeliveries.length === 0 ? (
+          <p className="text-gray-400">No stuck deliveries</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-3 px-4 text-gray-300">Order</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Player</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Rank</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Status</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Last Error</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stuckDeliveries.map(order => (
+                  <tr key={order.id} className="border-b border-gray-700">
+                    <td className="py-3 px-4 text-white">
+                      {order.order_number}
+                      <p className="text-xs text-gray-400">
+                        Completed {new Date(order.delivery_queued_at || order.updated_at).toLocaleString()}
+                      </p>
+                    </td>
+                    <td className="py-3 px-4 text-gray-300">
+                      <span className="font-mono">{order.delivery_player_name || order.customer_name}</span>
+                      <p className="text-xs text-gray-400 capitalize">{order.platform}</p>
+                    </td>
+                    <td className="py-3 px-4 text-gray-300">
+                      {order.rank_name || order.items.map(formatOrderItemName).join(', ')}
+                    </td>
+                    <td className="py-3 px-4 text-gray-300">
+                      {order.delivery_status === 'waiting_for_player' ? 'Waiting for player' : order.delivery_status}
+                      <p className="text-xs text-gray-400">
+                        {order.delivery_attempts} attempt{order.delivery_attempts === 1 ? '' : 's'}
+                      </p>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-red-400">{order.delivery_error || '-'}</td>
+                    <td className="py-3 px-4">
+                      <button
+                        onClick={() => handleDeliverNow(order)}
+                        disabled={deliveringOrderId === order.id || order.delivery_status === 'delivering'}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-700 text-sm text-white hover:bg-gray-600 transition-colors disabled:opacity-50"
+                      >
+                        <RefreshCw size={14} className={deliveringOrderId === order.id ? 'animate-spin' : ''} />
+                        Deliver now
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </AdminCard>
+    </div>
+  );
+};
+
+// Server being edited; `id` is empty until it is saved
+type ServerDraft = ServerDefinition & { key: string };
+
+const toServerDraft = (server: ServerDefinition): ServerDraft => ({ ...server, key: server.id });
+
+const validateServer = (server: ServerDraft): string | null => {
+  if (!server.name.trim()) return 'Every server needs a name';
+  if (!server.host.trim()) return `${server.name} needs a host`;
+  if (!server.java_port && !server.bedrock_port) return `${server.name} needs a Java or Bedrock port`;
+
+  const invalidPort = [server.java_port, server.bedrock_port].some(port =>
+    port !== null && (!Number.isInteger(port) || port < 1 || port > 65535)
+  );
+  if (invalidPort) return `${server.name} has an invalid port`;
+
+  return null;
+};
+
+// Servers Manager Component
+const ServersManager: React.FC = () => {
+  const [servers, setServers] = useState<ServerDraft[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchServers = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('servers')
+        .select('id, name, host, java_port, bedrock_port, description, sort_order')
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      setServers((data || []).map(toServerDraft));
+      setRemovedIds([]);
+    } catch (error) {
+      console.error('Error fetching servers:', error);
+      toast.error('Failed to load servers');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchServers();
+  }, [fetchServers]);
+
+  const updateServer = (key: string, changes: Partial<ServerDefinition>) => {
+    setServers(prev => prev.map(server => server.key === key ? { ...server, ...changes } : server));
+  };
+
+  const handleAddServer = () => {
+    setServers(prev => [...prev, {
+      key: `new-${Date.now()}`,
+      id: '',
+      name: '',
+      host: '',
+      java_port: 25565,
+      bedrock_port: 19132,
+      description: '',
+      sort_order: prev.length
+    }]);
+  };
+
+  const handleRemoveServer = (server: ServerDraft) => {
+    if (server.id) setRemovedIds(prev => [...prev, server.id]);
+    setServers(prev => prev.filter(s => s.key !== server.key));
+  };
+
+  const handleSaveServers = async () => {
+    const validationError = servers.map(validateServer).find(Boolean);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from('servers').delete().in('id', removedIds);
+        if (error) throw error;
+      }
+
+      for (const [index, server] of servers.entries()) {
+        const fields = {
+          name: server.name.trim(),
+          host: server.host.trim(),
+          java_port: server.java_port,
+          bedrock_port: server.bedrock_port,
+          description: server.description.trim(),
+          sort_order: index
+        };
+
+        const { error } = server.id
+          ? await supabase.from('servers').update(fields).eq('id', server.id)
+          : await supabase.from('servers').insert(fields);
+
+        if (error) throw error;
+      }
+
+      toast.success('Servers updated successfully!');
+      fetchServers();
+    } catch (error) {
+      console.error('Error saving servers:', error);
+      toast.error('Failed to save servers. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const parsePort = (value: string): number | null => value ? Number(value) : null;
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <AdminCard title="Servers" icon={<Server size={18} className="text-emerald-400" />}>
+        <p className="text-sm text-gray-400 mb-4">
+          Servers listed in the store's server status window. Leave a port empty if the server doesn't accept that edition.
+        </p>
+
+        <div className="space-y-4">
+          {servers.map(server => (
+            <div key={server.key} className="grid grid-cols-1 md:grid-cols-6 gap-3 bg-gray-700/30 p-4 rounded-xl">
+              <input
+                type="text"
+                value={server.name}
+                onChange={(e) => updateServer(server.key, { name: e.target.value })}
+                placeholder="Name"
+                className="bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+              />
+              <input
+                type="text"
+                value={server.host}
+                onChange={(e) => updateServer(server.key, { host: e.target.value })}
+                placeholder="Host"
+                className="md:col-span-2 bg-gray-700 text-white font-mono border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+              />
+              <input
+                type="number"
+                min="1"
+                max="65535"
+                value={server.java_port ?? ''}
+                onChange={(e) => updateServer(server.key, { java_port: parsePort(e.target.value) })}
+                placeholder="Java port"
+                className="bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+              />
+              <input
+                type="number"
+                min="1"
+                max="65535"
+                value={server.bedrock_port ?? ''}
+                onChange={(e) => updateServer(server.key, { bedrock_port: parsePort(e.target.value) })}
+                placeholder="Bedrock port"
+                className="bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+              />
+              <button
+                onClick={() => handleRemoveServer(server)}
+                className="flex items-center justify-center gap-1.5 bg-red-600/80 hover:bg-red-700 text-white rounded px-2 py-1 transition-colors"
+                title="Remove server"
+              >
+                <Trash2 size={16} />
+              </button>
+              <input
+                type="text"
+                value={server.description}
+                onChange={(e) => updateServer(server.key, { description: e.target.value })}
+                placeholder="Description shown to players"
+                className="md:col-span-6 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-6 flex justify-between">
+          <button
+            onClick={handleAddServer}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-gray-700 text-white hover:bg-gray-600 transition-colors"
+          >
+            <Plus size={16} />
+            Add Server
+          </button>
+          <SaveButton
+            isSaving={isSaving}
+            onClick={handleSaveServers}
+            disabled={isSaving}
+          />
+        </div>
+      </AdminCard>
+
+      <AdminCard title="Uptime & Players" icon={<Activity size={18} className="text-emerald-400" />}>
+        {servers.filter(server => server.id).length === 0 ? (
+          <p className="text-gray-400">Save a server to start recording its history</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {servers.filter(server => server.id).map(server => (
+              <div key={server.id}>
+                <h4 className="text-sm font-medium text-gray-300 mb-2">{server.name}</h4>
+                <ServerHistoryChart serverId={server.id} initialRange="7d" />
+              </div>
+            ))}
+          </div>
+        )}
+      </AdminCard>
+    </div>
+  );
+};
+
+// Coupon being edited; `id` is empty for a new coupon. Dates are
+// `datetime-local` input values in the admin's timezone.
+interface CouponDraft {
+  id: string;
+  code: string;
+  description: string;
+  discount_type: CouponDiscountType;
+  discount_value: string;
+  product_ids: number[];
+  max_uses: string;
+  max_uses_per_customer: string;
+  starts_at: string;
+  ends_at: string;
+  active: boolean;
+}
+
+const EMPTY_COUPON_DRAFT: CouponDraft = {
+  id: '',
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  discount_value: '',
+  product_ids: [],
+  max_uses: '',
+  max_uses_per_customer: '1',
+  starts_at: '',
+  ends_at: '',
+  active: true
+};
+
+const toLocalInputValue = (iso: string | null): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toCouponDraft = (coupon: Coupon): CouponDraft => ({
+  id: coupon.id,
+  code: coupon.code,
+  description: coupon.description,
+  discount_type: coupon.discount_type,
+  discount_value: String(coupon.discount_value),
+  product_ids: coupon.product_ids || [],
+  max_uses: coupon.max_uses?.toString() ?? '',
+  max_uses_per_customer: coupon.max_uses_per_customer?.toString() ?? '',
+  starts_at: toLocalInputValue(coupon.starts_at),
+  ends_at: toLocalInputValue(coupon.ends_at),
+  active: coupon.active
+});
+
+const validateCoupon = (draft: CouponDraft): string | null => {
+  if (!COUPON_CODE_PATTERN.test(normalizeCouponCode(draft.code))) {
+    return 'Code must be 3-32 letters, numbers, dashes or underscores';
+  }
+
+  const value = Number(draft.discount_value);
+  if (!(value > 0)) return 'Discount must be greater than zero';
+  if (draft.discount_type === 'percent' && value > 100) return 'A percentage discount cannot exceed 100%';
+
+  const invalidLimit = [draft.max_uses, draft.max_uses_per_customer].some(limit =>
+    limit !== '' && (!Number.isInteger(Number(limit)) || Number(limit) < 1)
+  );
+  if (invalidLimit) return 'Usage limits must be whole numbers of at least 1';
+
+  if (draft.starts_at && draft.ends_at && new Date(draft.starts_at) >= new Date(draft.ends_at)) {
+    return 'The end date must be after the start date';
+  }
+
+  return null;
+};
+
+const COUPON_STATUS_STYLES: Record<CouponStatus, string> = {
+  active: 'bg-emerald-500/20 text-emerald-400',
+  scheduled: 'bg-blue-500/20 text-blue-400',
+  expired: 'bg-gray-500/20 text-gray-400',
+  disabled: 'bg-red-500/20 text-red-400'
+};
+
+// Coupons Manager Component
+const CouponsManager: React.FC = () => {
+  const { storeCurrency } = useCurrency();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [products, setProducts] = useState<Pick<Product, 'id' | 'name'>[]>([]);
+  const [draft, setDraft] = useState<CouponDraft>(EMPTY_COUPON_DRAFT);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchCoupons = useCallback(async () => {
+    try {
+      const [couponsResult, productsResult] = await Promise.all([
+        supabase.from('coupons').select('*').order('created_at', { ascending: false }),
+        supabase.from('products').select('id, name').is('archived_at', null).order('price')
+      ]);
+
+      if (couponsResult.error) throw couponsResult.error;
+      if (productsResult.error) throw productsResult.error;
+
+      const couponRows: Coupon[] = (couponsResult.data || []).map(coupon => ({
+        ...coupon,
+        discount_value: Number(coupon.discount_value)
+      }));
+      setCoupons(couponRows);
+      setProducts(productsResult.data || []);
+
+      const counts = await Promise.all(couponRows.map(async coupon => {
+        const { data, error } = await supabase
+          .rpc('get_coupon_usage', { p_coupon_id: coupon.id })
+          .single<{ total_uses: number }>();
+        if (error) throw error;
+        return [coupon.id, data.total_uses] as const;
+      }));
+      setUsage(Object.fromEntries(counts));
+    } catch (error) {
+      console.error('Error fetching coupons:', error);
+      toast.error('Failed to load coupons');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCoupons();
+  }, [fetchCoupons]);
+
+  const productNames = useMemo(
+    () => new Map(products.map(product => [product.id, product.name])),
+    [products]
+  );
+
+  const updateDraft = (changes: Partial<CouponDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const toggleDraftProduct = (productId: number) => {
+    setDraft(prev => ({
+      ...prev,
+      product_ids: prev.product_ids.includes(productId)
+        ? prev.product_ids.filter(id => id !== productId)
+        : [...prev.product_ids, productId]
+    }));
+  };
+
+  const handleSaveCoupon = async () => {
+    const validationError = validateCoupon(draft);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const fields = {
+        code: normalizeCouponCode(draft.code),
+        description: draft.description.trim(),
+        discount_type: draft.discount_type,
+        discount_value: Number(draft.discount_value),
+        product_ids: draft.product_ids.length > 0 ? draft.product_ids : null,
+        max_uses: draft.max_uses ? Number(draft.max_uses) : null,
+        max_uses_per_customer: draft.max_uses_per_customer ? Number(draft.max_uses_per_customer) : null,
+        starts_at: draft.starts_at ? new Date(draft.starts_at).toISOString() : null,
+        ends_at: draft.ends_at ? new Date(draft.ends_at).toISOString() : null,
+        active: draft.active
+      };
+
+      const { error } = draft.id
+        ? await supabase.from('coupons').update(fields).eq('id', draft.id)
+        : await supabase.from('coupons').insert(fields);
+
+      // 23505 = unique violation on code
+      if (error?.code === '23505') {
+        toast.error(`A coupon with the code ${fields.code} already exists`);
+        return;
+      }
+      if (error) throw error;
+
+      toast.success(draft.id ? 'Coupon updated successfully!' : 'Coupon created successfully!');
+      setDraft(EMPTY_COUPON_DRAFT);
+      fetchCoupons();
+    } catch (error) {
+      console.error('Error saving coupon:', error);
+      toast.error('Failed to save coupon. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    const { error } = await supabase.from('coupons').update({ active: !coupon.active }).eq('id', coupon.id);
+    if (error) {
+      console.error('Error updating coupon:', error);
+      toast.error('Failed to update coupon');
+      return;
+    }
+
+    setCoupons(prev => prev.map(c => c.id === coupon.id ? { ...c, active: !coupon.active } : c));
+  };
+
+  const handleDeleteCoupon = async (coupon: Coupon) => {
+    if (!window.confirm(`Delete coupon ${coupon.code}? Orders that used it keep their discount.`)) return;
+
+    const { error } = await supabase.from('coupons').delete().eq('id', coupon.id);
+    if (error) {
+      console.error('Error deleting coupon:', error);
+      toast.error('Failed to delete coupon');
+      return;
+    }
+
+    setCoupons(prev => prev.filter(c => c.id !== coupon.id));
+    if (draft.id === coupon.id) setDraft(EMPTY_COUPON_DRAFT);
+  };
+
+  const inputClassName = 'w-full bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500';
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <AdminCard title="Coupons" icon={<Tag size={18} className="text-emerald-400" />}>
+        {coupons.length === 0 ? (
+          <p className="text-gray-400">No coupons yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-3 px-4 text-gray-300">Code</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Discount</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Applies To</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Uses</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Valid</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Status</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Actions</th>
                 </tr>
-              ) : paginatedOrders.length === 0 ? (
-                <tr>
-                  <td colSpan={6} className="px-6 py-4 text-center text-gray-400">
-                    No orders found
-                  </td>
+              </thead>
+              <tbody>
+                {coupons.map(coupon => {
+                  const status = getCouponStatus(coupon);
+                  return (
+                    <tr key={coupon.id} className="border-b border-gray-700">
+                      <td className="py-3 px-4 text-white">
+                        <span className="font-mono">{coupon.code}</span>
+                        {coupon.description && <p className="text-xs text-gray-400">{coupon.description}</p>}
+                      </td>
+                      <td className="py-3 px-4 text-gray-300">{formatCouponValue(coupon, storeCurrency)}</td>
+                      <td className="py-3 px-4 text-gray-300 text-sm">
+                        {coupon.product_ids && coupon.product_ids.length > 0
+                          ? coupon.product_ids.map(id => productNames.get(id) || `#${id}`).join(', ')
+                          : 'All ranks'}
+                      </td>
+                      <td className="py-3 px-4 text-gray-300">
+                        {usage[coupon.id] ?? 0}{coupon.max_uses !== null && ` / ${coupon.max_uses}`}
+                        {coupon.max_uses_per_customer !== null && (
+                          <p className="text-xs text-gray-400">{coupon.max_uses_per_customer} per customer</p>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-xs text-gray-400">
+                        {coupon.starts_at ? new Date(coupon.starts_at).toLocaleString() : 'Now'}
+                        {' - '}
+                        {coupon.ends_at ? new Date(coupon.ends_at).toLocaleString() : 'No end'}
+                      </td>
+                      <td className="py-3 px-4">
+                        <span className={`text-xs px-2 py-1 rounded-full capitalize ${COUPON_STATUS_STYLES[status]}`}>{status}</span>
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => setDraft(toCouponDraft(coupon))}
+                            className="px-3 py-1 rounded-lg bg-gray-700 text-sm text-white hover:bg-gray-600 transition-colors"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleActive(coupon)}
+                            className="px-3 py-1 rounded-lg bg-gray-700 text-sm text-white hover:bg-gray-600 transition-colors"
+                          >
+                            {coupon.active ? 'Disable' : 'Enable'}
+                          </button>
+                          <button
+                            onClick={() => handleDeleteCoupon(coupon)}
+                            className="bg-red-600/80 hover:bg-red-700 text-white rounded px-2 py-1 transition-colors"
+                            title="Delete coupon"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </AdminCard>
+
+      <AdminCard
+        title={draft.id ? `Edit ${draft.code}` : 'New Coupon'}
+        icon={<Plus size={18} className="text-emerald-400" />}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-sm text-gray-300">Code</span>
+            <input
+              type="text"
+              value={draft.code}
+              onChange={(e) => updateDraft({ code: e.target.value.toUpperCase() })}
+              placeholder="SUMMER25"
+              maxLength={32}
+              className={`${inputClassName} font-mono mt-1`}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-300">Description</span>
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+              placeholder="Internal note"
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-300">Discount</span>
+            <div className="flex gap-2 mt-1">
+              <select
+                value={draft.discount_type}
+                onChange={(e) => updateDraft({ discount_type: e.target.value as CouponDiscountType })}
+                className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 focus:outline-none focus:border-emerald-500"
+              >
+                <option value="percent">Percent off</option>
+                <option value="fixed">Amount off ({storeCurrency})</option>
+              </select>
+              <input
+                type="number"
+                min="0"
+                step={draft.discount_type === 'percent' ? '1' : '0.01'}
+                value={draft.discount_value}
+                onChange={(e) => updateDraft({ discount_value: e.target.value })}
+                placeholder={draft.discount_type === 'percent' ? '10' : '2.50'}
+                className={inputClassName}
+              />
+            </div>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="text-sm text-gray-300">Total uses</span>
+              <input
+                type="number"
+                min="1"
+                value={draft.max_uses}
+                onChange={(e) => updateDraft({ max_uses: e.target.value })}
+                placeholder="Unlimited"
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm text-gray-300">Uses per customer</span>
+              <input
+                type="number"
+                min="1"
+                value={draft.max_uses_per_customer}
+                onChange={(e) => updateDraft({ max_uses_per_customer: e.target.value })}
+                placeholder="Unlimited"
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+          </div>
+          <label className="block">
+            <span className="text-sm text-gray-300">Starts</span>
+            <input
+              type="datetime-local"
+              value={draft.starts_at}
+              onChange={(e) => updateDraft({ starts_at: e.target.value })}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-300">Ends</span>
+            <input
+              type="datetime-local"
+              value={draft.ends_at}
+              onChange={(e) => updateDraft({ ends_at: e.target.value })}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <div className="md:col-span-2">
+            <span className="text-sm text-gray-300">Applies to</span>
+            <p className="text-xs text-gray-500 mb-2">Leave every rank unticked to apply the coupon store-wide</p>
+            <div className="flex flex-wrap gap-3">
+              {products.map(product => (
+                <label key={product.id} className="flex items-center gap-1.5 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.product_ids.includes(product.id)}
+                    onChange={() => toggleDraftProduct(product.id)}
+                    className="accent-emerald-500"
+                  />
+                  {product.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.active}
+              onChange={(e) => updateDraft({ active: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            Active
+          </label>
+        </div>
+
+        <div className="mt-6 flex justify-between">
+          {draft.id ? (
+            <button
+              onClick={() => setDraft(EMPTY_COUPON_DRAFT)}
+              className="px-4 py-2 rounded-xl bg-gray-700 text-white hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+          ) : <span />}
+          <SaveButton
+            isSaving={isSaving}
+            onClick={handleSaveCoupon}
+            disabled={isSaving}
+          />
+        </div>
+      </AdminCard>
+    </div>
+  );
+};
+
+// Sale being edited; `id` is empty for a new sale. Dates are `datetime-local`
+// input values in the admin's timezone.
+interface SaleDraft {
+  id: string;
+  name: string;
+  discount_percent: string;
+  product_ids: number[];
+  starts_at: string;
+  ends_at: string;
+}
+
+const EMPTY_SALE_DRAFT: SaleDraft = {
+  id: '',
+  name: '',
+  discount_percent: '',
+  product_ids: [],
+  starts_at: '',
+  ends_at: ''
+};
+
+const toSaleDraft = (sale: Sale): SaleDraft => ({
+  id: sale.id,
+  name: sale.name,
+  discount_percent: String(sale.discount_percent),
+  product_ids: sale.product_ids || [],
+  starts_at: toLocalInputValue(sale.starts_at),
+  ends_at: toLocalInputValue(sale.ends_at)
+});
+
+const validateSale = (draft: SaleDraft): string | null => {
+  if (!draft.name.trim()) return 'Every sale needs a name';
+
+  const percent = Number(draft.discount_percent);
+  if (!(percent > 0 && percent < 100)) return 'Discount must be between 0% and 100%';
+
+  if (!draft.starts_at || !draft.ends_at) return 'A sale needs a start and an end time';
+  if (new Date(draft.starts_at) >= new Date(draft.ends_at)) return 'The end time must be after the start time';
+
+  return null;
+};
+
+const SALE_STATUS_STYLES: Record<SaleStatus, string> = {
+  live: 'bg-emerald-500/20 text-emerald-400',
+  scheduled: 'bg-blue-500/20 text-blue-400',
+  ended: 'bg-gray-500/20 text-gray-400'
+};
+
+// Sales Manager Component
+const SalesManager: React.FC = () => {
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [products, setProducts] = useState<Pick<Product, 'id' | 'name'>[]>([]);
+  const [draft, setDraft] = useState<SaleDraft>(EMPTY_SALE_DRAFT);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSales = useCallback(async () => {
+    try {
+      const [salesResult, productsResult] = await Promise.all([
+        supabase.from('sales').select('*').order('starts_at', { ascending: false }),
+        supabase.from('products').select('id, name').is('archived_at', null).order('price')
+      ]);
+
+      if (salesResult.error) throw salesResult.error;
+      if (productsResult.error) throw productsResult.error;
+
+      setSales(salesResult.data || []);
+      setProducts(productsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching sales:', error);
+      toast.error('Failed to load sales');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSales();
+  }, [fetchSales]);
+
+  const productNames = useMemo(
+    () => new Map(products.map(product => [product.id, product.name])),
+    [products]
+  );
+
+  const updateDraft = (changes: Partial<SaleDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const toggleDraftProduct = (productId: number) => {
+    setDraft(prev => ({
+      ...prev,
+      product_ids: prev.product_ids.includes(productId)
+        ? prev.product_ids.filter(id => id !== productId)
+        : [...prev.product_ids, productId]
+    }));
+  };
+
+  const handleSaveSale = async () => {
+    const validationError = validateSale(draft);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const fields = {
+        name: draft.name.trim(),
+        discount_percent: Number(draft.discount_percent),
+        product_ids: draft.product_ids.length > 0 ? draft.product_ids : null,
+        starts_at: new Date(draft.starts_at).toISOString(),
+        ends_at: new Date(draft.ends_at).toISOString()
+      };
+
+      const { error } = draft.id
+        ? await supabase.from('sales').update(fields).eq('id', draft.id)
+        : await supabase.from('sales').insert(fields);
+
+      if (error) throw error;
+
+      toast.success(draft.id ? 'Sale updated successfully!' : 'Sale scheduled successfully!');
+      setDraft(EMPTY_SALE_DRAFT);
+      fetchSales();
+    } catch (error) {
+      console.error('Error saving sale:', error);
+      toast.error('Failed to save sale. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Ending a live sale early moves its end to now, so it stays in the history
+  const handleEndSale = async (sale: Sale) => {
+    const { error } = await supabase.from('sales').update({ ends_at: new Date().toISOString() }).eq('id', sale.id);
+    if (error) {
+      console.error('Error ending sale:', error);
+      toast.error('Failed to end sale');
+      return;
+    }
+
+    toast.success(`${sale.name} ended`);
+    fetchSales();
+  };
+
+  const handleDeleteSale = async (sale: Sale) => {
+    if (!window.confirm(`Delete the sale "${sale.name}"?`)) return;
+
+    const { error } = await supabase.from('sales').delete().eq('id', sale.id);
+    if (error) {
+      console.error('Error deleting sale:', error);
+      toast.error('Failed to delete sale');
+      return;
+    }
+
+    setSales(prev => prev.filter(s => s.id !== sale.id));
+    if (draft.id === sale.id) setDraft(EMPTY_SALE_DRAFT);
+  };
+
+  const inputClassName = 'w-full bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500';
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <AdminCard title="Sales" icon={<Timer size={18} className="text-emerald-400" />}>
+        <p className="text-sm text-gray-400 mb-4">
+          Sale prices apply automatically between the start and end time; product prices are left untouched.
+        </p>
+
+        {sales.length === 0 ? (
+          <p className="text-gray-400">No sales scheduled</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-3 px-4 text-gray-300">Name</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Discount</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Ranks</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Runs</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Status</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Actions</th>
                 </tr>
-              ) : (
-                paginatedOrders.map((order) => (
-                  <tr key={order.id} className="hover:bg-gray-700/30 transition-colors">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-white">
-                      {order.id}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                      {order.customer_name || 'Unknown'}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                      {new Date(order.created_at).toLocaleDateString()}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                      ${(order.total_amount || 0).toFixed(2)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-3 py-1 rounded-full text-sm font-medium border ${
-                        order.status === 'pending' ? 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' :
-                        order.status === 'processing' ? 'bg-blue-500/20 text-blue-400 border-blue-500/30' :
-                        order.status === 'completed' ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' :
-                        'bg-red-500/20 text-red-400 border-red-500/30'
-                      }`}>
-                        {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                      <button
-                        onClick={() => {
-                          setSelectedOrder(order);
-                          setIsModalOpen(true);
-                        }}
-                        className="text-emerald-400 hover:text-emerald-300 transition-colors"
-                      >
-                        View Details
-                      </button>
-                    </td>
-                  </tr>
-                ))
-              )}
-            </tbody>
-          </table>
+              </thead>
+              <tbody>
+                {sales.map(sale => {
+                  const status = getSaleStatus(sale);
+                  return (
+                    <tr key={sale.id} className="border-b border-gray-700">
+                      <td className="py-3 px-4 text-white">{sale.name}</td>
+                      <td className="py-3 px-4 text-gray-300">{Number(sale.discount_percent)}% off</td>
+                      <td className="py-3 px-4 text-gray-300 text-sm">
+                        {sale.product_ids && sale.product_ids.length > 0
+                          ? sale.product_ids.map(id => productNames.get(id) || `#${id}`).join(', ')
+                          : 'All ranks'}
+                      </td>
+                      <td className="py-3 px-4 text-xs text-gray-400">
+                        {new Date(sale.starts_at).toLocaleString()} - {new Date(sale.ends_at).toLocaleString()}
+                      </td>
+                      <td className="py-3 px-4">
+                        <span className={`text-xs px-2 py-1 rounded-full capitalize ${SALE_STATUS_STYLES[status]}`}>{status}</span>
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex gap-2">
+                          {status !== 'ended' && (
+                            <button
+                              onClick={() => setDraft(toSaleDraft(sale))}
+                              className="px-3 py-1 rounded-lg bg-gray-700 text-sm text-white hover:bg-gray-600 transition-colors"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {status === 'live' && (
+                            <button
+                              onClick={() => handleEndSale(sale)}
+                              className="px-3 py-1 rounded-lg bg-gray-700 text-sm text-white hover:bg-gray-600 transition-colors"
+                            >
+                              End now
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDeleteSale(sale)}
+                            className="bg-red-600/80 hover:bg-red-700 text-white rounded px-2 py-1 transition-colors"
+                            title="Delete sale"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </AdminCard>
+
+      <AdminCard
+        title={draft.id ? `Edit ${draft.name}` : 'Schedule a Sale'}
+        icon={<Plus size={18} className="text-emerald-400" />}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-sm text-gray-300">Name</span>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              placeholder="Summer Sale"
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-300">Discount (%)</span>
+            <input
+              type="number"
+              min="1"
+              max="99"
+              value={draft.discount_percent}
+              onChange={(e) => updateDraft({ discount_percent: e.target.value })}
+              placeholder="20"
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-300">Starts</span>
+            <input
+              type="datetime-local"
+              value={draft.starts_at}
+              onChange={(e) => updateDraft({ starts_at: e.target.value })}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-300">Ends</span>
+            <input
+              type="datetime-local"
+              value={draft.ends_at}
+              onChange={(e) => updateDraft({ ends_at: e.target.value })}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <div className="md:col-span-2">
+            <span className="text-sm text-gray-300">Ranks on sale</span>
+            <p className="text-xs text-gray-500 mb-2">Leave every rank unticked to put the whole store on sale</p>
+            <div className="flex flex-wrap gap-3">
+              {products.map(product => (
+                <label key={product.id} className="flex items-center gap-1.5 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.product_ids.includes(product.id)}
+                    onChange={() => toggleDraftProduct(product.id)}
+                    className="accent-emerald-500"
+                  />
+                  {product.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-between">
+          {draft.id ? (
+            <button
+              onClick={() => setDraft(EMPTY_SALE_DRAFT)}
+              className="px-4 py-2 rounded-xl bg-gray-700 text-white hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+          ) : <span />}
+          <SaveButton
+            isSaving={isSaving}
+            onClick={handleSaveSale}
+            disabled={isSaving}
+          />
         </div>
+      </AdminCard>
+    </div>
+  );
+};
+
+// Exchange rate being edited; `saved` is false until the row exists
+interface CurrencyRateDraft {
+  key: string;
+  code: string;
+  rate: string;
+  saved: boolean;
+}
+
+const validateCurrencyRate = (draft: CurrencyRateDraft, storeCurrency: string): string | null => {
+  const code = draft.code.trim().toUpperCase();
+  if (!isCurrencyCode(code)) return `${draft.code || 'A currency'}: enter a three-letter ISO 4217 code, e.g. EUR`;
+  if (code === storeCurrency) return `${code} is the store currency`;
+
+  const rate = Number(draft.rate);
+  if (!draft.rate.trim() || !Number.isFinite(rate) || rate <= 0) return `${code}: the rate must be more than 0`;
+  return null;
+};
+
+// Payment method being edited; `id` is empty until it is saved
+interface PaymentMethodDraft {
+  key: string;
+  id: string;
+  name: string;
+  kind: PaymentMethodKind;
+  instructions: string;
+  account_number: string;
+  qr_image_url: string;
+  fee_percent: string;
+  fee_fixed: string;
+  active: boolean;
+}
+
+const toPaymentMethodDraft = (method: PaymentMethod): PaymentMethodDraft => ({
+  key: method.id,
+  id: method.id,
+  name: method.name,
+  kind: method.kind,
+  instructions: method.instructions,
+  account_number: method.account_number,
+  qr_image_url: method.qr_image_url,
+  fee_percent: String(Number(method.fee_percent)),
+  fee_fixed: String(Number(method.fee_fixed)),
+  active: method.active
+});
+
+const validatePaymentMethod = (draft: PaymentMethodDraft): string | null => {
+  const name = draft.name.trim();
+  if (!name) return 'Every payment method needs a name';
+  if (name.length > 50) return `${name}: the name must be at most 50 characters`;
+
+  if (!draft.qr_image_url.trim() && !draft.account_number.trim()) {
+    return `${name}: add a QR code or an account number so customers know where to pay`;
+  }
+  if (draft.qr_image_url.trim() && !/^(https?:\/\/|\/)\S+$/.test(draft.qr_image_url.trim())) {
+    return `${name}: the QR code must be an http(s) URL or a path on the store`;
+  }
+
+  const feePercent = Number(draft.fee_percent || 0);
+  if (!Number.isFinite(feePercent) || feePercent < 0 || feePercent > 100) {
+    return `${name}: the percentage fee must be between 0 and 100`;
+  }
+
+  const feeFixed = Number(draft.fee_fixed || 0);
+  if (!Number.isFinite(feeFixed) || feeFixed < 0) return `${name}: the fixed fee can't be negative`;
+  return null;
+};
+
+// Payment Methods Manager Component
+const PaymentMethodsManager: React.FC = () => {
+  const { storeCurrency } = useCurrency();
+  const [methods, setMethods] = useState<PaymentMethodDraft[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploadingKey, setUploadingKey] = useState<string | null>(null);
+
+  const fetchMethods = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('payment_methods')
+        .select('id, name, kind, instructions, account_number, qr_image_url, fee_percent, fee_fixed, active, sort_order')
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+
+      setMethods((data || []).map(method => toPaymentMethodDraft({
+        ...method,
+        kind: isPaymentMethodKind(method.kind) ? method.kind : 'bank_qr'
+      })));
+      setRemovedIds([]);
+    } catch (error) {
+      console.error('Error fetching payment methods:', error);
+      toast.error('Failed to load payment methods');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMethods();
+  }, [fetchMethods]);
+
+  const updateMethod = (key: string, changes: Partial<PaymentMethodDraft>) => {
+    setMethods(prev => prev.map(method => method.key === key ? { ...method, ...changes } : method));
+  };
+
+  const handleAddMethod = () => {
+    setMethods(prev => [...prev, {
+      key: `new-${Date.now()}`,
+      id: '',
+      name: '',
+      kind: 'ewallet',
+      instructions: '',
+      account_number: '',
+      qr_image_url: '',
+      fee_percent: '0',
+      fee_fixed: '0',
+      active: true
+    }]);
+  };
+
+  const handleRemoveMethod = (method: PaymentMethodDraft) => {
+    if (method.id && !window.confirm(`Remove ${method.name || 'this payment method'}? Past orders keep its name.`)) return;
+
+    if (method.id) setRemovedIds(prev => [...prev, method.id]);
+    setMethods(prev => prev.filter(m => m.key !== method.key));
+  };
+
+  const handleMoveMethod = (index: number, offset: number) => {
+    setMethods(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleQrUpload = async (key: string, file: File) => {
+    const fileError = validateImageFile(file);
+    if (fileError) {
+      toast.error(fileError);
+      return;
+    }
 
-        {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="px-6 py-4 flex items-center justify-between border-t border-gray-700">
-            <div className="flex-1 flex justify-between sm:hidden">
+    setUploadingKey(key);
+    try {
+      updateMethod(key, { qr_image_url: await uploadStoreImage(file, 'payment_qr') });
+      toast.success('Image uploaded successfully!');
+    } catch (error) {
+      console.error('Upload error:', error);
+      toast.error(`Failed to upload image: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setUploadingKey(null);
+    }
+  };
+
+  const handleSave = async () => {
+    const validationError = methods.map(validatePaymentMethod).find(Boolean);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    const names = methods.map(method => method.name.trim().toLowerCase());
+    const duplicate = methods.find((_, index) => names.indexOf(names[index]) !== index);
+    if (duplicate) {
+      toast.error(`Two payment methods are called "${duplicate.name.trim()}"`);
+      return;
+    }
+
+    if (!methods.some(method => method.active)) {
+      toast.error('Keep at least one payment method active, or customers cannot pay');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from('payment_methods').delete().in('id', removedIds);
+        if (error) throw error;
+      }
+
+      for (const [index, method] of methods.entries()) {
+        const fields = {
+          name: method.name.trim(),
+          kind: method.kind,
+          instructions: method.instructions.trim(),
+          account_number: method.account_number.trim(),
+          qr_image_url: method.qr_image_url.trim(),
+          fee_percent: Number(method.fee_percent || 0),
+          fee_fixed: Number(method.fee_fixed || 0),
+          active: method.active,
+          sort_order: index
+        };
+
+        const { error } = method.id
+          ? await supabase.from('payment_methods').update(fields).eq('id', method.id)
+          : await supabase.from('payment_methods').insert(fields);
+
+        if (error) throw error;
+      }
+
+      toast.success('Payment methods updated successfully!');
+      fetchMethods();
+    } catch (error) {
+      console.error('Error saving payment methods:', error);
+      toast.error('Failed to save payment methods. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <AdminCard title="Payment Methods" icon={<CreditCard size={18} className="text-emerald-400" />}>
+      <p className="text-sm text-gray-400 mb-4">
+        Customers pick one of the active methods in the order form, in this order, and see its instructions, account number and QR code.
+        A method's fee is a percentage of the order total plus a fixed amount, and is added to the order.
+      </p>
+
+      <div className="space-y-4">
+        {methods.map((method, index) => (
+          <div key={method.key} className={`grid grid-cols-1 md:grid-cols-6 gap-3 bg-gray-700/30 p-4 rounded-xl ${method.active ? '' : 'opacity-60'}`}>
+            <input
+              type="text"
+              value={method.name}
+              onChange={(e) => updateMethod(method.key, { name: e.target.value })}
+              maxLength={50}
+              placeholder="Name, e.g. ABA Bank"
+              className="md:col-span-2 bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+            />
+            <select
+              value={method.kind}
+              onChange={(e) => updateMethod(method.key, { kind: e.target.value as PaymentMethodKind })}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 focus:outline-none focus:border-emerald-500"
+            >
+              {PAYMENT_METHOD_KINDS.map(kind => (
+                <option key={kind} value={kind}>{PAYMENT_METHOD_KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={method.active}
+                onChange={(e) => updateMethod(method.key, { active: e.target.checked })}
+                className="accent-emerald-500"
+              />
+              Active
+            </label>
+            <div className="flex gap-2">
               <button
-                onClick={() => handlePageChange(currentPage - 1)}
-                disabled={currentPage === 1}
-                className="relative inline-flex items-center px-4 py-2 border border-gray-700 text-sm font-medium rounded-md text-gray-300 bg-gray-800 hover:bg-gray-700 transition-colors"
+                onClick={() => handleMoveMethod(index, -1)}
+                disabled={index === 0}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 text-white rounded px-2 py-1 transition-colors disabled:opacity-40"
+                title="Move up"
               >
-                Previous
+                ↑
               </button>
               <button
-                onClick={() => handlePageChange(currentPage + 1)}
-                disabled={currentPage === totalPages}
-                className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-700 text-sm font-medium rounded-md text-gray-300 bg-gray-800 hover:bg-gray-700 transition-colors"
+                onClick={() => handleMoveMethod(index, 1)}
+                disabled={index === methods.length - 1}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 text-white rounded px-2 py-1 transition-colors disabled:opacity-40"
+                title="Move down"
               >
-                Next
+                ↓
               </button>
             </div>
-            <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
-              <div>
-                <p className="text-sm text-gray-400">
-                  Showing <span className="font-medium text-white">{startIndex + 1}</span> to{' '}
-                  <span className="font-medium text-white">
-                    {Math.min(startIndex + 10, filteredOrders.length)}
-                  </span>{' '}
-                  of <span className="font-medium text-white">{filteredOrders.length}</span> results
-                </p>
-              </div>
-              <div>
-                <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px" aria-label="Pagination">
-                  {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-                    <button
-                      key={page}
-                      onClick={() => handlePageChange(page)}
-                      className={`relative inline-flex items-center px-4 py-2 border text-sm font-medium ${
-                        currentPage === page
-                          ? 'z-10 bg-emerald-500/20 border-emerald-500/50 text-emerald-400'
-                          : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700 transition-colors'
-                      }`}
-                    >
-                      {page}
-                    </button>
-                  ))}
-                </nav>
+            <button
+              onClick={() => handleRemoveMethod(method)}
+              className="flex items-center justify-center gap-1.5 bg-red-600/80 hover:bg-red-700 text-white rounded px-2 py-1 transition-colors"
+              title="Remove payment method"
+            >
+              <Trash2 size={16} />
+            </button>
+
+            <div className="md:col-span-4 space-y-3">
+              <textarea
+                value={method.instructions}
+                onChange={(e) => updateMethod(method.key, { instructions: e.target.value })}
+                rows={2}
+                placeholder="Instructions, e.g. Scan the QR code with your banking app"
+                className="w-full bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+              />
+              <input
+                type="text"
+                value={method.account_number}
+                onChange={(e) => updateMethod(method.key, { account_number: e.target.value })}
+                placeholder="Account number, phone number or PayPal email (optional)"
+                className="w-full bg-gray-700 text-white font-mono border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+              />
+              <input
+                type="text"
+                value={method.qr_image_url}
+                onChange={(e) => updateMethod(method.key, { qr_image_url: e.target.value })}
+                placeholder="QR code image URL (optional)"
+                className="w-full bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500 text-sm"
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-xs text-gray-400">Fee (%)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={method.fee_percent}
+                    onChange={(e) => updateMethod(method.key, { fee_percent: e.target.value })}
+                    className="mt-1 w-full bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs text-gray-400">Fixed fee ({storeCurrency})</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={method.fee_fixed}
+                    onChange={(e) => updateMethod(method.key, { fee_fixed: e.target.value })}
+                    className="mt-1 w-full bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+                  />
+                </label>
               </div>
             </div>
+
+            <div className="md:col-span-2 bg-gray-900/70 p-3 rounded-xl flex items-center justify-center relative group h-40 overflow-hidden border border-gray-700/50">
+              {method.qr_image_url.trim() ? (
+                <div className="bg-white p-2 rounded-lg">
+                  <img
+                    src={method.qr_image_url.trim()}
+                    alt={`${method.name || 'Payment method'} QR code`}
+                    className="w-28 h-28 object-contain"
+                  />
+                </div>
+              ) : (
+                <span className="text-xs text-gray-500">No QR code</span>
+              )}
+              <ImageUploader
+                imageType={method.key}
+                currentUrl={method.qr_image_url}
+                label="QR Code"
+                onUpload={(file) => handleQrUpload(method.key, file)}
+                isUploading={!!uploadingKey}
+              />
+              {uploadingKey === method.key && (
+                <div className="absolute inset-0 bg-black/60 flex items-center justify-center backdrop-blur-sm">
+                  <div className="flex flex-col items-center gap-2">
+                    <div className="w-8 h-8 border-3 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+                    <span className="text-sm text-emerald-400">Uploading...</span>
+                  </div>
+                </div>
+              )}
+            </div>
           </div>
-        )}
+        ))}
       </div>
 
-      {/* Order Details Modal */}
-      {isModalOpen && selectedOrder && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
-          <div className="bg-gray-800 rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-gray-700/50">
-            <div className="p-6">
-              <div className="flex justify-between items-start mb-4">
-                <div>
-                  <h3 className="text-lg font-medium text-white">Order Details</h3>
-                  <p className="text-sm text-gray-400">Order #{selectedOrder.id}</p>
+      <div className="mt-6 flex justify-between">
+        <button
+          onClick={handleAddMethod}
+          className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-gray-700 text-white hover:bg-gray-600 transition-colors"
+        >
+          <Plus size={16} />
+          Add Payment Method
+        </button>
+        <SaveButton
+          isSaving={isSaving}
+          onClick={handleSave}
+          disabled={isSaving || !!uploadingKey}
+        />
+      </div>
+    </AdminCard>
+  );
+};
+
+// Settings Manager Component
+const SettingsManager: React.FC = () => {
+  const { refresh } = useCurrency();
+  const [storeCurrency, setStoreCurrency] = useState(DEFAULT_CURRENCY);
+  const [savedStoreCurrency, setSavedStoreCurrency] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<CurrencyRateDraft[]>([]);
+  const [removedCodes, setRemovedCodes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchCurrencies = useCallback(async () => {
+    try {
+      const [configResult, ratesResult] = await Promise.all([
+        supabase.from('site_config').select('value').eq('key', 'store_currency').maybeSingle(),
+        supabase.from('currency_rates').select('code, rate').order('sort_order', { ascending: true })
+      ]);
+
+      if (configResult.error) throw configResult.error;
+      if (ratesResult.error) throw ratesResult.error;
+
+      const currency = configResult.data?.value?.trim().toUpperCase() || DEFAULT_CURRENCY;
+      setStoreCurrency(currency);
+      setSavedStoreCurrency(currency);
+      setRates((ratesResult.data || []).map(rate => ({
+        key: rate.code,
+        code: rate.code,
+        rate: String(Number(rate.rate)),
+        saved: true
+      })));
+      setRemovedCodes([]);
+    } catch (error) {
+      console.error('Error fetching currencies:', error);
+      toast.error('Failed to load currencies');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCurrencies();
+  }, [fetchCurrencies]);
+
+  const updateRate = (key: string, changes: Partial<CurrencyRateDraft>) => {
+    setRates(prev => prev.map(rate => rate.key === key ? { ...rate, ...changes } : rate));
+  };
+
+  const handleAddRate = () => {
+    setRates(prev => [...prev, { key: `new-${Date.now()}`, code: '', rate: '', saved: false }]);
+  };
+
+  const handleRemoveRate = (draft: CurrencyRateDraft) => {
+    if (draft.saved) setRemovedCodes(prev => [...prev, draft.key]);
+    setRates(prev => prev.filter(rate => rate.key !== draft.key));
+  };
+
+  const handleMoveRate = (index: number, offset: number) => {
+    setRates(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const currency = storeCurrency.trim().toUpperCase();
+    if (!isCurrencyCode(currency)) {
+      toast.error('Enter a three-letter ISO 4217 code for the store currency, e.g. USD');
+      return;
+    }
+
+    const validationError = rates.map(rate => validateCurrencyRate(rate, currency)).find(Boolean);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    const codes = rates.map(rate => rate.code.trim().toUpperCase());
+    const duplicate = codes.find((code, index) => codes.indexOf(code) !== index);
+    if (duplicate) {
+      toast.error(`${duplicate} is listed twice`);
+      return;
+    }
+
+    if (currency !== savedStoreCurrency && !window.confirm(
+      `Change the store currency from ${savedStoreCurrency} to ${currency}? Product prices are not converted, and new orders will be charged in ${currency}.`
+    )) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Renamed codes are saved as a new row, so the old one goes too
+      const staleCodes = [
+        ...removedCodes,
+        ...rates.filter((rate, index) => rate.saved && rate.key !== codes[index]).map(rate => rate.key)
+      ].filter(code => !codes.includes(code));
+
+      if (staleCodes.length > 0) {
+        const { error } = await supabase.from('currency_rates').delete().in('code', staleCodes);
+        if (error) throw error;
+      }
+
+      if (rates.length > 0) {
+        const { error } = await supabase
+          .from('currency_rates')
+          .upsert(rates.map((rate, index) => ({ code: codes[index], rate: Number(rate.rate), sort_order: index })));
+        if (error) throw error;
+      }
+
+      const { error } = await supabase.from('site_config').upsert({ key: 'store_currency', value: currency });
+      if (error) throw error;
+
+      toast.success('Currencies updated successfully!');
+      await Promise.all([fetchCurrencies(), refresh()]);
+    } catch (error) {
+      console.error('Error saving currencies:', error);
+      toast.error('Failed to save currencies. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const previewCurrency = storeCurrency.trim().toUpperCase();
+
+  return (
+    <div className="space-y-6">
+      <AdminCard title="Currencies" icon={<DollarSign size={18} className="text-emerald-400" />}>
+        <p className="text-sm text-gray-400 mb-4">
+          Prices are set and charged in the store currency. Customers can also view them in the currencies below,
+          converted at these rates; the store shows a currency switcher once there is at least one.
+        </p>
+
+        <label className="block mb-6">
+          <span className="text-sm text-gray-300">Store currency</span>
+          <input
+            type="text"
+            value={storeCurrency}
+            onChange={(e) => setStoreCurrency(e.target.value.toUpperCase())}
+            maxLength={3}
+            placeholder="USD"
+            className="mt-1 block w-32 bg-gray-700 text-white font-mono border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+          />
+        </label>
+
+        <div className="space-y-3">
+          {rates.map((rate, index) => {
+            const code = rate.code.trim().toUpperCase();
+            const value = Number(rate.rate);
+            const preview = isCurrencyCode(code) && isCurrencyCode(previewCurrency) && value > 0
+              ? `${formatMoney(1, previewCurrency)} = ${formatMoney(value, code)}`
+              : '';
+
+            return (
+              <div key={rate.key} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-center bg-gray-700/30 p-4 rounded-xl">
+                <input
+                  type="text"
+                  value={rate.code}
+                  onChange={(e) => updateRate(rate.key, { code: e.target.value.toUpperCase() })}
+                  maxLength={3}
+                  placeholder="EUR"
+                  className="bg-gray-700 text-white font-mono border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={rate.rate}
+                  onChange={(e) => updateRate(rate.key, { rate: e.target.value })}
+                  placeholder={`Per 1 ${previewCurrency || 'unit'}`}
+                  className="bg-gray-700 text-white border border-gray-600 rounded px-3 py-1 focus:outline-none focus:border-emerald-500"
+                />
+                <span className="md:col-span-2 text-sm text-gray-400">{preview}</span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleMoveRate(index, -1)}
+                    disabled={index === 0}
+                    className="flex-1 bg-gray-700 hover:bg-gray-600 text-white rounded px-2 py-1 transition-colors disabled:opacity-40"
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => handleMoveRate(index, 1)}
+                    disabled={index === rates.length - 1}
+                    className="flex-1 bg-gray-700 hover:bg-gray-600 text-white rounded px-2 py-1 transition-colors disabled:opacity-40"
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
                 </div>
                 <button
-                  onClick={() => setIsModalOpen(false)}
-                  className="text-gray-400 hover:text-gray-300 transition-colors"
+                  onClick={() => handleRemoveRate(rate)}
+                  className="flex items-center justify-center gap-1.5 bg-red-600/80 hover:bg-red-700 text-white rounded px-2 py-1 transition-colors"
+                  title="Remove currency"
                 >
-                  <X size={20} />
+                  <Trash2 size={16} />
                 </button>
               </div>
-              
-              <div className="grid grid-cols-2 gap-4 mb-6">
-                <div>
-                  <h4 className="text-sm font-medium text-gray-400">Customer</h4>
-                  <p className="mt-1 text-white">{selectedOrder.customer_name || 'Unknown'}</p>
-                  <p className="text-sm text-gray-400">{selectedOrder.customer_phone || 'N/A'}</p>
-                </div>
-                <div>
-                  <h4 className="text-sm font-medium text-gray-400">Order Date</h4>
-                  <p className="mt-1 text-white">{new Date(selectedOrder.created_at).toLocaleDateString()}</p>
-                </div>
-              </div>
-
-              <div className="mb-6">
-                <h4 className="text-sm font-medium text-gray-400">Order Items</h4>
-                <div className="mt-2 space-y-2">
-                  {renderOrderItems(selectedOrder.items)}
-                </div>
-              </div>
+            );
+          })}
+        </div>
 
-              <div className="flex justify-between items-center">
-                <div>
-                  <h4 className="text-sm font-medium text-gray-400">Total Amount</h4>
-                  <p className="text-lg font-medium text-white">${(selectedOrder.total_amount || 0).toFixed(2)}</p>
-                </div>
-                <div>
-                  <h4 className="text-sm font-medium text-gray-400">Status</h4>
-                  <select
-                    value={selectedOrder.status || 'pending'}
-                    onChange={(e) => handleStatusChange(selectedOrder.id, e.target.value as Order['status'])}
-                    className="mt-1 block w-full rounded-xl border-gray-700 bg-gray-800 text-white focus:border-emerald-500 focus:ring-emerald-500 sm:text-sm"
-                  >
-                    <option value="pending">Pending</option>
-                    <option value="processing">Processing</option>
-                    <option value="completed">Completed</option>
-                    <option value="cancelled">Cancelled</option>
-                  </select>
-                </div>
-              </div>
-            </div>
-          </div>
+        <div className="mt-6 flex justify-between">
+          <button
+            onClick={handleAddRate}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-gray-700 text-white hover:bg-gray-600 transition-colors"
+          >
+            <Plus size={16} />
+            Add Currency
+          </button>
+          <SaveButton
+            isSaving={isSaving}
+            onClick={handleSave}
+            disabled={isSaving}
+          />
         </div>
-      )}
-    </div>
-  );
-};
+      </AdminCard>
 
-// Add SettingsManager component
-const SettingsManager = () => {
-  return (
-    <div className="space-y-6">
-      <h2 className="text-2xl font-bold text-gray-900">Settings</h2>
-      <div className="bg-white rounded-lg shadow p-6">
-        <p className="text-gray-500">Settings management coming soon...</p>
-      </div>
+      <PaymentMethodsManager />
     </div>
   );
 };
@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Check, Clock, Loader2, MessageSquare, RefreshCw, Search, XCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { ReceiptHeader, ReceiptSection } from '../components/ReceiptModal';
+import { formatDate } from '../utils/date-helpers';
+import { DEFAULT_CURRENCY, formatMoney } from '../utils/money';
+import { sanitizeInput } from '../utils/sanitize';
+import {
+  buildRenewalPath,
+  formatOrderItemName,
+  type LineDeliveryStatus,
+  type OrderLookup,
+  type OrderStatus as OrderStatusValue,
+  type PublicOrderEvent
+} from '../types/order';
+
+interface TimelineStep {
+  status: OrderStatusValue;
+  label: string;
+  description: string;
+}
+
+const TIMELINE_STEPS: TimelineStep[] = [
+  { status: 'pending', label: 'Order Received', description: 'We are verifying your payment' },
+  { status: 'processing', label: 'Processing', description: 'Staff confirmed your payment and are preparing your rank' },
+  { status: 'completed', label: 'Delivered', description: 'Your rank is active, log in to the server to use it' }
+];
+
+// Per-item delivery of a multi-item order
+const LINE_DELIVERY_LABELS: Record<LineDeliveryStatus, string> = {
+  pending: 'Delivering',
+  delivered: 'Delivered',
+  failed: 'Needs staff'
+};
+
+const LINE_DELIVERY_CLASSES: Record<LineDeliveryStatus, string> = {
+  pending: 'text-amber-600',
+  delivered: 'text-emerald-600',
+  failed: 'text-red-500'
+};
+
+// Memoized timeline row
+const TimelineRow = React.memo(({
+  step,
+  state,
+  timestamp,
+  isLast
+}: {
+  step: TimelineStep;
+  state: 'done' | 'current' | 'upcoming';
+  timestamp?: string;
+  isLast: boolean;
+}) => (
+  <div className="flex gap-3">
+    <div className="flex flex-col items-center">
+      <div className={`w-7 h-7 rounded-full flex items-center justify-center shrink-0 ${
+        state === 'done'
+          ? 'bg-emerald-500 text-white'
+          : state === 'current'
+            ? 'bg-emerald-100 text-emerald-600 ring-2 ring-emerald-500'
+            : 'bg-gray-100 text-gray-400'
+      }`}>
+        {state === 'done' ? <Check size={14} /> : <Clock size={14} />}
+      </div>
+      {!isLast && (
+        <div className={`w-px flex-1 min-h-[24px] ${state === 'done' ? 'bg-emerald-400' : 'bg-gray-200'}`}></div>
+      )}
+    </div>
+    <div className="pb-5">
+      <p className={`text-sm font-medium ${state === 'upcoming' ? 'text-gray-400' : 'text-gray-700'}`}>{step.label}</p>
+      <p className="text-xs text-gray-500">{step.description}</p>
+      {timestamp && <p className="text-xs text-gray-400 mt-0.5">{formatDate(timestamp)}</p>}
+    </div>
+  </div>
+));
+
+const OrderStatusPage: React.FC = () => {
+  const { orderNumber = '' } = useParams<{ orderNumber: string }>();
+  const [searchParams] = useSearchParams();
+  const [username, setUsername] = useState(searchParams.get('username') || '');
+  const [order, setOrder] = useState<OrderLookup | null>(null);
+  const [events, setEvents] = useState<PublicOrderEvent[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [logoImage, setLogoImage] = useState('https://i.imgur.com/ArKEQz1.png');
+  const [siteTitle, setSiteTitle] = useState('Champa Store');
+
+  // Fetch branding used on the receipt
+  useEffect(() => {
+    const fetchBranding = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('site_config')
+          .select('key, value')
+          .in('key', ['site_title', 'receipt_logo_image', 'logo_image']);
+
+        if (error) throw error;
+
+        const configObj = (data || []).reduce((acc: Record<string, string>, item: { key: string; value: string }) => {
+          acc[item.key] = item.value;
+          return acc;
+        }, {});
+
+        setLogoImage(configObj.receipt_logo_image || configObj.logo_image || 'https://i.imgur.com/ArKEQz1.png');
+        if (configObj.site_title) setSiteTitle(configObj.site_title);
+      } catch (error) {
+        console.error('Error fetching branding:', error);
+      }
+    };
+
+    fetchBranding();
+  }, []);
+
+  const lookupOrder = useCallback(async (lookupUsername: string) => {
+    const cleanUsername = sanitizeInput(lookupUsername);
+    if (!cleanUsername) {
+      setError('Please enter the Minecraft username used for this order');
+      return;
+    }
+
+    setIsSearching(true);
+    setError(null);
+
+    try {
+      const lookupParams = { p_order_number: orderNumber, p_username: cleanUsername };
+      const [orderResult, eventsResult] = await Promise.all([
+        supabase.rpc('lookup_order', lookupParams),
+        supabase.rpc('lookup_order_events', lookupParams)
+      ]);
+
+      if (orderResult.error) throw orderResult.error;
+
+      const data = orderResult.data;
+      const match = Array.isArray(data) ? data[0] : data;
+      if (!match) {
+        setOrder(null);
+        setEvents([]);
+        setError('No order found for this order ID and username');
+        return;
+      }
+
+      // History is a nice-to-have; the status alone still answers the customer
+      if (eventsResult.error) {
+        console.error('Order history lookup failed:', eventsResult.error);
+      }
+
+      setOrder({
+        ...match,
+        items: Array.isArray(match.items) ? match.items : [],
+        total_amount: Number(match.total_amount) || 0,
+        currency: match.currency || DEFAULT_CURRENCY
+      });
+      setEvents(eventsResult.data || []);
+    } catch (err) {
+      console.error('Order lookup failed:', err);
+      setError('Failed to look up your order. Please try again.');
+    } finally {
+      setIsSearching(false);
+    }
+  }, [orderNumber]);
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    lookupOrder(username);
+  };
+
+  // Look up straight away when the username came from the receipt link
+  const linkedUsername = searchParams.get('username');
+  useEffect(() => {
+    if (linkedUsername) {
+      lookupOrder(linkedUsername);
+    }
+  }, [linkedUsername, lookupOrder]);
+
+  const currentStepIndex = useMemo(
+    () => TIMELINE_STEPS.findIndex(step => step.status === order?.status),
+    [order]
+  );
+
+  // When each status was reached, taken from the latest event for it
+  const statusTimestamps = useMemo(() => {
+    const timestamps: Partial<Record<OrderStatusValue, string>> = {};
+    events.forEach(event => {
+      if (event.to_status && event.event_type !== 'note') {
+        timestamps[event.to_status] = event.created_at;
+      }
+    });
+    return timestamps;
+  }, [events]);
+
+  const staffNotes = useMemo(() => events.filter(event => event.note), [events]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-xl shadow-2xl overflow-hidden">
+        <div className="p-6">
+          <ReceiptHeader
+            logoUrl={logoImage}
+            storeName={siteTitle}
+            subtitle="Order Status"
+            badge={`#${orderNumber}`}
+          />
+
+          <form onSubmit={handleLookup} className="mb-5">
+            <label className="block text-xs font-medium text-emerald-600 uppercase tracking-wider mb-2" htmlFor="lookup-username">
+              Minecraft Username
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="lookup-username"
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Username used for this order"
+                className="flex-1 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                required
+              />
+              <button
+                type="submit"
+                disabled={isSearching}
+                className="bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg px-4 py-2 text-sm font-medium flex items-center gap-1.5 transition-colors disabled:opacity-50"
+              >
+                {isSearching ? <Loader2 size={16} className="animate-spin" /> : <Search size={16} />}
+                Check
+              </button>
+            </div>
+            {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+          </form>
+
+          {order && (
+            <>
+              <div className="mb-5 bg-gray-50 p-4 rounded-lg border border-gray-100">
+                {order.rank_name && order.items.length <= 1 ? (
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-xs font-medium text-emerald-600 uppercase tracking-wider">Item</span>
+                    <span className="text-sm text-gray-700">{order.rank_name} Rank</span>
+                  </div>
+                ) : (
+                  <div className="mb-2">
+                    <span className="text-xs font-medium text-emerald-600 uppercase tracking-wider">Items</span>
+                    {order.items.map((item, index) => (
+                      <div key={`${item.name}-${index}`} className="flex justify-between items-center mt-1">
+                        <span className="text-sm text-gray-700">{formatOrderItemName(item)}</span>
+                        {order.status === 'completed' && item.delivery_status && (
+                          <span className={`text-xs ${LINE_DELIVERY_CLASSES[item.delivery_status]}`}>
+                            {LINE_DELIVERY_LABELS[item.delivery_status]}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-xs font-medium text-emerald-600 uppercase tracking-wider">Platform</span>
+                  <span className="text-sm text-gray-700">{order.platform === 'java' ? 'Java Edition' : 'Bedrock Edition'}</span>
+                </div>
+                {order.gift_recipient_name && (
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-xs font-medium text-emerald-600 uppercase tracking-wider">Gift For</span>
+                    <span className="text-sm text-gray-700">
+                      {order.gift_recipient_name} ({order.gift_recipient_platform === 'java' ? 'Java' : 'Bedrock'})
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between items-center">
+                  <span className="text-xs font-medium text-emerald-600 uppercase tracking-wider">Total Amount</span>
+                  <span className="text-sm text-gray-700">{formatMoney(order.total_amount, order.currency)}</span>
+                </div>
+                {order.expires_at && (
+                  <div className="flex justify-between items-center mt-2">
+                    <span className="text-xs font-medium text-emerald-600 uppercase tracking-wider">
+                      {new Date(order.expires_at).getTime() > Date.now() ? 'Expires' : 'Expired'}
+                    </span>
+                    <span className="text-sm text-gray-700">{formatDate(order.expires_at)}</span>
+                  </div>
+                )}
+                {order.expires_at && order.rank_name && (
+                  <a
+                    href={buildRenewalPath({ ...order, rank_name: order.rank_name })}
+                    className="mt-3 w-full flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium rounded-lg py-2 transition-colors"
+                  >
+                    <RefreshCw size={14} />
+                    Renew {order.rank_name}
+                  </a>
+                )}
+              </div>
+
+              <ReceiptSection title="Progress" className="mb-2">
+                {order.status === 'cancelled' ? (
+                  <div className="flex items-start gap-3 bg-red-50 border border-red-100 rounded-lg p-3">
+                    <XCircle size={18} className="text-red-500 shrink-0 mt-0.5" />
+                    <div>
+                      <p className="text-sm font-medium text-red-600">Order Cancelled</p>
+                      <p className="text-xs text-gray-500">Please contact us on Discord if you think this is a mistake</p>
+                      <p className="text-xs text-gray-400 mt-0.5">{formatDate(statusTimestamps.cancelled || order.updated_at)}</p>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="pt-1">
+                    {TIMELINE_STEPS.map((step, index) => (
+                      <TimelineRow
+                        key={step.status}
+                        step={step}
+                        state={index < currentStepIndex || order.status === 'completed'
+                          ? 'done'
+                          : index === currentStepIndex ? 'current' : 'upcoming'}
+                        timestamp={statusTimestamps[step.status] || (index === 0
+                          ? order.created_at
+                          : index === currentStepIndex ? order.updated_at : undefined)}
+                        isLast={index === TIMELINE_STEPS.length - 1}
+                      />
+                    ))}
+                  </div>
+                )}
+              </ReceiptSection>
+
+              {staffNotes.length > 0 && (
+                <ReceiptSection title="Updates" className="mb-2">
+                  <div className="space-y-2">
+                    {staffNotes.map((event, index) => (
+                      <div key={`${event.created_at}-${index}`} className="flex items-start gap-2 bg-gray-50 border border-gray-100 rounded-lg p-3">
+                        <MessageSquare size={14} className="text-emerald-500 shrink-0 mt-0.5" />
+                        <div>
+                          <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{event.note}</p>
+                          <p className="text-xs text-gray-400 mt-0.5">{formatDate(event.created_at)}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </ReceiptSection>
+              )}
+            </>
+          )}
+
+          <div className="pt-4 border-t border-gray-200 text-center text-xs text-gray-500">
+            <p>For support, please contact us on Discord</p>
+            <a href="/" className="inline-block mt-2 text-emerald-600 hover:underline">Back to store</a>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderStatusPage;
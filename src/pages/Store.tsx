@@ -1,96 +1,39 @@
-import React, { useState, memo, lazy, Suspense, useEffect } from 'react';
-import { ShoppingCart, Check, Server } from 'lucide-react';
+import React, { useState, lazy, Suspense, useEffect, useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ShoppingCart, Server } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { supabase } from '../lib/supabase';
+import { fetchCatalog, fetchCategories } from '../lib/catalog';
+import SaleCountdownBanner from '../components/SaleCountdownBanner';
+import ShopCatalog from '../components/ShopCatalog';
+import CartDrawer from '../components/CartDrawer';
+import RankComparisonTable from '../components/RankComparisonTable';
+import CurrencySwitcher from '../components/CurrencySwitcher';
+import type { Platform } from '../types/order';
+import type { CatalogProduct, ProductCategory } from '../types/product';
+import {
+  addCartLine,
+  getCartItemCount,
+  MAX_CART_LINES,
+  parseStoredCart,
+  setCartLineQuantity,
+  type CartLine
+} from '../types/cart';
+
+const CART_STORAGE_KEY = 'champa-cart';
+
+const loadStoredCart = (): CartLine[] => {
+  try {
+    return parseStoredCart(JSON.parse(localStorage.getItem(CART_STORAGE_KEY) || '[]'));
+  } catch {
+    return [];
+  }
+};
 
 // Lazy load modals for better initial load performance
 const OrderModal = lazy(() => import('../components/OrderModal'));
 const ServerStatusModal = lazy(() => import('../components/ServerStatusModal'));
 
-// Memoized feature item component for better performance
-const FeatureItem = memo(({ icon: Icon, title, description }: { icon: React.ElementType, title: string, description: string }) => (
-  <div className="flex items-center gap-3 p-2 sm:p-3 bg-gray-700/30 rounded-lg hover:bg-gray-700/50 transition-colors">
-    <Icon className="text-emerald-400 flex-shrink-0" size={18} />
-    <div>
-      <h4 className="text-white font-semibold text-sm sm:text-base">{title}</h4>
-      <p className="text-gray-400 text-xs sm:text-sm">{description}</p>
-    </div>
-  </div>
-));
-
-// Extract card components to minimize re-renders
-const PremiumFeaturesCard = memo(({ features, onOpenOrderModal }: { 
-  features: Array<{ icon: React.ElementType, title: string, description: string }>,
-  onOpenOrderModal: () => void
-}) => (
-              <div className="bg-gray-800/80 backdrop-blur-sm rounded-xl sm:rounded-2xl p-4 sm:p-6 md:p-8 shadow-lg sm:shadow-xl border border-gray-700">
-                <h3 className="text-xl sm:text-2xl font-bold text-white mb-4 sm:mb-6">Premium Features</h3>
-                <div className="space-y-3 sm:space-y-4 mb-6 sm:mb-8">
-      {features.map((item, index) => (
-                    <FeatureItem 
-                      key={index}
-                      icon={item.icon}
-                      title={item.title}
-                      description={item.description}
-                    />
-                  ))}
-                </div>
-                
-                <button 
-      onClick={onOpenOrderModal}
-                  className="w-full bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700 text-white rounded-lg py-2.5 sm:py-3 px-4 sm:px-6 flex items-center justify-center gap-2 transition duration-300 transform hover:scale-[1.02] text-sm sm:text-base font-medium"
-                >
-                  <ShoppingCart size={16} className="sm:hidden" />
-                  <ShoppingCart size={18} className="hidden sm:block" />
-                  Purchase Rank
-                </button>
-              </div>
-));
-
-const MinecraftAccountCard = memo(() => (
-              <div className="bg-gray-800/80 backdrop-blur-sm rounded-xl sm:rounded-2xl p-4 sm:p-6 md:p-8 shadow-lg sm:shadow-xl border border-gray-700">
-                <h3 className="text-xl sm:text-2xl font-bold text-white mb-4 sm:mb-6">Minecraft Accounts</h3>
-                <div className="space-y-3 sm:space-y-4 mb-6 sm:mb-8">
-                  <div className="flex items-center gap-3 p-2 sm:p-3 bg-gray-700/30 rounded-lg hover:bg-gray-700/50 transition-colors">
-                    <Check className="text-emerald-400 flex-shrink-0" size={18} />
-                    <div>
-                      <h4 className="text-white font-semibold text-sm sm:text-base">Full Access Account</h4>
-                      <p className="text-gray-400 text-xs sm:text-sm">Original Minecraft account with full access</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-3 p-2 sm:p-3 bg-gray-700/30 rounded-lg hover:bg-gray-700/50 transition-colors">
-                    <Check className="text-emerald-400 flex-shrink-0" size={18} />
-                    <div>
-                      <h4 className="text-white font-semibold text-sm sm:text-base">Email Access</h4>
-                      <p className="text-gray-400 text-xs sm:text-sm">Complete email access included</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-3 p-2 sm:p-3 bg-gray-700/30 rounded-lg hover:bg-gray-700/50 transition-colors">
-                    <Check className="text-emerald-400 flex-shrink-0" size={18} />
-                    <div>
-                      <h4 className="text-white font-semibold text-sm sm:text-base">Instant Delivery</h4>
-                      <p className="text-gray-400 text-xs sm:text-sm">Get your account details instantly after purchase</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-3 p-2 sm:p-3 bg-gray-700/30 rounded-lg hover:bg-gray-700/50 transition-colors">
-                    <Check className="text-emerald-400 flex-shrink-0" size={18} />
-                    <div>
-                      <h4 className="text-white font-semibold text-sm sm:text-base">24/7 Support</h4>
-                      <p className="text-gray-400 text-xs sm:text-sm">Full support for any issues or questions</p>
-                    </div>
-                  </div>
-                </div>
-                
-                <button 
-                  onClick={() => window.open('https://cipher88.store', '_blank')}
-                  className="w-full bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white rounded-lg py-2.5 sm:py-3 px-4 sm:px-6 flex items-center justify-center gap-2 transition duration-300 transform hover:scale-[1.02] text-sm sm:text-base font-medium"
-                >
-                  <ShoppingCart size={16} className="sm:hidden" />
-                  <ShoppingCart size={18} className="hidden sm:block" />
-                  Buy Account
-                </button>
-              </div>
-));
-
 const Store: React.FC = () => {
   const [isOrderModalOpen, setIsOrderModalOpen] = useState<boolean>(false);
   const [isServerStatusModalOpen, setIsServerStatusModalOpen] = useState<boolean>(false);
@@ -102,14 +45,74 @@ const Store: React.FC = () => {
   });
   const [maintenanceMode, setMaintenanceMode] = useState(false);
   const [loading, setLoading] = useState(true);
+  // Player and rank a renewal link opened the order form for
+  const [renewal, setRenewal] = useState<{ name: string; platform: Platform; rankName: string } | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [catalog, setCatalog] = useState<CatalogProduct[]>([]);
+  const [categories, setCategories] = useState<ProductCategory[]>([]);
+  const [cart, setCart] = useState<CartLine[]>(loadStoredCart);
+  const [isCartOpen, setIsCartOpen] = useState(false);
+  // The order form checks out the cart, rather than a single rank
+  const [isCartCheckout, setIsCartCheckout] = useState(false);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cart));
+    } catch (error) {
+      console.error('Error saving cart:', error);
+    }
+  }, [cart]);
+
+  useEffect(() => {
+    Promise.all([fetchCategories(), fetchCatalog()])
+      .then(([categoryData, productData]) => {
+        setCategories(categoryData);
+        setCatalog(productData);
+      })
+      .catch(error => console.error('Error fetching products:', error));
+  }, []);
+
+  // Ranks sold here, in display order, for the comparison table
+  const comparedRanks = useMemo(() =>
+    catalog.filter(product => product.item_type === 'rank' && !product.purchase_url),
+    [catalog]
+  );
+
+  const handleAddToCart = useCallback((product: CatalogProduct) => {
+    const next = addCartLine(cart, { product_id: product.id, name: product.name, item_type: product.item_type });
+    if (next === cart) {
+      toast.error(`Your cart can hold up to ${MAX_CART_LINES} different items`);
+      return;
+    }
+
+    setCart(next);
+    toast.success(`${product.name} added to your cart`);
+  }, [cart]);
 
-  // Feature items data
-  const featureItems = [
-    { icon: Check, title: "Role Discord Access", description: "Exclusive access to VIP room" },
-    { icon: Check, title: "Special Commands", description: "Access to special commands and abilities" },
-    { icon: Check, title: "Priority Support", description: "Get priority access to support services" },
-    { icon: Check, title: "Custom Perks", description: "Unique perks based on your rank level" }
-  ];
+  const handleCartQuantityChange = useCallback((productId: number, quantity: number) => {
+    setCart(lines => setCartLineQuantity(lines, productId, quantity));
+  }, []);
+
+  const handleCheckout = useCallback(() => {
+    setIsCartOpen(false);
+    setIsCartCheckout(true);
+    setIsOrderModalOpen(true);
+  }, []);
+
+  // Renewal links look like /?renew=VIP&username=Steve&platform=java
+  useEffect(() => {
+    const rankName = searchParams.get('renew');
+    if (!rankName) return;
+
+    const platform = searchParams.get('platform');
+    setRenewal({
+      name: searchParams.get('username') || '',
+      platform: platform === 'bedrock' ? 'bedrock' : 'java',
+      rankName
+    });
+    setIsOrderModalOpen(true);
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
 
   // Fetch site configuration
   useEffect(() => {
@@ -221,6 +224,23 @@ const Store: React.FC = () => {
             <h1 className="text-white text-xl sm:text-2xl font-bold tracking-wider">{config.site_title}</h1>
           </div>
           
+          <div className="flex items-center gap-2 sm:gap-3">
+          <CurrencySwitcher />
+
+          {/* Cart Button */}
+          <button
+            onClick={() => setIsCartOpen(true)}
+            className="relative flex items-center justify-center bg-gray-800/80 hover:bg-gray-700 text-white w-10 h-10 rounded-lg border border-gray-700 transition-colors"
+            aria-label="Open cart"
+          >
+            <ShoppingCart size={18} />
+            {cart.length > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 min-w-[20px] h-5 px-1 rounded-full bg-emerald-500 text-white text-xs font-semibold flex items-center justify-center">
+                {getCartItemCount(cart)}
+              </span>
+            )}
+          </button>
+
           {/* Join Champa Now Button */}
           <button
             onClick={() => setIsServerStatusModalOpen(true)}
@@ -238,8 +258,12 @@ const Store: React.FC = () => {
           >
             <Server size={18} />
           </button>
+          </div>
         </header>
 
+        {/* Live sale countdown */}
+        <SaleCountdownBanner onShopNow={() => setIsOrderModalOpen(true)} />
+
         {/* Static Banner */}
         <div className="mx-auto w-full max-w-6xl px-3 sm:px-4 mt-3 sm:mt-4 mb-4 sm:mb-8">
           <div className="relative w-full overflow-hidden rounded-xl sm:rounded-2xl shadow-xl sm:shadow-2xl">
@@ -265,17 +289,24 @@ const Store: React.FC = () => {
               Experience the power of our premium ranks and get your own Minecraft account
             </p>
             
-            {/* Features Grid */}
-            <div className="grid md:grid-cols-2 gap-6 max-w-6xl mx-auto">
-              {/* Premium Features Card - Using memoized component */}
-              <PremiumFeaturesCard 
-                features={featureItems} 
-                onOpenOrderModal={() => setIsOrderModalOpen(true)} 
-              />
+            {/* Catalog */}
+            <ShopCatalog
+              categories={categories}
+              products={catalog}
+              cartLines={cart}
+              onAddToCart={handleAddToCart}
+            />
 
-              {/* Minecraft Account Card - Using memoized component */}
-              <MinecraftAccountCard />
-            </div>
+            {/* Rank comparison */}
+            {comparedRanks.some(rank => rank.perks.length > 0) && (
+              <section className="mt-10 sm:mt-16">
+                <h2 className="text-2xl sm:text-3xl text-white font-bold text-center mb-2">Compare Ranks</h2>
+                <p className="text-gray-300 text-center mb-6 text-sm sm:text-base">
+                  Every rank keeps the perks of the ranks below it
+                </p>
+                <RankComparisonTable ranks={comparedRanks} />
+              </section>
+            )}
           </div>
         </main>
 
@@ -290,12 +321,30 @@ const Store: React.FC = () => {
         </footer>
       </div>
 
+      <CartDrawer
+        isOpen={isCartOpen}
+        onClose={() => setIsCartOpen(false)}
+        lines={cart}
+        products={catalog}
+        onQuantityChange={handleCartQuantityChange}
+        onCheckout={handleCheckout}
+      />
+
       {/* Modals */}
       <Suspense fallback={null}>
         {isOrderModalOpen && (
           <OrderModal
             isOpen={isOrderModalOpen}
-            onClose={() => setIsOrderModalOpen(false)}
+            onClose={() => {
+              setIsOrderModalOpen(false);
+              setIsCartCheckout(false);
+              setRenewal(null);
+            }}
+            name={renewal?.name}
+            platform={renewal?.platform}
+            rankName={renewal?.rankName}
+            cartLines={isCartCheckout ? cart : undefined}
+            onOrderPlaced={isCartCheckout ? () => setCart([]) : undefined}
           />
         )}
         {isServerStatusModalOpen && (
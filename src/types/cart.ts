@@ -0,0 +1,95 @@
+// Shopping cart kept in the browser until checkout. The server re-prices
+// every line when it quotes the cart, so only product ids, names and
+// quantities are stored here.
+import { isItemType, type ItemType } from './product';
+import type { QuoteLine } from './order';
+
+export interface CartLine {
+  product_id: number;
+  name: string;
+  item_type: ItemType;
+  quantity: number;
+}
+
+// Line payload sent to the price-quote function
+export interface CartQuoteItem {
+  product: string;
+  quantity: number;
+}
+
+export const MAX_CART_LINES = 10;
+export const MAX_LINE_QUANTITY = 64;
+
+// A player holds one rank at a time, so a cart holds at most one
+export function getCartRankLine<T extends Pick<CartLine, 'item_type'>>(lines: T[]): T | undefined {
+  return lines.find(line => line.item_type === 'rank');
+}
+
+export function getCartItemCount(lines: CartLine[]): number {
+  return lines.reduce((count, line) => count + line.quantity, 0);
+}
+
+/**
+ * Adds a product to the cart. A rank replaces the rank already in the cart;
+ * other items add to the quantity of their line.
+ */
+export function addCartLine(
+  lines: CartLine[],
+  product: Pick<CartLine, 'product_id' | 'name' | 'item_type'>,
+  quantity = 1
+): CartLine[] {
+  if (product.item_type === 'rank') {
+    return [
+      ...lines.filter(line => line.item_type !== 'rank'),
+      { ...product, quantity: 1 }
+    ];
+  }
+
+  const existing = lines.find(line => line.product_id === product.product_id);
+  if (existing) {
+    return setCartLineQuantity(lines, product.product_id, existing.quantity + quantity);
+  }
+
+  if (lines.length >= MAX_CART_LINES) return lines;
+  return [...lines, { ...product, quantity: Math.min(Math.max(quantity, 1), MAX_LINE_QUANTITY) }];
+}
+
+// Sets a line's quantity; zero removes it. Rank lines always have one.
+export function setCartLineQuantity(lines: CartLine[], productId: number, quantity: number): CartLine[] {
+  if (quantity <= 0) {
+    return lines.filter(line => line.product_id !== productId);
+  }
+
+  return lines.map(line => line.product_id === productId
+    ? { ...line, quantity: line.item_type === 'rank' ? 1 : Math.min(Math.floor(quantity), MAX_LINE_QUANTITY) }
+    : line);
+}
+
+export function toCartQuoteItems(lines: Pick<CartLine, 'name' | 'quantity'>[]): CartQuoteItem[] {
+  return lines.map(line => ({ product: line.name, quantity: line.quantity }));
+}
+
+// Whether a quote was issued for exactly these cart lines
+export function isQuoteForItems(
+  quoteLines: Pick<QuoteLine, 'product_name' | 'quantity'>[],
+  items: CartQuoteItem[]
+): boolean {
+  return quoteLines.length === items.length &&
+    items.every((item, index) =>
+      quoteLines[index].product_name === item.product && quoteLines[index].quantity === item.quantity);
+}
+
+// Cart restored from browser storage; anything malformed is dropped
+export function parseStoredCart(value: unknown): CartLine[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((line): line is CartLine =>
+      !!line && typeof line === 'object' &&
+      Number.isInteger(line.product_id) &&
+      typeof line.name === 'string' &&
+      isItemType(line.item_type) &&
+      Number.isInteger(line.quantity) && line.quantity > 0)
+    .slice(0, MAX_CART_LINES)
+    .reduce<CartLine[]>((lines, line) => addCartLine(lines, line, line.quantity), []);
+}
@@ -0,0 +1,70 @@
+// Coupon model shared by the admin dashboard and the Netlify functions that
+// validate and redeem codes. Mirrors the `coupons` table.
+import { DEFAULT_CURRENCY, formatMoney } from '../utils/money';
+
+export type CouponDiscountType = 'percent' | 'fixed';
+
+export type CouponStatus = 'active' | 'scheduled' | 'expired' | 'disabled';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  // null applies the coupon to every product
+  product_ids: number[] | null;
+  max_uses: number | null;
+  max_uses_per_customer: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+// Codes are matched case-insensitively and stored upper-case
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function getCouponStatus(
+  coupon: Pick<Coupon, 'active' | 'starts_at' | 'ends_at'>,
+  now: number = Date.now()
+): CouponStatus {
+  if (!coupon.active) return 'disabled';
+  if (coupon.starts_at && new Date(coupon.starts_at).getTime() > now) return 'scheduled';
+  if (coupon.ends_at && new Date(coupon.ends_at).getTime() <= now) return 'expired';
+  return 'active';
+}
+
+export function couponAppliesToProduct(coupon: Pick<Coupon, 'product_ids'>, productId: number): boolean {
+  return !coupon.product_ids || coupon.product_ids.length === 0 || coupon.product_ids.includes(productId);
+}
+
+/**
+ * Amount taken off `price` by a coupon, rounded to cents and never more than
+ * the price itself.
+ */
+export function calculateCouponDiscount(
+  coupon: Pick<Coupon, 'discount_type' | 'discount_value'>,
+  price: number
+): number {
+  const discount = coupon.discount_type === 'percent'
+    ? (price * Number(coupon.discount_value)) / 100
+    : Number(coupon.discount_value);
+
+  return Math.round(Math.min(Math.max(discount, 0), price) * 100) / 100;
+}
+
+// `currency` is the store currency fixed discounts are in
+export function formatCouponValue(
+  coupon: Pick<Coupon, 'discount_type' | 'discount_value'>,
+  currency: string = DEFAULT_CURRENCY
+): string {
+  return coupon.discount_type === 'percent'
+    ? `${Number(coupon.discount_value)}% off`
+    : `${formatMoney(Number(coupon.discount_value), currency)} off`;
+}
@@ -0,0 +1,253 @@
+// Canonical order model shared by the store, the receipt, the admin dashboard
+// and the Netlify functions. Mirrors the `orders` table.
+import type { ItemType } from './product';
+import { DEFAULT_CURRENCY } from '../utils/money';
+
+export type OrderStatus = 'pending' | 'processing' | 'completed' | 'cancelled';
+
+export type Platform = 'java' | 'bedrock';
+
+// An upgrade is charged the difference from the rank the player already owns
+export type OrderType = 'purchase' | 'upgrade';
+
+// Progress of the automatic RCON delivery that starts when an order is completed
+export type DeliveryStatus = 'none' | 'pending' | 'waiting_for_player' | 'delivering' | 'delivered' | 'failed';
+
+// Delivery of one line of an order; lines are retried until every one is delivered
+export type LineDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One line of an order. Orders placed before carts only have `name` and `price`.
+export interface OrderItem {
+  name: string;
+  // Line total before any coupon
+  price: number;
+  product_id?: number;
+  product_name?: string;
+  item_type?: ItemType;
+  quantity?: number;
+  unit_price?: number;
+  delivery_status?: LineDeliveryStatus;
+  delivery_error?: string | null;
+  delivered_at?: string | null;
+}
+
+export interface Order {
+  id: string;
+  order_number: string;
+  customer_name: string;
+  customer_phone: string | null;
+  platform: Platform;
+  // The order's rank line; null when the order only has other items
+  rank_name: string | null;
+  order_type: OrderType;
+  upgrade_from: string | null;
+  items: OrderItem[];
+  total_amount: number;
+  // ISO 4217 code the order was charged in: the store currency when it was placed
+  currency: string;
+  // The method the customer paid with; the name is kept if the method is deleted
+  payment_method_id: string | null;
+  payment_method: string | null;
+  // The method's fee, included in `total_amount`
+  payment_fee: number;
+  payment_proof_url: string | null;
+  status: OrderStatus;
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null;
+  updated_by_email: string | null;
+  delivery_status: DeliveryStatus;
+  delivery_attempts: number;
+  delivery_response: string | null;
+  delivery_error: string | null;
+  next_delivery_at: string | null;
+  delivered_at: string | null;
+  delivery_player_name: string | null;
+  delivery_queued_at: string | null;
+  delivery_waiting_since: string | null;
+  coupon_code: string | null;
+  discount_amount: number;
+  // Time-limited ranks only; null for lifetime ranks and undelivered orders
+  expires_at: string | null;
+  superseded_by: string | null;
+  revoked_at: string | null;
+  revoke_attempts: number;
+  revoke_error: string | null;
+  renewal_reminded_at: string | null;
+  // Gift orders only; the customer paid and the recipient gets the rank
+  gift_recipient_name: string | null;
+  gift_recipient_platform: Platform | null;
+  gift_message: string | null;
+}
+
+export const GIFT_MESSAGE_MAX_LENGTH = 200;
+
+// Subset of an order needed to render a receipt
+export type ReceiptOrder = Pick<
+  Order,
+  | 'order_number'
+  | 'customer_name'
+  | 'platform'
+  | 'rank_name'
+  | 'order_type'
+  | 'upgrade_from'
+  | 'items'
+  | 'total_amount'
+  | 'currency'
+  | 'coupon_code'
+  | 'discount_amount'
+  | 'payment_method'
+  | 'payment_fee'
+  | 'gift_recipient_name'
+  | 'gift_recipient_platform'
+  | 'gift_message'
+  | 'payment_proof_url'
+  | 'created_at'
+>;
+
+// Fields revealed by the public `lookup_order` function
+export type OrderLookup = Pick<
+  Order,
+  'order_number' | 'customer_name' | 'platform' | 'rank_name' | 'items' | 'total_amount' | 'currency' | 'status' | 'created_at' | 'updated_at' | 'expires_at'
+  | 'gift_recipient_name' | 'gift_recipient_platform'
+>;
+
+export type OrderEventType = 'created' | 'status_changed' | 'note';
+
+// One row of an order's audit trail. Mirrors the `order_events` table.
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  event_type: OrderEventType;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus | null;
+  note: string | null;
+  customer_visible: boolean;
+  actor_id: string | null;
+  actor_email: string | null;
+  created_at: string;
+}
+
+// Customer-visible event returned by the public `lookup_order_events` function
+export type PublicOrderEvent = Pick<OrderEvent, 'event_type' | 'to_status' | 'note' | 'created_at'>;
+
+export const ORDER_STATUSES: OrderStatus[] = ['pending', 'processing', 'completed', 'cancelled'];
+
+// Allowed status changes; enforced again by the `update_order_status` function
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['completed', 'cancelled'],
+  completed: ['cancelled'],
+  cancelled: []
+};
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Normalizes a raw `orders` row from Supabase, coercing numeric columns and
+ * filling defaults for rows written before the schema was reconciled.
+ */
+export function normalizeOrder(row: Partial<Order> & { id: string }): Order {
+  return {
+    id: row.id,
+    order_number: row.order_number || row.id,
+    customer_name: row.customer_name || 'Unknown',
+    customer_phone: row.customer_phone ?? null,
+    platform: row.platform === 'bedrock' ? 'bedrock' : 'java',
+    rank_name: row.rank_name || null,
+    order_type: row.order_type === 'upgrade' ? 'upgrade' : 'purchase',
+    upgrade_from: row.upgrade_from ?? null,
+    items: Array.isArray(row.items)
+      ? row.items.map(item => ({ ...item, name: item.name, price: Number(item.price) || 0 }))
+      : [],
+    total_amount: Number(row.total_amount) || 0,
+    currency: row.currency || DEFAULT_CURRENCY,
+    payment_method_id: row.payment_method_id ?? null,
+    payment_method: row.payment_method ?? null,
+    payment_fee: Number(row.payment_fee) || 0,
+    payment_proof_url: row.payment_proof_url ?? null,
+    status: row.status && ORDER_STATUSES.includes(row.status) ? row.status : 'pending',
+    created_at: row.created_at || '',
+    updated_at: row.updated_at || row.created_at || '',
+    updated_by: row.updated_by ?? null,
+    updated_by_email: row.updated_by_email ?? null,
+    delivery_status: row.delivery_status || 'none',
+    delivery_attempts: Number(row.delivery_attempts) || 0,
+    delivery_response: row.delivery_response ?? null,
+    delivery_error: row.delivery_error ?? null,
+    next_delivery_at: row.next_delivery_at ?? null,
+    delivered_at: row.delivered_at ?? null,
+    delivery_player_name: row.delivery_player_name ?? null,
+    delivery_queued_at: row.delivery_queued_at ?? null,
+    delivery_waiting_since: row.delivery_waiting_since ?? null,
+    coupon_code: row.coupon_code ?? null,
+    discount_amount: Number(row.discount_amount) || 0,
+    expires_at: row.expires_at ?? null,
+    superseded_by: row.superseded_by ?? null,
+    revoked_at: row.revoked_at ?? null,
+    revoke_attempts: Number(row.revoke_attempts) || 0,
+    revoke_error: row.revoke_error ?? null,
+    renewal_reminded_at: row.renewal_reminded_at ?? null,
+    gift_recipient_name: row.gift_recipient_name ?? null,
+    gift_recipient_platform: row.gift_recipient_platform ?? null,
+    gift_message: row.gift_message ?? null
+  };
+}
+
+// One quoted product; `price` is the line total before any coupon
+export interface QuoteLine {
+  product_id: number;
+  product_name: string;
+  item_type: ItemType;
+  quantity: number;
+  unit_price: number;
+  original_unit_price: number | null;
+  price: number;
+}
+
+// Server-issued price for a cart, referenced by the order it pays for
+export interface PriceQuote {
+  id: string;
+  // The rank line's product, or the first line's when there is no rank
+  product_name: string;
+  lines: QuoteLine[];
+  // Total for every line, after the upgrade credit and coupon
+  price: number;
+  original_price: number | null;
+  // Upgrade quotes are priced for, and only valid for, the player that owns `upgrade_from`
+  order_type: OrderType;
+  upgrade_from: string | null;
+  // Coupon applied to the quote; `price` is already discounted
+  coupon_code: string | null;
+  discount_amount: number;
+  expires_at: string;
+  signature: string;
+}
+
+type RankHolderFields = Pick<Order, 'customer_name' | 'platform'> &
+  Partial<Pick<Order, 'gift_recipient_name' | 'gift_recipient_platform'>>;
+
+// Player who receives the order's rank: the recipient of a gift, otherwise the customer
+export function getRankHolder(order: RankHolderFields): { name: string; platform: Platform } {
+  return order.gift_recipient_name && order.gift_recipient_platform
+    ? { name: order.gift_recipient_name, platform: order.gift_recipient_platform }
+    : { name: order.customer_name, platform: order.platform };
+}
+
+// Store link that opens the order form pre-filled to renew a rank
+export function buildRenewalPath(order: RankHolderFields & { rank_name: string }): string {
+  const holder = getRankHolder(order);
+  const params = new URLSearchParams({
+    renew: order.rank_name,
+    username: holder.name,
+    platform: holder.platform
+  });
+  return `/?${params.toString()}`;
+}
+
+// Label for an order line, e.g. "VIP" or "3x Vote Key"
+export function formatOrderItemName(item: Pick<OrderItem, 'name' | 'quantity'>): string {
+  return item.quantity && item.quantity > 1 ? `${item.quantity}x ${item.name}` : item.name;
+}
@@ -0,0 +1,43 @@
+// Ways customers can pay for an order. Mirrors the `payment_methods` table.
+// A method's fee is added to the order total by the create-order function.
+
+export type PaymentMethodKind = 'bank_qr' | 'ewallet' | 'paypal';
+
+export const PAYMENT_METHOD_KINDS: PaymentMethodKind[] = ['bank_qr', 'ewallet', 'paypal'];
+
+export const PAYMENT_METHOD_KIND_LABELS: Record<PaymentMethodKind, string> = {
+  bank_qr: 'Bank QR',
+  ewallet: 'E-wallet',
+  paypal: 'PayPal'
+};
+
+export interface PaymentMethod {
+  id: string;
+  name: string;
+  kind: PaymentMethodKind;
+  instructions: string;
+  // Bank account, phone number or PayPal email; empty when the QR code is enough
+  account_number: string;
+  qr_image_url: string;
+  fee_percent: number;
+  // In the store currency
+  fee_fixed: number;
+  active: boolean;
+  sort_order: number;
+}
+
+export function isPaymentMethodKind(value: unknown): value is PaymentMethodKind {
+  return typeof value === 'string' && (PAYMENT_METHOD_KINDS as string[]).includes(value);
+}
+
+/**
+ * Fee a payment method adds to an order, rounded to cents
+ * @param method The method's percentage and fixed fee
+ * @param amount The order total before the fee
+ */
+export function calculatePaymentFee(method: Pick<PaymentMethod, 'fee_percent' | 'fee_fixed'>, amount: number): number {
+  if (amount <= 0) return 0;
+
+  const fee = amount * (Number(method.fee_percent) || 0) / 100 + (Number(method.fee_fixed) || 0);
+  return Math.round(fee * 100) / 100;
+}
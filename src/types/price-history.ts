@@ -0,0 +1,141 @@
+// Price history and per-product sales for the admin's price impact report.
+// Mirrors the `price_history` table and `get_product_sales_history` function.
+import { applySale, type Sale } from './sale';
+
+export interface PriceChange {
+  id: number;
+  product_id: number;
+  price: number;
+  original_price: number | null;
+  changed_at: string;
+}
+
+// A price in effect from `changed_at` with any sale campaign applied; `sale`
+// is the campaign's name, null at the list price
+export interface EffectivePriceChange extends PriceChange {
+  sale: string | null;
+}
+
+// One product's sales in one time bucket
+export interface ProductSalesPoint {
+  product_id: number;
+  bucket: string;
+  order_count: number;
+  units: number;
+  revenue: number;
+}
+
+export type PriceImpactRange = '30d' | '90d' | '1y';
+
+export const PRICE_IMPACT_RANGES: Record<PriceImpactRange, { days: number; bucketDays: number }> = {
+  '30d': { days: 30, bucketDays: 1 },
+  '90d': { days: 90, bucketDays: 1 },
+  '1y': { days: 365, bucketDays: 7 }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A stretch of the report range during which a product sold at one price
+export interface PricePeriod {
+  price: number;
+  original_price: number | null;
+  sale: string | null;
+  start: number;
+  end: number;
+  orders: number;
+  revenue: number;
+  ordersPerDay: number;
+  revenuePerDay: number;
+}
+
+const timeOf = (change: Pick<PriceChange, 'changed_at'>) => new Date(change.changed_at).getTime();
+
+/**
+ * Adds sale campaigns to one product's price history. `price_history` only
+ * records list prices, so the start and end of each sale on the product become
+ * changes to and from the discounted price. Sales before the product's first
+ * recorded price are left out.
+ */
+export function applySalesToPriceHistory(
+  productId: number,
+  changes: PriceChange[],
+  sales: Sale[],
+  now = Date.now()
+): EffectivePriceChange[] {
+  const sorted = [...changes].sort((a, b) => timeOf(a) - timeOf(b));
+  if (sorted.length === 0) return [];
+
+  const productSales = sales.filter(sale =>
+    !sale.product_ids || sale.product_ids.length === 0 || sale.product_ids.includes(productId));
+  const times = [...new Set([
+    ...sorted.map(timeOf),
+    ...productSales.flatMap(sale => [new Date(sale.starts_at).getTime(), new Date(sale.ends_at).getTime()])
+  ])]
+    .filter(time => time >= timeOf(sorted[0]) && time <= now)
+    .sort((a, b) => a - b);
+
+  return times.reduce<EffectivePriceChange[]>((result, time) => {
+    const base = sorted.filter(change => timeOf(change) <= time).pop()!;
+    const effective = applySale({ id: productId, price: base.price, original_price: base.original_price }, productSales, time);
+    const previous = result[result.length - 1];
+    const sale = effective.sale?.name ?? null;
+
+    if (!previous || previous.price !== effective.price || previous.original_price !== effective.original_price || previous.sale !== sale) {
+      result.push({
+        ...base,
+        price: effective.price,
+        original_price: effective.original_price,
+        changed_at: new Date(time).toISOString(),
+        sale
+      });
+    }
+    return result;
+  }, []);
+}
+
+/**
+ * Splits `rangeStart`..`now` at each of a product's price changes and totals
+ * the product's sales in each part. Sales are placed by the start of their
+ * bucket, so a bucket a change falls in counts towards the earlier price.
+ * Time before the product's first recorded price is left out.
+ */
+export function summarizePricePeriods(
+  changes: EffectivePriceChange[],
+  points: ProductSalesPoint[],
+  rangeStart: number,
+  now = Date.now()
+): PricePeriod[] {
+  const sorted = [...changes].sort((a, b) => timeOf(a) - timeOf(b));
+
+  return sorted
+    .map((change, index) => ({
+      change,
+      start: Math.max(timeOf(change), rangeStart),
+      end: index + 1 < sorted.length ? timeOf(sorted[index + 1]) : now
+    }))
+    .filter(({ start, end }) => end > start)
+    .map(({ change, start, end }) => {
+      // The range's first bucket can start a little before the range itself
+      const from = start === rangeStart ? -Infinity : start;
+      const inPeriod = points.filter(point => {
+        const time = new Date(point.bucket).getTime();
+        return time >= from && time < end;
+      });
+      const orders = inPeriod.reduce((total, point) => total + point.order_count, 0);
+      const revenue = inPeriod.reduce((total, point) => total + point.revenue, 0);
+      // Rates over at least a day, so a price that held for an hour isn't inflated
+      const days = Math.max((end - start) / DAY_MS, 1);
+
+      return {
+        price: change.price,
+        original_price: change.original_price,
+        sale: change.sale,
+        start,
+        end,
+        orders,
+        revenue,
+        ordersPerDay: orders / days,
+        revenuePerDay: revenue / days
+      };
+    });
+}
@@ -0,0 +1,128 @@
+// Product model shared by the store, the admin dashboard and the Netlify
+// functions. Mirrors the `products` table.
+
+// Ranks are held one at a time and can be upgraded or expire; every other
+// item type is a one-off delivery that can be bought in any quantity.
+// Accounts are sold on an external store through the product's purchase URL.
+export type ItemType = 'rank' | 'key' | 'coins' | 'crate' | 'cosmetic' | 'account';
+
+export const ITEM_TYPES: ItemType[] = ['rank', 'key', 'coins', 'crate', 'cosmetic', 'account'];
+
+export const ITEM_TYPE_LABELS: Record<ItemType, string> = {
+  rank: 'Rank',
+  key: 'Crate Key',
+  coins: 'Coins',
+  crate: 'Crate',
+  cosmetic: 'Cosmetic',
+  account: 'Account'
+};
+
+export function isItemType(value: unknown): value is ItemType {
+  return typeof value === 'string' && (ITEM_TYPES as string[]).includes(value);
+}
+
+// A tab of the store's catalog. Mirrors the `product_categories` table.
+export interface ProductCategory {
+  id: string;
+  slug: string;
+  name: string;
+  description: string;
+  sort_order: number;
+}
+
+export const MAX_PRODUCT_PERKS = 20;
+export const PERK_MAX_LENGTH = 120;
+
+// Perks are edited as one bullet per line
+export function parsePerks(text: string): string[] {
+  return text
+    .split('\n')
+    .map(perk => perk.trim())
+    .filter(Boolean);
+}
+
+// Checks a perk list, returning an error message when it can't be saved
+export function validatePerks(perks: string[]): string | null {
+  if (perks.length > MAX_PRODUCT_PERKS) return `A product can list at most ${MAX_PRODUCT_PERKS} perks`;
+
+  const tooLong = perks.find(perk => perk.length > PERK_MAX_LENGTH);
+  if (tooLong) return `Perks must be at most ${PERK_MAX_LENGTH} characters: "${tooLong.slice(0, 30)}..."`;
+
+  return null;
+}
+
+// Colors and shades a product's gradient can use. Tailwind only builds classes
+// it finds in the source, so tailwind.config.js safelists exactly these.
+export const GRADIENT_COLORS = [
+  'slate', 'gray', 'red', 'orange', 'amber', 'yellow', 'lime', 'green', 'emerald', 'teal',
+  'cyan', 'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose'
+];
+export const GRADIENT_SHADES = [300, 400, 500, 600, 700, 800];
+
+const GRADIENT_STOP = `(${GRADIENT_COLORS.join('|')})-(${GRADIENT_SHADES.join('|')})`;
+const GRADIENT_PATTERN = new RegExp(`^from-${GRADIENT_STOP}( via-${GRADIENT_STOP})? to-${GRADIENT_STOP}$`);
+
+// Checks a product's `bg-gradient-to-r` color, e.g. `from-emerald-500 to-emerald-600`,
+// returning an error message when the store can't render it
+export function validateColorGradient(color: string): string | null {
+  if (GRADIENT_PATTERN.test(color.trim())) return null;
+  return `The color must be a gradient like "from-emerald-500 to-emerald-600", using ${GRADIENT_COLORS.join(', ')} with shades ${GRADIENT_SHADES.join(', ')}`;
+}
+
+// A product as the store shows it, with any live sale applied
+export interface CatalogProduct {
+  id: number;
+  name: string;
+  // Free text; line breaks separate paragraphs
+  description: string;
+  perks: string[];
+  category_id: string | null;
+  // Set for products sold on an external store rather than through the cart
+  purchase_url: string | null;
+  item_type: ItemType;
+  price: number;
+  original_price: number | null;
+  color: string;
+  image_url: string;
+  duration_days: number | null;
+  // Units left; null for unlimited
+  stock: number | null;
+}
+
+export function isSoldOut(product: Pick<CatalogProduct, 'stock'>): boolean {
+  return product.stock !== null && product.stock <= 0;
+}
+
+// How a rank gets a perk in the comparison table
+export type PerkAvailability = 'included' | 'inherited' | null;
+
+export interface RankComparisonRow {
+  perk: string;
+  // One entry per rank, in the order the ranks were given
+  availability: PerkAvailability[];
+}
+
+/**
+ * Perk matrix for ranks listed cheapest first. Each rank keeps the perks of
+ * the ranks below it, so a perk is included by the first rank that lists it
+ * and inherited by every rank above that one.
+ */
+export function buildRankComparison(ranks: Array<Pick<CatalogProduct, 'perks'>>): RankComparisonRow[] {
+  const rows: Array<RankComparisonRow & { key: string }> = [];
+
+  ranks.forEach((rank, rankIndex) => {
+    for (const perk of rank.perks) {
+      const key = perk.trim().toLowerCase();
+      if (!key || rows.some(row => row.key === key)) continue;
+
+      rows.push({
+        key,
+        perk: perk.trim(),
+        availability: ranks.map((_, index) =>
+          index < rankIndex ? null : index === rankIndex ? 'included' : 'inherited')
+      });
+    }
+  });
+
+  return rows.map(({ perk, availability }) => ({ perk, availability }));
+}
@@ -0,0 +1,65 @@
+// Scheduled sale campaigns. Mirrors the `sales` table. Sale prices are never
+// written to `products`; they are computed from the live campaigns whenever a
+// price is shown or quoted, so a sale starts and ends on its own.
+
+export interface Sale {
+  id: string;
+  name: string;
+  discount_percent: number;
+  // null puts every product on sale
+  product_ids: number[] | null;
+  starts_at: string;
+  ends_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SaleStatus = 'live' | 'scheduled' | 'ended';
+
+export interface SalePrice {
+  price: number;
+  original_price: number | null;
+  sale: Sale | null;
+}
+
+export function getSaleStatus(sale: Pick<Sale, 'starts_at' | 'ends_at'>, now: number = Date.now()): SaleStatus {
+  if (new Date(sale.starts_at).getTime() > now) return 'scheduled';
+  if (new Date(sale.ends_at).getTime() <= now) return 'ended';
+  return 'live';
+}
+
+export function isLiveSale(sale: Pick<Sale, 'starts_at' | 'ends_at'>, now: number = Date.now()): boolean {
+  return getSaleStatus(sale, now) === 'live';
+}
+
+// When campaigns overlap, a product gets the biggest discount on offer
+export function findSaleForProduct(sales: Sale[], productId: number, now: number = Date.now()): Sale | null {
+  return sales
+    .filter(sale => isLiveSale(sale, now))
+    .filter(sale => !sale.product_ids || sale.product_ids.length === 0 || sale.product_ids.includes(productId))
+    .reduce<Sale | null>((best, sale) =>
+      !best || Number(sale.discount_percent) > Number(best.discount_percent) ? sale : best, null);
+}
+
+/**
+ * Price of a product with the best live sale applied. The undiscounted price
+ * becomes the strikethrough `original_price`, unless the product already has
+ * a higher one.
+ */
+export function applySale(
+  product: { id: number; price: number; original_price: number | null },
+  sales: Sale[],
+  now: number = Date.now()
+): SalePrice {
+  const sale = findSaleForProduct(sales, product.id, now);
+  if (!sale) {
+    return { price: product.price, original_price: product.original_price, sale: null };
+  }
+
+  const price = Math.round(product.price * (100 - Number(sale.discount_percent))) / 100;
+  return {
+    price,
+    original_price: Math.max(product.original_price ?? 0, product.price),
+    sale
+  };
+}
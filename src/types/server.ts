@@ -0,0 +1,63 @@
+// Minecraft server status shared by the store's server status modal and the
+// `server-status` Netlify function that pings the server.
+
+export type ServerEdition = 'java' | 'bedrock';
+
+export interface ServerStatus {
+  online: boolean;
+  players: {
+    online: number;
+    max: number;
+    list?: string[];
+  };
+  version: string;
+  hostname: string;
+  port: number;
+  motd?: string;
+  icon?: string;
+  // ISO timestamp of the ping the status came from
+  lastUpdated: string;
+}
+
+export const DEFAULT_SERVER_PORTS: Record<ServerEdition, number> = {
+  java: 25565,
+  bedrock: 19132
+};
+
+// A server listed in the status modal. Mirrors the `servers` table.
+export interface ServerDefinition {
+  id: string;
+  name: string;
+  host: string;
+  java_port: number | null;
+  bedrock_port: number | null;
+  description: string;
+  sort_order: number;
+}
+
+// Editions a server accepts players on, Java first
+export const getServerEditions = (server: ServerDefinition): ServerEdition[] => {
+  const editions: ServerEdition[] = [];
+  if (server.java_port) editions.push('java');
+  if (server.bedrock_port) editions.push('bedrock');
+  return editions;
+};
+
+export const getServerPort = (server: ServerDefinition, edition: ServerEdition): number =>
+  (edition === 'java' ? server.java_port : server.bedrock_port) || DEFAULT_SERVER_PORTS[edition];
+
+// One time bucket returned by the `get_server_status_history` function
+export interface ServerHistoryPoint {
+  bucket: string;
+  avg_players: number;
+  max_players: number;
+  sample_count: number;
+  online_count: number;
+}
+
+export type ServerHistoryRange = '24h' | '7d';
+
+export const SERVER_HISTORY_RANGES: Record<ServerHistoryRange, { hours: number; bucketMinutes: number }> = {
+  '24h': { hours: 24, bucketMinutes: 30 },
+  '7d': { hours: 24 * 7, bucketMinutes: 4 * 60 }
+};
@@ -24,4 +24,27 @@ export function formatDate(
     console.error('Date formatting error:', error);
     return dateString; // Return original string if formatting fails
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Format a duration as a countdown, e.g. "2d 04h 13m 09s"
+ * @param milliseconds Time remaining; negative values count as zero
+ * @returns Countdown string, without the day part when under a day
+ */
+export function formatCountdown(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const time = `${pad(Math.floor((totalSeconds % 86400) / 3600))}h ${pad(Math.floor((totalSeconds % 3600) / 60))}m ${pad(totalSeconds % 60)}s`;
+
+  return days > 0 ? `${days}d ${time}` : time;
+}
+
+/**
+ * Format how long a rank lasts, e.g. "30 days"
+ * @param durationDays Length of the rank in days; null or zero for lifetime ranks
+ * @returns Readable duration
+ */
+export function formatRankDuration(durationDays: number | null | undefined): string {
+  if (!durationDays) return 'Lifetime';
+  return durationDays === 1 ? '1 day' : `${durationDays} days`;
+}
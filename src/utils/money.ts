@@ -0,0 +1,56 @@
+// Prices are stored and charged in the store currency (`site_config.store_currency`)
+export const DEFAULT_CURRENCY = 'USD';
+
+// An admin-maintained exchange rate. Mirrors the `currency_rates` table.
+export interface CurrencyRate {
+  code: string;
+  // Units of `code` per one unit of the store currency
+  rate: number;
+}
+
+/**
+ * Check that a code is an ISO 4217 currency the browser or Node can format
+ * @param code Currency code, e.g. "USD"
+ * @returns Whether the code is a known three-letter currency
+ */
+export function isCurrencyCode(code: string): boolean {
+  if (!/^[A-Z]{3}$/.test(code)) return false;
+
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: code });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const fractionDigits = (currency: string): number =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+
+/**
+ * Format an amount of money, e.g. "$5.00" or "KHR 20,500.00"
+ * @param amount The amount in `currency`
+ * @param currency ISO 4217 code; unknown codes fall back to the code and two decimals
+ * @returns Formatted amount
+ */
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  const value = Number.isFinite(amount) ? amount : 0;
+
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value);
+  } catch {
+    return `${currency} ${value.toFixed(2)}`;
+  }
+}
+
+/**
+ * Convert an amount from the store currency
+ * @param amount The amount in the store currency
+ * @param rate Units of `currency` per one unit of the store currency
+ * @param currency The currency converted to, which sets the rounding
+ * @returns The converted amount, rounded to the currency's minor unit
+ */
+export function convertMoney(amount: number, rate: number, currency: string): number {
+  const factor = 10 ** (isCurrencyCode(currency) ? fractionDigits(currency) : 2);
+  return Math.round(amount * rate * factor) / factor;
+}
@@ -0,0 +1,44 @@
+/*
+  # Persist store orders
+
+  Orders are now written by the `create-order` Netlify function (service role)
+  before the Discord notification is sent.
+
+  1. Columns
+    - `order_number` (text, unique public order ID shown on the receipt)
+    - `customer_name`, `customer_phone`, `rank_name`
+    - `items` (jsonb line items), `total_amount`, `payment_proof_url`
+
+  2. Legacy columns
+    - Relax NOT NULL on columns from the older schemas the function no longer fills
+
+  3. Security
+    - Remove anonymous inserts; the function is the only writer
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS order_number text UNIQUE,
+  ADD COLUMN IF NOT EXISTS customer_name text,
+  ADD COLUMN IF NOT EXISTS customer_phone text,
+  ADD COLUMN IF NOT EXISTS rank_name text,
+  ADD COLUMN IF NOT EXISTS items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS total_amount DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS payment_proof_url text;
+
+DO $$
+DECLARE
+  legacy_column text;
+BEGIN
+  FOREACH legacy_column IN ARRAY ARRAY['username', 'rank', 'price', 'user_id'] LOOP
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = legacy_column
+    ) THEN
+      EXECUTE format('ALTER TABLE orders ALTER COLUMN %I DROP NOT NULL', legacy_column);
+    END IF;
+  END LOOP;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at DESC);
+
+DROP POLICY IF EXISTS "Anyone can create orders" ON orders;
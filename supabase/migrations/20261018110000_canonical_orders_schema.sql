@@ -0,0 +1,118 @@
+/*
+  # Canonical orders schema
+
+  Earlier migrations created `orders` in incompatible shapes:
+    - 20231010_init_admin_tables: serial `id`, `username`, `rank`, `price`, `payment_proof`
+    - 20250321182245_emerald_night: uuid `id`, `user_id`, `username`, `payment_proof`
+  Whichever ran first won, while the app reads `customer_name`, `rank_name`,
+  `total_amount` and `items`. This migration converges any of those shapes onto
+  the model in `src/types/order.ts`.
+
+  1. Data migration
+    - Copy legacy columns into the canonical ones for existing rows
+    - Give every existing row an `order_number` (legacy serial ids become CS-00000042)
+    - Rebuild `items` from the legacy rank/price when empty
+    - Replace a serial `id` with a uuid primary key
+
+  2. Cleanup
+    - Drop the per-user policies and legacy columns
+    - Constrain `status` and `platform`, require the canonical columns
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS platform text,
+  ADD COLUMN IF NOT EXISTS created_at timestamptz DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+-- 1. Copy legacy columns into the canonical ones
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'username') THEN
+    UPDATE orders SET customer_name = username WHERE customer_name IS NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'rank') THEN
+    UPDATE orders SET rank_name = rank WHERE rank_name IS NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'price') THEN
+    UPDATE orders SET total_amount = price WHERE total_amount IS NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'payment_proof') THEN
+    UPDATE orders SET payment_proof_url = payment_proof WHERE payment_proof_url IS NULL;
+  END IF;
+END $$;
+
+UPDATE orders
+SET items = jsonb_build_array(jsonb_build_object('name', rank_name, 'price', COALESCE(total_amount, 0)))
+WHERE (items IS NULL OR items = '[]'::jsonb) AND rank_name IS NOT NULL;
+
+UPDATE orders SET customer_name = 'Unknown' WHERE customer_name IS NULL;
+UPDATE orders SET rank_name = COALESCE(items->0->>'name', 'Unknown') WHERE rank_name IS NULL;
+UPDATE orders SET total_amount = 0 WHERE total_amount IS NULL;
+UPDATE orders SET platform = 'java' WHERE platform IS NULL OR platform NOT IN ('java', 'bedrock');
+UPDATE orders SET status = 'pending' WHERE status IS NULL OR status NOT IN ('pending', 'processing', 'completed', 'cancelled');
+
+-- 2. Replace a serial id with a uuid, keeping the old number in order_number
+DO $$
+BEGIN
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'id') <> 'uuid' THEN
+    UPDATE orders SET order_number = 'CS-' || lpad(id::text, 8, '0') WHERE order_number IS NULL;
+
+    ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_pkey;
+    ALTER TABLE orders RENAME COLUMN id TO legacy_id;
+    ALTER TABLE orders ADD COLUMN id uuid NOT NULL DEFAULT gen_random_uuid();
+    ALTER TABLE orders ADD PRIMARY KEY (id);
+    ALTER TABLE orders DROP COLUMN legacy_id;
+  END IF;
+END $$;
+
+UPDATE orders
+SET order_number = 'CS-' || upper(substr(replace(id::text, '-', ''), 1, 8))
+WHERE order_number IS NULL;
+
+-- 3. Drop policies and columns that belong to the legacy shapes
+DROP POLICY IF EXISTS "Users can create their own orders" ON orders;
+DROP POLICY IF EXISTS "Users can read their own orders" ON orders;
+DROP POLICY IF EXISTS "Users can update their own orders" ON orders;
+
+ALTER TABLE orders
+  DROP COLUMN IF EXISTS user_id,
+  DROP COLUMN IF EXISTS username,
+  DROP COLUMN IF EXISTS rank,
+  DROP COLUMN IF EXISTS price,
+  DROP COLUMN IF EXISTS payment_proof;
+
+-- 4. Canonical constraints
+ALTER TABLE orders
+  ALTER COLUMN order_number SET NOT NULL,
+  ALTER COLUMN customer_name SET NOT NULL,
+  ALTER COLUMN platform SET NOT NULL,
+  ALTER COLUMN rank_name SET NOT NULL,
+  ALTER COLUMN total_amount SET NOT NULL,
+  ALTER COLUMN status SET NOT NULL,
+  ALTER COLUMN status SET DEFAULT 'pending';
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'cancelled'));
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_platform_check;
+ALTER TABLE orders ADD CONSTRAINT orders_platform_check
+  CHECK (platform IN ('java', 'bedrock'));
+
+-- Keep updated_at current regardless of which migration created the table
+DROP TRIGGER IF EXISTS update_orders_timestamp ON orders;
+CREATE TRIGGER update_orders_timestamp
+BEFORE UPDATE ON orders
+FOR EACH ROW EXECUTE PROCEDURE update_modified_column();
+
+COMMENT ON TABLE orders IS 'Store orders; canonical shape mirrored by the Order type in src/types/order.ts';
+COMMENT ON COLUMN orders.order_number IS 'Public order ID shown on receipts and in Discord';
+COMMENT ON COLUMN orders.customer_name IS 'Minecraft username of the buyer';
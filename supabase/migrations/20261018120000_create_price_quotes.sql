@@ -0,0 +1,37 @@
+/*
+  # Server-side price quotes
+
+  1. New Tables
+    - `price_quotes`
+      - `id` (uuid, primary key)
+      - `product_id` (references products)
+      - `product_name`, `price`, `original_price` (price at quote time)
+      - `signature` (HMAC issued by the price-quote function)
+      - `expires_at`, `used_at`, `created_at`
+
+  2. Changes
+    - `orders.quote_id` references the quote the order was paid against
+
+  3. Security
+    - RLS enabled without policies: only the Netlify functions (service role)
+      can issue or redeem quotes
+*/
+
+CREATE TABLE IF NOT EXISTS price_quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id INT NOT NULL REFERENCES products(id),
+  product_name text NOT NULL,
+  price DECIMAL(10, 2) NOT NULL,
+  original_price DECIMAL(10, 2),
+  signature text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE price_quotes ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS quote_id uuid REFERENCES price_quotes(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_quote_id ON orders(quote_id);
@@ -0,0 +1,49 @@
+/*
+  # Public order lookup
+
+  The receipt policy `USING (true)` let anyone read every order, including
+  payment proofs. Customers now look up a single order by its public order
+  number plus the Minecraft username it was placed for.
+
+  1. Security
+    - Drop "Anyone can read their own orders"
+    - Restrict the old "Allow authenticated users to read orders" policy,
+      which had no role and so applied to everyone, to signed-in staff
+
+  2. Functions
+    - `lookup_order(order_number, username)` returns at most one order with
+      only customer-safe columns
+*/
+
+DROP POLICY IF EXISTS "Anyone can read their own orders" ON orders;
+
+DROP POLICY IF EXISTS "Allow authenticated users to read orders" ON orders;
+CREATE POLICY "Allow authenticated users to read orders" ON orders
+FOR SELECT TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION lookup_order(p_order_number text, p_username text)
+RETURNS TABLE (
+  order_number text,
+  customer_name text,
+  platform text,
+  rank_name text,
+  total_amount DECIMAL(10, 2),
+  status text,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.order_number, o.customer_name, o.platform, o.rank_name,
+         o.total_amount, o.status, o.created_at, o.updated_at
+  FROM orders o
+  WHERE o.order_number = upper(trim(p_order_number))
+    AND lower(o.customer_name) = lower(trim(p_username))
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION lookup_order(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION lookup_order(text, text) TO anon, authenticated;
@@ -0,0 +1,64 @@
+/*
+  # Order status transitions
+
+  1. Columns
+    - `orders.updated_by` (uuid of the admin who last changed the status)
+    - `orders.updated_by_email` (their email at the time, for display)
+
+  2. Functions
+    - `update_order_status(order_id, from_status, to_status)` applies one
+      allowed transition (pending → processing → completed, any → cancelled)
+      and records who made it. Raises:
+        - PT409 when the order no longer has `from_status` (another admin
+          changed it first); PostgREST answers with HTTP 409
+        - PT422 when the transition is not allowed
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS updated_by_email text;
+
+CREATE OR REPLACE FUNCTION update_order_status(
+  p_order_id uuid,
+  p_from_status text,
+  p_to_status text
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  updated_order orders;
+BEGIN
+  IF auth.role() <> 'authenticated' THEN
+    RAISE EXCEPTION 'Only signed-in staff can change order status' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (
+    (p_from_status = 'pending' AND p_to_status = 'processing') OR
+    (p_from_status = 'processing' AND p_to_status = 'completed') OR
+    (p_from_status <> 'cancelled' AND p_to_status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', p_from_status, p_to_status
+      USING ERRCODE = 'PT422';
+  END IF;
+
+  UPDATE orders
+  SET status = p_to_status,
+      updated_by = auth.uid(),
+      updated_by_email = auth.jwt() ->> 'email'
+  WHERE id = p_order_id
+    AND status = p_from_status
+  RETURNING * INTO updated_order;
+
+  IF updated_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order was changed by someone else'
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  RETURN updated_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_order_status(uuid, text, text) TO authenticated;
@@ -0,0 +1,186 @@
+/*
+  # Order events
+
+  Every order gets an audit trail so staff can answer "I paid two days ago
+  and nothing happened" from the data instead of from memory.
+
+  1. New Tables
+    - `order_events`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, references orders, cascade on delete)
+      - `event_type` (text, `created`, `status_changed` or `note`)
+      - `from_status` / `to_status` (text, set for status events)
+      - `note` (text, optional)
+      - `customer_visible` (boolean, whether the note is shown on the public
+        order page; created and status events are always shown)
+      - `actor_id` / `actor_email` (staff member who made the change, null
+        for the storefront)
+      - `created_at` (timestamptz)
+
+  2. Triggers
+    - A `created` event is recorded for every new order
+
+  3. Functions
+    - `update_order_status` gains an optional note and records a
+      `status_changed` event in the same transaction. It now runs as definer
+      because staff may only insert `note` events directly.
+    - `lookup_order_events(order_number, username)` returns the
+      customer-visible history for the public order page
+
+  4. Security
+    - RLS on `order_events`; signed-in staff can read all events and add notes
+      under their own account. Customers only see events through
+      `lookup_order_events`.
+
+  5. Backfill
+    - Existing orders get a `created` event, plus a `status_changed` event
+      when they are no longer pending
+*/
+
+CREATE TABLE IF NOT EXISTS order_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('created', 'status_changed', 'note')),
+  from_status text,
+  to_status text,
+  note text,
+  customer_visible boolean NOT NULL DEFAULT false,
+  actor_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_events_order_id_created_at_idx
+  ON order_events (order_id, created_at);
+
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read order events" ON order_events
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow authenticated users to add order notes" ON order_events
+FOR INSERT TO authenticated
+WITH CHECK (event_type = 'note' AND actor_id = auth.uid());
+
+-- Record a `created` event for every new order
+CREATE OR REPLACE FUNCTION record_order_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO order_events (order_id, event_type, to_status, actor_id, actor_email, created_at)
+  VALUES (NEW.id, 'created', NEW.status, NULL, NULL, NEW.created_at);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_order_created ON orders;
+CREATE TRIGGER record_order_created
+AFTER INSERT ON orders
+FOR EACH ROW EXECUTE FUNCTION record_order_created();
+
+-- Backfill history for orders placed before events were recorded
+INSERT INTO order_events (order_id, event_type, to_status, actor_id, actor_email, created_at)
+SELECT o.id, 'created', 'pending', NULL, NULL, o.created_at
+FROM orders o
+WHERE NOT EXISTS (SELECT 1 FROM order_events e WHERE e.order_id = o.id);
+
+INSERT INTO order_events (order_id, event_type, from_status, to_status, actor_id, actor_email, created_at)
+SELECT o.id, 'status_changed', 'pending', o.status, o.updated_by, o.updated_by_email, o.updated_at
+FROM orders o
+WHERE o.status <> 'pending'
+  AND NOT EXISTS (
+    SELECT 1 FROM order_events e
+    WHERE e.order_id = o.id AND e.event_type = 'status_changed'
+  );
+
+-- Replace the transition function with one that also records the event
+DROP FUNCTION IF EXISTS update_order_status(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION update_order_status(
+  p_order_id uuid,
+  p_from_status text,
+  p_to_status text,
+  p_note text DEFAULT NULL,
+  p_note_customer_visible boolean DEFAULT false
+)
+RETURNS orders
+LANGUAGE plpgsql
+-- Definer so it can write the status event, which staff cannot insert directly
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_order orders;
+BEGIN
+  IF auth.role() <> 'authenticated' THEN
+    RAISE EXCEPTION 'Only signed-in staff can change order status' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (
+    (p_from_status = 'pending' AND p_to_status = 'processing') OR
+    (p_from_status = 'processing' AND p_to_status = 'completed') OR
+    (p_from_status <> 'cancelled' AND p_to_status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', p_from_status, p_to_status
+      USING ERRCODE = 'PT422';
+  END IF;
+
+  UPDATE orders
+  SET status = p_to_status,
+      updated_by = auth.uid(),
+      updated_by_email = auth.jwt() ->> 'email'
+  WHERE id = p_order_id
+    AND status = p_from_status
+  RETURNING * INTO updated_order;
+
+  IF updated_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order was changed by someone else'
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  INSERT INTO order_events (order_id, event_type, from_status, to_status, note, customer_visible)
+  VALUES (
+    p_order_id,
+    'status_changed',
+    p_from_status,
+    p_to_status,
+    NULLIF(trim(p_note), ''),
+    COALESCE(p_note_customer_visible, false)
+  );
+
+  RETURN updated_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION update_order_status(uuid, text, text, text, boolean) FROM public;
+GRANT EXECUTE ON FUNCTION update_order_status(uuid, text, text, text, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION lookup_order_events(p_order_number text, p_username text)
+RETURNS TABLE (
+  event_type text,
+  to_status text,
+  note text,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.event_type,
+         e.to_status,
+         CASE WHEN e.customer_visible THEN e.note END,
+         e.created_at
+  FROM order_events e
+  JOIN orders o ON o.id = e.order_id
+  WHERE o.order_number = upper(trim(p_order_number))
+    AND lower(o.customer_name) = lower(trim(p_username))
+    AND (e.event_type <> 'note' OR e.customer_visible)
+  ORDER BY e.created_at;
+$$;
+
+REVOKE ALL ON FUNCTION lookup_order_events(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION lookup_order_events(text, text) TO anon, authenticated;
@@ -0,0 +1,115 @@
+/*
+  # Automatic rank delivery
+
+  Completed orders are delivered to the Minecraft server over RCON by the
+  Netlify delivery functions instead of staff typing commands in-game.
+
+  1. Columns
+    - `products.delivery_command` (text, one command per line; supports
+      `{username}`, `{rank}`, `{platform}` and `{order_number}`)
+    - `orders.delivery_status` (text, `none`, `pending`, `delivering`,
+      `delivered` or `failed`)
+    - `orders.delivery_attempts` (integer)
+    - `orders.delivery_response` (text, server output of the last attempt)
+    - `orders.delivery_error` (text, error of the last failed attempt)
+    - `orders.next_delivery_at` (timestamptz, when the queue may try next;
+      doubles as a lease while an attempt is running)
+    - `orders.delivered_at` (timestamptz)
+
+  2. Functions
+    - `update_order_status` queues delivery when an order is completed, and
+      cancels a queued delivery when the order is cancelled
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS delivery_command text;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS delivery_status text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS delivery_attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS delivery_response text,
+  ADD COLUMN IF NOT EXISTS delivery_error text,
+  ADD COLUMN IF NOT EXISTS next_delivery_at timestamptz,
+  ADD COLUMN IF NOT EXISTS delivered_at timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'orders' AND constraint_name = 'orders_delivery_status_check'
+  ) THEN
+    ALTER TABLE orders ADD CONSTRAINT orders_delivery_status_check
+      CHECK (delivery_status IN ('none', 'pending', 'delivering', 'delivered', 'failed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS orders_delivery_queue_idx
+  ON orders (next_delivery_at)
+  WHERE delivery_status IN ('pending', 'delivering');
+
+CREATE OR REPLACE FUNCTION update_order_status(
+  p_order_id uuid,
+  p_from_status text,
+  p_to_status text,
+  p_note text DEFAULT NULL,
+  p_note_customer_visible boolean DEFAULT false
+)
+RETURNS orders
+LANGUAGE plpgsql
+-- Definer so it can write the status event, which staff cannot insert directly
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_order orders;
+BEGIN
+  IF auth.role() <> 'authenticated' THEN
+    RAISE EXCEPTION 'Only signed-in staff can change order status' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (
+    (p_from_status = 'pending' AND p_to_status = 'processing') OR
+    (p_from_status = 'processing' AND p_to_status = 'completed') OR
+    (p_from_status <> 'cancelled' AND p_to_status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', p_from_status, p_to_status
+      USING ERRCODE = 'PT422';
+  END IF;
+
+  UPDATE orders
+  SET status = p_to_status,
+      updated_by = auth.uid(),
+      updated_by_email = auth.jwt() ->> 'email',
+      delivery_status = CASE
+        WHEN p_to_status = 'completed' THEN 'pending'
+        WHEN p_to_status = 'cancelled' AND delivery_status = 'pending' THEN 'none'
+        ELSE delivery_status
+      END,
+      delivery_attempts = CASE WHEN p_to_status = 'completed' THEN 0 ELSE delivery_attempts END,
+      next_delivery_at = CASE
+        WHEN p_to_status = 'completed' THEN now()
+        WHEN p_to_status = 'cancelled' AND delivery_status = 'pending' THEN NULL
+        ELSE next_delivery_at
+      END
+  WHERE id = p_order_id
+    AND status = p_from_status
+  RETURNING * INTO updated_order;
+
+  IF updated_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order was changed by someone else'
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  INSERT INTO order_events (order_id, event_type, from_status, to_status, note, customer_visible)
+  VALUES (
+    p_order_id,
+    'status_changed',
+    p_from_status,
+    p_to_status,
+    NULLIF(trim(p_note), ''),
+    COALESCE(p_note_customer_visible, false)
+  );
+
+  RETURN updated_order;
+END;
+$$;
@@ -0,0 +1,107 @@
+/*
+  # Delivery queue: per-platform player names and offline hold
+
+  Deliveries now wait until the player is online, using the same status data
+  as the store's server status modal, and run with the player name formatted
+  for the order's platform (Bedrock players joining through Geyser/Floodgate
+  carry a prefix, `.` by default).
+
+  1. Columns
+    - `orders.delivery_player_name` (text, name the commands were run for)
+    - `orders.delivery_queued_at` (timestamptz, when the order entered the
+      delivery queue; used to find stuck deliveries)
+    - `orders.delivery_waiting_since` (timestamptz, set while the delivery is
+      held because the player is offline)
+
+  2. Changes
+    - `orders.delivery_status` also allows `waiting_for_player`
+    - `update_order_status` stamps `delivery_queued_at` on completion and
+      also cancels deliveries held for an offline player
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS delivery_player_name text,
+  ADD COLUMN IF NOT EXISTS delivery_queued_at timestamptz,
+  ADD COLUMN IF NOT EXISTS delivery_waiting_since timestamptz;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_delivery_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_delivery_status_check
+  CHECK (delivery_status IN ('none', 'pending', 'waiting_for_player', 'delivering', 'delivered', 'failed'));
+
+UPDATE orders
+SET delivery_queued_at = COALESCE(updated_at, created_at)
+WHERE delivery_status <> 'none' AND delivery_queued_at IS NULL;
+
+DROP INDEX IF EXISTS orders_delivery_queue_idx;
+CREATE INDEX orders_delivery_queue_idx
+  ON orders (next_delivery_at)
+  WHERE delivery_status IN ('pending', 'waiting_for_player', 'delivering');
+
+CREATE OR REPLACE FUNCTION update_order_status(
+  p_order_id uuid,
+  p_from_status text,
+  p_to_status text,
+  p_note text DEFAULT NULL,
+  p_note_customer_visible boolean DEFAULT false
+)
+RETURNS orders
+LANGUAGE plpgsql
+-- Definer so it can write the status event, which staff cannot insert directly
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_order orders;
+BEGIN
+  IF auth.role() <> 'authenticated' THEN
+    RAISE EXCEPTION 'Only signed-in staff can change order status' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (
+    (p_from_status = 'pending' AND p_to_status = 'processing') OR
+    (p_from_status = 'processing' AND p_to_status = 'completed') OR
+    (p_from_status <> 'cancelled' AND p_to_status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', p_from_status, p_to_status
+      USING ERRCODE = 'PT422';
+  END IF;
+
+  UPDATE orders
+  SET status = p_to_status,
+      updated_by = auth.uid(),
+      updated_by_email = auth.jwt() ->> 'email',
+      delivery_status = CASE
+        WHEN p_to_status = 'completed' THEN 'pending'
+        WHEN p_to_status = 'cancelled' AND delivery_status IN ('pending', 'waiting_for_player') THEN 'none'
+        ELSE delivery_status
+      END,
+      delivery_attempts = CASE WHEN p_to_status = 'completed' THEN 0 ELSE delivery_attempts END,
+      delivery_queued_at = CASE WHEN p_to_status = 'completed' THEN now() ELSE delivery_queued_at END,
+      delivery_waiting_since = CASE WHEN p_to_status = 'completed' THEN NULL ELSE delivery_waiting_since END,
+      next_delivery_at = CASE
+        WHEN p_to_status = 'completed' THEN now()
+        WHEN p_to_status = 'cancelled' AND delivery_status IN ('pending', 'waiting_for_player') THEN NULL
+        ELSE next_delivery_at
+      END
+  WHERE id = p_order_id
+    AND status = p_from_status
+  RETURNING * INTO updated_order;
+
+  IF updated_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order was changed by someone else'
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  INSERT INTO order_events (order_id, event_type, from_status, to_status, note, customer_visible)
+  VALUES (
+    p_order_id,
+    'status_changed',
+    p_from_status,
+    p_to_status,
+    NULLIF(trim(p_note), ''),
+    COALESCE(p_note_customer_visible, false)
+  );
+
+  RETURN updated_order;
+END;
+$$;
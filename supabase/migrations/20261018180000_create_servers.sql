@@ -0,0 +1,54 @@
+/*
+  # Servers
+
+  The store's server status modal showed one hard-coded server. Server
+  definitions now live in a table staff edit from the admin dashboard, so the
+  lobby and survival servers can be listed side by side.
+
+  1. New Tables
+    - `servers`
+      - `id` (uuid, primary key)
+      - `name` (text, e.g. "Lobby")
+      - `host` (text, address players connect to)
+      - `java_port` (integer, null when the server has no Java listener)
+      - `bedrock_port` (integer, null when the server has no Bedrock listener)
+      - `description` (text)
+      - `sort_order` (integer, order of the tabs in the modal)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Security
+    - RLS on `servers`; anyone can read, signed-in staff can modify
+
+  3. Seed
+    - The existing champa.lol server
+*/
+
+CREATE TABLE IF NOT EXISTS servers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  host text NOT NULL,
+  java_port integer CHECK (java_port BETWEEN 1 AND 65535),
+  bedrock_port integer CHECK (bedrock_port BETWEEN 1 AND 65535),
+  description text NOT NULL DEFAULT '',
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (java_port IS NOT NULL OR bedrock_port IS NOT NULL)
+);
+
+ALTER TABLE servers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read servers" ON servers
+FOR SELECT USING (true);
+
+CREATE POLICY "Allow authenticated users to modify servers" ON servers
+FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS update_servers_timestamp ON servers;
+CREATE TRIGGER update_servers_timestamp
+BEFORE UPDATE ON servers
+FOR EACH ROW EXECUTE PROCEDURE update_modified_column();
+
+INSERT INTO servers (name, host, java_port, bedrock_port, description, sort_order)
+SELECT 'Champa', 'champa.lol', 25565, 19132, 'Our main server', 0
+WHERE NOT EXISTS (SELECT 1 FROM servers);
@@ -0,0 +1,76 @@
+/*
+  # Server status samples
+
+  The scheduled `sample-server-status` function pings every server every few
+  minutes so the store can show uptime and player-count history.
+
+  1. New Tables
+    - `server_status_samples`
+      - `id` (bigint, identity primary key)
+      - `server_id` (uuid, references servers, cascade on delete)
+      - `edition` (text, `java` or `bedrock`; the edition that was pinged)
+      - `online` (boolean)
+      - `players_online` / `players_max` (integer)
+      - `sampled_at` (timestamptz)
+
+  2. Functions
+    - `get_server_status_history(server_id, hours, bucket_minutes)` returns
+      samples aggregated into time buckets: average and peak players plus
+      sample and online counts for uptime
+
+  3. Security
+    - RLS on `server_status_samples`; anyone can read (the data is public on
+      the store anyway), only the service role writes
+*/
+
+CREATE TABLE IF NOT EXISTS server_status_samples (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  server_id uuid NOT NULL REFERENCES servers(id) ON DELETE CASCADE,
+  edition text NOT NULL CHECK (edition IN ('java', 'bedrock')),
+  online boolean NOT NULL,
+  players_online integer NOT NULL DEFAULT 0,
+  players_max integer NOT NULL DEFAULT 0,
+  sampled_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS server_status_samples_server_id_sampled_at_idx
+  ON server_status_samples (server_id, sampled_at);
+
+ALTER TABLE server_status_samples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read server status samples" ON server_status_samples
+FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION get_server_status_history(
+  p_server_id uuid,
+  p_hours integer DEFAULT 24,
+  p_bucket_minutes integer DEFAULT 30
+)
+RETURNS TABLE (
+  bucket timestamptz,
+  avg_players numeric,
+  max_players integer,
+  sample_count integer,
+  online_count integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT date_bin(
+           make_interval(mins => greatest(p_bucket_minutes, 1)),
+           s.sampled_at,
+           TIMESTAMPTZ '2000-01-01'
+         ) AS bucket,
+         round(avg(s.players_online), 1) AS avg_players,
+         max(s.players_online) AS max_players,
+         count(*)::integer AS sample_count,
+         count(*) FILTER (WHERE s.online)::integer AS online_count
+  FROM server_status_samples s
+  WHERE s.server_id = p_server_id
+    AND s.sampled_at >= now() - make_interval(hours => least(greatest(p_hours, 1), 24 * 31))
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_server_status_history(uuid, integer, integer) TO anon, authenticated;
@@ -0,0 +1,166 @@
+/*
+  # Coupons
+
+  Replaces the `discounts` table dropped in 20250422110100 with coupon codes
+  that are validated and redeemed server-side by the price-quote and
+  create-order functions.
+
+  1. New Tables
+    - `coupons`
+      - `id` (uuid, primary key)
+      - `code` (text, unique, stored upper-case)
+      - `description` (text, staff-facing note)
+      - `discount_type` (text, `percent` or `fixed`)
+      - `discount_value` (decimal; percent off or dollars off)
+      - `product_ids` (integer[]; null applies the coupon store-wide)
+      - `max_uses` (integer, null for unlimited)
+      - `max_uses_per_customer` (integer, null for unlimited)
+      - `starts_at` / `ends_at` (timestamptz, null for open-ended)
+      - `active` (boolean)
+      - `created_at` / `updated_at` (timestamptz)
+    - `coupon_redemptions`
+      - `id` (uuid, primary key)
+      - `coupon_id` (references coupons, cascade on delete)
+      - `quote_id` (references price_quotes, unique; the order that used the
+        coupon is the one paid against this quote)
+      - `customer_name` (text, lower-cased Minecraft username)
+      - `discount_amount` (decimal)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `price_quotes.coupon_id`, `coupon_code`, `discount_amount`: the coupon
+      a quote was discounted by; `price` stays the amount to pay
+    - `orders.coupon_code`, `orders.discount_amount`
+
+  3. Functions
+    - `get_coupon_usage(coupon_id, customer_name)` counts redemptions, overall
+      and for one customer, ignoring cancelled orders
+    - `redeem_coupon(quote_id, customer_name)` records the redemption of the
+      quote's coupon, re-checking it under a row lock so usage caps hold under
+      concurrent orders. Raises PT409 when the coupon can no longer be used
+
+  4. Security
+    - RLS on both tables; signed-in staff manage coupons and read
+      redemptions. Codes are not readable by the public: customers only learn
+      about a code through the price-quote function
+    - `redeem_coupon` is only executable by the service role;
+      `get_coupon_usage` also by staff, for the usage counts in the admin
+*/
+
+CREATE TABLE IF NOT EXISTS coupons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (code = upper(code) AND code ~ '^[A-Z0-9_-]{3,32}$'),
+  description text NOT NULL DEFAULT '',
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value DECIMAL(10, 2) NOT NULL CHECK (discount_value > 0),
+  product_ids integer[],
+  max_uses integer CHECK (max_uses > 0),
+  max_uses_per_customer integer CHECK (max_uses_per_customer > 0),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id uuid NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+  quote_id uuid NOT NULL UNIQUE REFERENCES price_quotes(id),
+  customer_name text NOT NULL,
+  discount_amount DECIMAL(10, 2) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS coupon_redemptions_coupon_id_idx
+  ON coupon_redemptions (coupon_id, customer_name);
+
+ALTER TABLE price_quotes
+  ADD COLUMN IF NOT EXISTS coupon_id uuid REFERENCES coupons(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS coupon_code text,
+  ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS coupon_code text,
+  ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to modify coupons" ON coupons
+FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow authenticated users to read coupon redemptions" ON coupon_redemptions
+FOR SELECT TO authenticated USING (true);
+
+DROP TRIGGER IF EXISTS update_coupons_timestamp ON coupons;
+CREATE TRIGGER update_coupons_timestamp
+BEFORE UPDATE ON coupons
+FOR EACH ROW EXECUTE PROCEDURE update_modified_column();
+
+CREATE OR REPLACE FUNCTION get_coupon_usage(p_coupon_id uuid, p_customer_name text DEFAULT NULL)
+RETURNS TABLE (total_uses integer, customer_uses integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::integer AS total_uses,
+         count(*) FILTER (WHERE r.customer_name = lower(p_customer_name))::integer AS customer_uses
+  FROM coupon_redemptions r
+  LEFT JOIN orders o ON o.quote_id = r.quote_id
+  WHERE r.coupon_id = p_coupon_id
+    -- A cancelled order gives its use back
+    AND o.status IS DISTINCT FROM 'cancelled';
+$$;
+
+CREATE OR REPLACE FUNCTION redeem_coupon(p_quote_id uuid, p_customer_name text)
+RETURNS coupon_redemptions
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  quote price_quotes;
+  coupon coupons;
+  usage record;
+  redemption coupon_redemptions;
+BEGIN
+  SELECT * INTO quote FROM price_quotes WHERE id = p_quote_id;
+
+  IF quote.id IS NULL OR quote.coupon_id IS NULL THEN
+    RAISE EXCEPTION 'Quote has no coupon' USING ERRCODE = 'PT422';
+  END IF;
+
+  -- Serializes redemptions of the same coupon so the caps below can't be raced
+  SELECT * INTO coupon FROM coupons WHERE id = quote.coupon_id FOR UPDATE;
+
+  IF coupon.id IS NULL OR NOT coupon.active
+     OR (coupon.starts_at IS NOT NULL AND coupon.starts_at > now())
+     OR (coupon.ends_at IS NOT NULL AND coupon.ends_at <= now()) THEN
+    RAISE EXCEPTION 'Coupon % is no longer available', quote.coupon_code USING ERRCODE = 'PT409';
+  END IF;
+
+  SELECT * INTO usage FROM get_coupon_usage(coupon.id, p_customer_name);
+
+  IF coupon.max_uses IS NOT NULL AND usage.total_uses >= coupon.max_uses THEN
+    RAISE EXCEPTION 'Coupon % has been fully redeemed', coupon.code USING ERRCODE = 'PT409';
+  END IF;
+
+  IF coupon.max_uses_per_customer IS NOT NULL AND usage.customer_uses >= coupon.max_uses_per_customer THEN
+    RAISE EXCEPTION 'You have already used coupon %', coupon.code USING ERRCODE = 'PT409';
+  END IF;
+
+  INSERT INTO coupon_redemptions (coupon_id, quote_id, customer_name, discount_amount)
+  VALUES (coupon.id, quote.id, lower(p_customer_name), quote.discount_amount)
+  RETURNING * INTO redemption;
+
+  RETURN redemption;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_coupon_usage(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION redeem_coupon(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_coupon_usage(uuid, text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION redeem_coupon(uuid, text) TO service_role;
@@ -0,0 +1,48 @@
+/*
+  # Scheduled sales
+
+  Sales used to be applied by hand in the admin, which overwrote `price` and
+  had to be reverted by hand when the sale ended. A sale is now a campaign
+  with a start and end time; the store and the price-quote function compute
+  sale prices from the live campaigns, so nothing needs reverting.
+
+  1. New Tables
+    - `sales`
+      - `id` (uuid, primary key)
+      - `name` (text, shown on the store's countdown banner)
+      - `discount_percent` (decimal, percent off)
+      - `product_ids` (integer[]; null puts every product on sale)
+      - `starts_at` / `ends_at` (timestamptz)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Security
+    - RLS on `sales`; anyone can read (sale prices are public), signed-in
+      staff can modify
+*/
+
+CREATE TABLE IF NOT EXISTS sales (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  discount_percent DECIMAL(5, 2) NOT NULL CHECK (discount_percent > 0 AND discount_percent < 100),
+  product_ids integer[],
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (starts_at < ends_at)
+);
+
+CREATE INDEX IF NOT EXISTS sales_ends_at_idx ON sales (ends_at);
+
+ALTER TABLE sales ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read sales" ON sales
+FOR SELECT USING (true);
+
+CREATE POLICY "Allow authenticated users to modify sales" ON sales
+FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS update_sales_timestamp ON sales;
+CREATE TRIGGER update_sales_timestamp
+BEFORE UPDATE ON sales
+FOR EACH ROW EXECUTE PROCEDURE update_modified_column();
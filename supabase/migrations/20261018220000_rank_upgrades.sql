@@ -0,0 +1,71 @@
+/*
+  # Rank upgrades
+
+  A player who already owns a rank is charged the difference when buying a
+  higher one. The price-quote function finds the player's highest delivered
+  rank and quotes the upgrade; delivery removes the old group before adding
+  the new one.
+
+  1. Changes
+    - `products.revoke_command`: RCON command template that removes the rank,
+      e.g. `lp user {username} parent remove {rank}`
+    - `orders.order_type` (`purchase` or `upgrade`)
+    - `orders.upgrade_from` (rank name the upgrade replaces)
+    - `price_quotes.order_type`, `upgrade_from`, `customer_name`, `platform`:
+      an upgrade price only holds for the player it was quoted for
+
+  2. Configuration
+    - `site_config.upgrade_price_floor`: the least an upgrade costs, however
+      close the two ranks are in price
+
+  3. Functions
+    - `get_owned_rank(customer_name, platform)` returns the product of the
+      player's highest-priced rank from a completed order that was delivered,
+      or no row. Only executable by the service role
+
+  4. Indexes
+    - Completed orders by player, for the owned-rank lookup
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS revoke_command text;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS order_type text NOT NULL DEFAULT 'purchase'
+    CHECK (order_type IN ('purchase', 'upgrade')),
+  ADD COLUMN IF NOT EXISTS upgrade_from text;
+
+ALTER TABLE price_quotes
+  ADD COLUMN IF NOT EXISTS order_type text NOT NULL DEFAULT 'purchase'
+    CHECK (order_type IN ('purchase', 'upgrade')),
+  ADD COLUMN IF NOT EXISTS upgrade_from text,
+  ADD COLUMN IF NOT EXISTS customer_name text,
+  ADD COLUMN IF NOT EXISTS platform text;
+
+CREATE INDEX IF NOT EXISTS orders_completed_customer_idx
+  ON orders (lower(customer_name), platform)
+  WHERE status = 'completed';
+
+INSERT INTO site_config (key, value)
+VALUES ('upgrade_price_floor', '1.00')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION get_owned_rank(p_customer_name text, p_platform text)
+RETURNS TABLE (id integer, name text, price numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.id, p.name::text, p.price
+  FROM orders o
+  JOIN products p ON p.name = o.rank_name
+  WHERE lower(o.customer_name) = lower(p_customer_name)
+    AND o.platform = p_platform
+    AND o.status = 'completed'
+    AND o.delivery_status = 'delivered'
+  ORDER BY p.price DESC
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_owned_rank(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_owned_rank(text, text) TO service_role;
@@ -0,0 +1,86 @@
+/*
+  # Time-limited ranks
+
+  Products can now be sold for a fixed number of days. A delivered order for
+  such a product gets an expiry, and the scheduled `process-rank-expiry`
+  function runs the product's revoke command once the rank expires.
+
+  1. Changes
+    - `products.duration_days` (integer, null for lifetime ranks)
+    - `orders.expires_at` (set when a time-limited rank is delivered;
+      renewing before expiry extends from the current expiry)
+    - `orders.superseded_by` (a later renewal or upgrade took over this
+      order's rank, so it is never revoked on its own)
+    - `orders.revoked_at`, `revoke_attempts`, `revoke_error`
+
+  2. Functions
+    - `get_owned_rank` ignores expired and revoked ranks
+    - `lookup_order` also returns `expires_at` so customers can see when to
+      renew (dropped and recreated, as its result columns change)
+
+  3. Indexes
+    - Ranks awaiting expiry, for the scheduled job
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS duration_days integer CHECK (duration_days > 0);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS superseded_by uuid REFERENCES orders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS revoked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS revoke_attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS revoke_error text;
+
+CREATE INDEX IF NOT EXISTS orders_expiring_idx
+  ON orders (expires_at)
+  WHERE expires_at IS NOT NULL AND revoked_at IS NULL AND superseded_by IS NULL;
+
+CREATE OR REPLACE FUNCTION get_owned_rank(p_customer_name text, p_platform text)
+RETURNS TABLE (id integer, name text, price numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.id, p.name::text, p.price
+  FROM orders o
+  JOIN products p ON p.name = o.rank_name
+  WHERE lower(o.customer_name) = lower(p_customer_name)
+    AND o.platform = p_platform
+    AND o.status = 'completed'
+    AND o.delivery_status = 'delivered'
+    AND o.revoked_at IS NULL
+    AND (o.expires_at IS NULL OR o.expires_at > now())
+  ORDER BY p.price DESC
+  LIMIT 1;
+$$;
+
+DROP FUNCTION IF EXISTS lookup_order(text, text);
+
+CREATE FUNCTION lookup_order(p_order_number text, p_username text)
+RETURNS TABLE (
+  order_number text,
+  customer_name text,
+  platform text,
+  rank_name text,
+  total_amount DECIMAL(10, 2),
+  status text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  expires_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.order_number, o.customer_name, o.platform, o.rank_name,
+         o.total_amount, o.status, o.created_at, o.updated_at, o.expires_at
+  FROM orders o
+  WHERE o.order_number = upper(trim(p_order_number))
+    AND lower(o.customer_name) = lower(trim(p_username))
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION lookup_order(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION lookup_order(text, text) TO anon, authenticated;
@@ -0,0 +1,131 @@
+/*
+  # Gift purchases
+
+  A customer can buy a rank for another player. The buyer stays the order's
+  customer; the recipient is the player the rank is delivered to, renewed
+  for and upgraded from.
+
+  1. Changes
+    - `orders.gift_recipient_name`, `gift_recipient_platform`: set together,
+      only on gift orders
+    - `orders.gift_message`: optional note to the recipient, up to 200
+      characters
+    - `orders.rank_holder_name`, `rank_holder_platform`: generated, the
+      recipient of a gift or otherwise the customer
+
+  2. Functions
+    - `get_owned_rank` looks ranks up by holder, so gifted ranks count
+    - `lookup_order` also returns the recipient, and matches either the
+      buyer's or the recipient's username (dropped and recreated, as its
+      result columns change)
+    - `lookup_order_events` matches either username too, so the recipient
+      sees the order's history
+
+  3. Indexes
+    - Completed orders by rank holder replaces the index by customer
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS gift_recipient_name text,
+  ADD COLUMN IF NOT EXISTS gift_recipient_platform text
+    CHECK (gift_recipient_platform IN ('java', 'bedrock')),
+  ADD COLUMN IF NOT EXISTS gift_message text
+    CHECK (char_length(gift_message) <= 200);
+
+ALTER TABLE orders
+  DROP CONSTRAINT IF EXISTS orders_gift_recipient_check;
+ALTER TABLE orders
+  ADD CONSTRAINT orders_gift_recipient_check
+    CHECK ((gift_recipient_name IS NULL) = (gift_recipient_platform IS NULL));
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS rank_holder_name text
+    GENERATED ALWAYS AS (coalesce(gift_recipient_name, customer_name)) STORED,
+  ADD COLUMN IF NOT EXISTS rank_holder_platform text
+    GENERATED ALWAYS AS (coalesce(gift_recipient_platform, platform)) STORED;
+
+DROP INDEX IF EXISTS orders_completed_customer_idx;
+CREATE INDEX IF NOT EXISTS orders_completed_rank_holder_idx
+  ON orders (lower(rank_holder_name), rank_holder_platform)
+  WHERE status = 'completed';
+
+CREATE OR REPLACE FUNCTION get_owned_rank(p_customer_name text, p_platform text)
+RETURNS TABLE (id integer, name text, price numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.id, p.name::text, p.price
+  FROM orders o
+  JOIN products p ON p.name = o.rank_name
+  WHERE lower(o.rank_holder_name) = lower(p_customer_name)
+    AND o.rank_holder_platform = p_platform
+    AND o.status = 'completed'
+    AND o.delivery_status = 'delivered'
+    AND o.revoked_at IS NULL
+    AND (o.expires_at IS NULL OR o.expires_at > now())
+  ORDER BY p.price DESC
+  LIMIT 1;
+$$;
+
+DROP FUNCTION IF EXISTS lookup_order(text, text);
+
+CREATE FUNCTION lookup_order(p_order_number text, p_username text)
+RETURNS TABLE (
+  order_number text,
+  customer_name text,
+  platform text,
+  rank_name text,
+  total_amount DECIMAL(10, 2),
+  status text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  expires_at timestamptz,
+  gift_recipient_name text,
+  gift_recipient_platform text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.order_number, o.customer_name, o.platform, o.rank_name,
+         o.total_amount, o.status, o.created_at, o.updated_at, o.expires_at,
+         o.gift_recipient_name, o.gift_recipient_platform
+  FROM orders o
+  WHERE o.order_number = upper(trim(p_order_number))
+    AND (lower(o.customer_name) = lower(trim(p_username))
+      OR lower(o.gift_recipient_name) = lower(trim(p_username)))
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION lookup_order(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION lookup_order(text, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION lookup_order_events(p_order_number text, p_username text)
+RETURNS TABLE (
+  event_type text,
+  to_status text,
+  note text,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.event_type,
+         e.to_status,
+         CASE WHEN e.customer_visible THEN e.note END,
+         e.created_at
+  FROM order_events e
+  JOIN orders o ON o.id = e.order_id
+  WHERE o.order_number = upper(trim(p_order_number))
+    AND (lower(o.customer_name) = lower(trim(p_username))
+      OR lower(o.gift_recipient_name) = lower(trim(p_username)))
+    AND (e.event_type <> 'note' OR e.customer_visible)
+  ORDER BY e.created_at;
+$$;
+
+REVOKE ALL ON FUNCTION lookup_order_events(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION lookup_order_events(text, text) TO anon, authenticated;
@@ -0,0 +1,89 @@
+/*
+  # Multi-item orders
+
+  Customers can check out a cart of several products with one payment proof.
+  Besides ranks, products can now be other item types (crate keys, coins,
+  crates) delivered through their own command templates. An order holds at
+  most one rank.
+
+  1. Changes
+    - `products.item_type` (`rank`, `key`, `coins` or `crate`; defaults to
+      `rank` for the existing products)
+    - `orders.rank_name` is now nullable: an order may contain no rank
+    - `orders.items` lines gain `product_id`, `product_name`, `item_type`,
+      `quantity`, `unit_price` and a per-line `delivery_status`,
+      `delivery_error` and `delivered_at` (stored in the existing jsonb)
+    - `price_quotes.lines`: the quoted cart, one entry per product.
+      `product_id` / `product_name` describe the rank line, or the first line
+      when there is no rank
+
+  2. Functions
+    - `get_owned_rank` only counts products that are ranks
+    - `lookup_order` also returns the order's lines so customers can follow
+      each line's delivery (dropped and recreated, as its result columns
+      change)
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS item_type text NOT NULL DEFAULT 'rank'
+    CHECK (item_type IN ('rank', 'key', 'coins', 'crate'));
+
+ALTER TABLE orders
+  ALTER COLUMN rank_name DROP NOT NULL;
+
+ALTER TABLE price_quotes
+  ADD COLUMN IF NOT EXISTS lines jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION get_owned_rank(p_customer_name text, p_platform text)
+RETURNS TABLE (id integer, name text, price numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.id, p.name::text, p.price
+  FROM orders o
+  JOIN products p ON p.name = o.rank_name AND p.item_type = 'rank'
+  WHERE lower(o.rank_holder_name) = lower(p_customer_name)
+    AND o.rank_holder_platform = p_platform
+    AND o.status = 'completed'
+    AND o.delivery_status = 'delivered'
+    AND o.revoked_at IS NULL
+    AND (o.expires_at IS NULL OR o.expires_at > now())
+  ORDER BY p.price DESC
+  LIMIT 1;
+$$;
+
+DROP FUNCTION IF EXISTS lookup_order(text, text);
+
+CREATE FUNCTION lookup_order(p_order_number text, p_username text)
+RETURNS TABLE (
+  order_number text,
+  customer_name text,
+  platform text,
+  rank_name text,
+  items jsonb,
+  total_amount DECIMAL(10, 2),
+  status text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  expires_at timestamptz,
+  gift_recipient_name text,
+  gift_recipient_platform text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.order_number, o.customer_name, o.platform, o.rank_name, o.items,
+         o.total_amount, o.status, o.created_at, o.updated_at, o.expires_at,
+         o.gift_recipient_name, o.gift_recipient_platform
+  FROM orders o
+  WHERE o.order_number = upper(trim(p_order_number))
+    AND (lower(o.customer_name) = lower(trim(p_username))
+      OR lower(o.gift_recipient_name) = lower(trim(p_username)))
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION lookup_order(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION lookup_order(text, text) TO anon, authenticated;
@@ -0,0 +1,104 @@
+/*
+  # Product categories, descriptions and perks
+
+  The store page listed rank perks and the Minecraft account offer as JSX
+  constants. Products are now grouped into categories shown as tabs of the
+  store's catalog, and each product carries its own description and perk
+  list, all edited from the admin dashboard.
+
+  1. New Tables
+    - `product_categories`
+      - `id` (uuid, primary key)
+      - `slug` (text, unique, lowercase words joined by dashes)
+      - `name` (text, tab label)
+      - `description` (text, shown above the tab's products)
+      - `sort_order` (integer, order of the tabs)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - `products.category_id` (null until staff pick a category)
+    - `products.perks` (text[], one bullet per perk)
+    - `products.purchase_url`: products sold on an external store; the store
+      links there instead of adding them to the cart, and price-quote never
+      prices them
+    - `products.item_type` also accepts `cosmetic` and `account`
+
+  3. Security
+    - RLS on `product_categories`; anyone can read, signed-in staff can modify
+
+  4. Seed
+    - Ranks, Crate Keys, Cosmetics and Accounts categories, with existing
+      products filed by item type
+    - The perks the store page used to list, on VIP and MVP
+    - The Minecraft account offer that linked to the external account store
+*/
+
+CREATE TABLE IF NOT EXISTS product_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text NOT NULL DEFAULT '',
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE product_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read product categories" ON product_categories
+FOR SELECT USING (true);
+
+CREATE POLICY "Allow authenticated users to modify product categories" ON product_categories
+FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS update_product_categories_timestamp ON product_categories;
+CREATE TRIGGER update_product_categories_timestamp
+BEFORE UPDATE ON product_categories
+FOR EACH ROW EXECUTE PROCEDURE update_modified_column();
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS category_id uuid REFERENCES product_categories(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS perks text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS purchase_url text CHECK (purchase_url ~ '^https?://');
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_item_type_check;
+ALTER TABLE products ADD CONSTRAINT products_item_type_check
+  CHECK (item_type IN ('rank', 'key', 'coins', 'crate', 'cosmetic', 'account'));
+
+CREATE INDEX IF NOT EXISTS products_category_idx ON products (category_id);
+
+INSERT INTO product_categories (slug, name, description, sort_order) VALUES
+  ('ranks', 'Ranks', 'Experience the power of our premium ranks', 0),
+  ('crate-keys', 'Crate Keys', 'Keys and crates for the crates at spawn', 1),
+  ('cosmetics', 'Cosmetics', 'Stand out with trails, tags and more', 2),
+  ('accounts', 'Accounts', 'Get your own Minecraft account', 3)
+ON CONFLICT (slug) DO NOTHING;
+
+UPDATE products p
+SET category_id = c.id
+FROM product_categories c
+WHERE p.category_id IS NULL
+  AND c.slug = CASE p.item_type
+    WHEN 'rank' THEN 'ranks'
+    WHEN 'key' THEN 'crate-keys'
+    WHEN 'crate' THEN 'crate-keys'
+    WHEN 'cosmetic' THEN 'cosmetics'
+    WHEN 'account' THEN 'accounts'
+  END;
+
+UPDATE products
+SET perks = ARRAY['Discord VIP role and access to the VIP room', 'Special commands and abilities']
+WHERE name = 'VIP' AND perks = '{}';
+
+UPDATE products
+SET perks = ARRAY['Priority support']
+WHERE name = 'MVP' AND perks = '{}';
+
+INSERT INTO products (name, description, price, image_url, color, item_type, category_id, perks, purchase_url)
+SELECT 'Minecraft Account', 'Original Minecraft account with full access', 0,
+       NULL, 'from-blue-500 to-blue-600', 'account', c.id,
+       ARRAY['Full access account', 'Complete email access included', 'Instant delivery after purchase', '24/7 support for any issues or questions'],
+       'https://cipher88.store'
+FROM product_categories c
+WHERE c.slug = 'accounts'
+  AND NOT EXISTS (SELECT 1 FROM products WHERE item_type = 'account');
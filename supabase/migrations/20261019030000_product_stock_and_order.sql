@@ -0,0 +1,134 @@
+/*
+  # Product visibility, display order and stock
+
+  Staff can hide products, order them on the store, and limit how many of a
+  product can be sold (e.g. 10 CHAMPA ranks per season). Stock is reserved
+  atomically when create-order accepts a quote and given back when the order
+  is cancelled.
+
+  1. Changes
+    - `products.sort_order` (integer, display order on the store; seeded
+      from the current price order)
+    - `products.stock` (integer, units left; null for unlimited)
+
+  2. New Tables
+    - `stock_reservations`
+      - `quote_id` (references price_quotes; the order paid against this
+        quote holds the stock)
+      - `product_id` (references products, cascade on delete)
+      - `quantity` (integer)
+      - `created_at` (timestamptz)
+
+  3. Functions
+    - `reserve_stock(quote_id)` takes the quote's lines out of stock, locking
+      each limited product row so concurrent orders can't oversell. Raises
+      PT409 when a product has too few left, without reserving anything
+    - `release_stock(quote_id)` puts a quote's reserved stock back
+    - Cancelling an order releases its stock (trigger)
+
+  4. Security
+    - RLS on `stock_reservations`; signed-in staff can read them
+    - `reserve_stock` and `release_stock` are only executable by the service
+      role
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS sort_order integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS stock integer CHECK (stock >= 0);
+
+UPDATE products p
+SET sort_order = ranked.position
+FROM (SELECT id, (row_number() OVER (ORDER BY price, id) - 1)::integer AS position FROM products) ranked
+WHERE p.id = ranked.id;
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  quote_id uuid NOT NULL REFERENCES price_quotes(id),
+  product_id integer NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (quote_id, product_id)
+);
+
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read stock reservations" ON stock_reservations
+FOR SELECT TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION reserve_stock(p_quote_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  line record;
+BEGIN
+  -- Product id order, so two orders never wait on each other's rows
+  FOR line IN
+    SELECT (l ->> 'product_id')::integer AS product_id,
+           (l ->> 'quantity')::integer AS quantity,
+           l ->> 'product_name' AS product_name
+    FROM price_quotes q, jsonb_array_elements(q.lines) l
+    WHERE q.id = p_quote_id
+    ORDER BY 1
+  LOOP
+    UPDATE products
+    SET stock = stock - line.quantity
+    WHERE id = line.product_id
+      AND stock IS NOT NULL
+      AND stock >= line.quantity;
+
+    IF FOUND THEN
+      INSERT INTO stock_reservations (quote_id, product_id, quantity)
+      VALUES (p_quote_id, line.product_id, line.quantity);
+    ELSIF EXISTS (SELECT 1 FROM products WHERE id = line.product_id AND stock IS NOT NULL) THEN
+      -- Rolls back the lines already reserved
+      RAISE EXCEPTION '% is sold out', line.product_name USING ERRCODE = 'PT409';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_stock(p_quote_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  -- Products made unlimited since the order keep a null stock
+  UPDATE products p
+  SET stock = p.stock + r.quantity
+  FROM stock_reservations r
+  WHERE r.quote_id = p_quote_id
+    AND p.id = r.product_id
+    AND p.stock IS NOT NULL;
+
+  DELETE FROM stock_reservations WHERE quote_id = p_quote_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restock_cancelled_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM release_stock(NEW.quote_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restock_cancelled_order ON orders;
+CREATE TRIGGER restock_cancelled_order
+AFTER UPDATE OF status ON orders
+FOR EACH ROW
+WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' AND NEW.quote_id IS NOT NULL)
+EXECUTE PROCEDURE restock_cancelled_order();
+
+REVOKE EXECUTE ON FUNCTION reserve_stock(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_stock(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restock_cancelled_order() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_stock(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION release_stock(uuid) TO service_role;
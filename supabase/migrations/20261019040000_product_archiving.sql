@@ -0,0 +1,80 @@
+/*
+  # Product archiving
+
+  Staff can now create and remove products from the admin dashboard. A
+  product that orders or live quotes refer to is archived rather than
+  deleted, so order history, delivery and renewals keep working.
+
+  1. Changes
+    - `products.archived_at` (timestamptz, set when the product is archived;
+      an archived product is never shown in the store)
+    - Product names are unique, ignoring case: orders, delivery and
+      renewals look products up by name
+    - `products.color` must be a Tailwind gradient, e.g.
+      `from-emerald-500 to-emerald-600`
+
+  2. Functions
+    - `delete_product(product_id)` deletes the product, or archives it when
+      an order or a live or redeemed quote includes it. Returns `deleted` or
+      `archived`; raises PT404 when the product does not exist
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+ALTER TABLE products
+  DROP CONSTRAINT IF EXISTS products_archived_hidden,
+  ADD CONSTRAINT products_archived_hidden CHECK (archived_at IS NULL OR active IS NOT TRUE);
+
+ALTER TABLE products
+  DROP CONSTRAINT IF EXISTS products_color_gradient,
+  ADD CONSTRAINT products_color_gradient
+    CHECK (color ~ '^from-[a-z]+-[0-9]{2,3}( via-[a-z]+-[0-9]{2,3})? to-[a-z]+-[0-9]{2,3}$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS products_name_key ON products (lower(name));
+
+CREATE OR REPLACE FUNCTION delete_product(p_product_id integer)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  product_name text;
+  product_line jsonb := jsonb_build_array(jsonb_build_object('product_id', p_product_id));
+BEGIN
+  SELECT name INTO product_name FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found' USING ERRCODE = 'PT404';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM orders o
+    WHERE o.rank_name = product_name OR o.items @> product_line
+  ) OR EXISTS (
+    SELECT 1 FROM price_quotes q
+    WHERE (q.product_id = p_product_id OR q.lines @> product_line)
+      AND (q.used_at IS NOT NULL OR q.expires_at > now())
+  ) THEN
+    UPDATE products
+    SET archived_at = now(), active = false
+    WHERE id = p_product_id;
+
+    RETURN 'archived';
+  END IF;
+
+  -- Only expired, unredeemed quotes are left
+  DELETE FROM price_quotes q
+  WHERE q.product_id = p_product_id OR q.lines @> product_line;
+
+  -- Coupons and sales keep the id: an empty product list would widen them to
+  -- the whole store, and a removed id never matches again
+  DELETE FROM products WHERE id = p_product_id;
+
+  RETURN 'deleted';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION delete_product(integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION delete_product(integer) TO authenticated;
@@ -0,0 +1,103 @@
+/*
+  # Transactional price saves
+
+  The admin price manager saved one product at a time, so a failure part way
+  through left some prices updated and others not. It now sends every
+  changed product in one call that succeeds or fails as a whole.
+
+  1. Functions
+    - `save_product_prices(products, upgrade_price_floor)` updates the price
+      manager's fields of each product in `products` (a JSON array of
+      `{ id, price, original_price, delivery_command, revoke_command,
+      item_type, duration_days, active, sort_order }`) and the
+      `upgrade_price_floor` setting in a single transaction. Raises PT404
+      when a product does not exist or is archived, and PT422 for a
+      negative price
+    - `stock` is only written for rows that include it, as create-order
+      lowers it while the admin has the page open. When a row also has
+      `expected_stock`, the stock is only written if it still holds that
+      value; otherwise the save raises PT409
+
+  2. Security
+    - Runs with the caller's rights, so only signed-in staff can save
+*/
+
+CREATE OR REPLACE FUNCTION save_product_prices(p_products jsonb, p_upgrade_price_floor numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  row jsonb;
+  item record;
+  current_stock integer;
+BEGIN
+  IF p_upgrade_price_floor IS NULL OR p_upgrade_price_floor < 0 THEN
+    RAISE EXCEPTION 'The upgrade price floor must be zero or more' USING ERRCODE = 'PT422';
+  END IF;
+
+  INSERT INTO site_config (key, value)
+  VALUES ('upgrade_price_floor', to_char(p_upgrade_price_floor, 'FM999999990.00'))
+  ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value;
+
+  -- Product id order, so concurrent saves never wait on each other's rows
+  FOR row IN
+    SELECT value
+    FROM jsonb_array_elements(p_products)
+    ORDER BY (value ->> 'id')::integer
+  LOOP
+    SELECT *
+    INTO item
+    FROM jsonb_to_record(row) AS x(
+      id integer,
+      price numeric,
+      original_price numeric,
+      delivery_command text,
+      revoke_command text,
+      item_type text,
+      duration_days integer,
+      active boolean,
+      stock integer,
+      expected_stock integer,
+      sort_order integer
+    );
+
+    IF item.price IS NULL OR item.price < 0 OR item.original_price < 0 THEN
+      RAISE EXCEPTION 'Product % needs a price of zero or more', item.id USING ERRCODE = 'PT422';
+    END IF;
+
+    -- Locks the row, so no order reserves stock between the check and the update
+    SELECT p.stock
+    INTO current_stock
+    FROM products p
+    WHERE p.id = item.id
+      AND p.archived_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', item.id USING ERRCODE = 'PT404';
+    END IF;
+
+    IF row ? 'stock' AND row ? 'expected_stock' AND current_stock IS DISTINCT FROM item.expected_stock THEN
+      RAISE EXCEPTION 'The stock of product % changed since it was loaded. Reload and try again', item.id
+        USING ERRCODE = 'PT409';
+    END IF;
+
+    UPDATE products
+    SET price = item.price,
+        original_price = item.original_price,
+        delivery_command = item.delivery_command,
+        revoke_command = item.revoke_command,
+        item_type = item.item_type,
+        duration_days = item.duration_days,
+        active = item.active,
+        stock = CASE WHEN row ? 'stock' THEN item.stock ELSE stock END,
+        sort_order = item.sort_order
+    WHERE id = item.id;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_product_prices(jsonb, numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_product_prices(jsonb, numeric) TO authenticated;
@@ -0,0 +1,136 @@
+/*
+  # Price history
+
+  Every change to a product's price is recorded so staff can compare how a
+  product sold before and after it. History starts with each product's
+  price when this migration runs.
+
+  1. New Tables
+    - `price_history`
+      - `id` (bigint, identity)
+      - `product_id` (references products, cascade on delete)
+      - `price`, `original_price` (the product's prices from `changed_at` on)
+      - `changed_at` (timestamptz)
+
+  2. Triggers
+    - Creating a product, or changing its `price` or `original_price`,
+      records a `price_history` row
+
+  3. Functions
+    - `get_product_sales_history(days, bucket_days)` returns each product's
+      order count, units and revenue per time bucket over the last `days`
+      days, from the orders' line items. Cancelled orders are left out, and
+      revenue is the line total before any coupon. Orders from before line
+      items count as one unit of their rank at the order total
+
+  4. Security
+    - RLS on `price_history`; signed-in staff can read it, only the trigger
+      writes
+    - `get_product_sales_history` runs with the caller's rights and is only
+      executable by signed-in staff
+*/
+
+CREATE TABLE IF NOT EXISTS price_history (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  product_id integer NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  price DECIMAL(10, 2) NOT NULL,
+  original_price DECIMAL(10, 2),
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS price_history_product_id_changed_at_idx
+  ON price_history (product_id, changed_at);
+
+ALTER TABLE price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read price history" ON price_history
+FOR SELECT TO authenticated USING (true);
+
+INSERT INTO price_history (product_id, price, original_price)
+SELECT p.id, p.price, p.original_price
+FROM products p
+WHERE NOT EXISTS (SELECT 1 FROM price_history h WHERE h.product_id = p.id);
+
+CREATE OR REPLACE FUNCTION record_price_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.price IS DISTINCT FROM OLD.price
+     OR NEW.original_price IS DISTINCT FROM OLD.original_price THEN
+    INSERT INTO price_history (product_id, price, original_price)
+    VALUES (NEW.id, NEW.price, NEW.original_price);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_price_change ON products;
+CREATE TRIGGER record_price_change
+AFTER INSERT OR UPDATE OF price, original_price ON products
+FOR EACH ROW
+EXECUTE PROCEDURE record_price_change();
+
+CREATE OR REPLACE FUNCTION get_product_sales_history(
+  p_days integer DEFAULT 90,
+  p_bucket_days integer DEFAULT 1
+)
+RETURNS TABLE (
+  product_id integer,
+  bucket timestamptz,
+  order_count integer,
+  units integer,
+  revenue numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH recent_orders AS (
+    SELECT o.id, o.created_at, o.items, o.rank_name, o.total_amount
+    FROM orders o
+    WHERE o.status <> 'cancelled'
+      AND o.created_at >= now() - make_interval(days => least(greatest(p_days, 1), 366))
+  ),
+  lines AS (
+    SELECT o.id AS order_id,
+           o.created_at,
+           coalesce((l ->> 'product_id')::integer, p.id) AS product_id,
+           coalesce((l ->> 'quantity')::integer, 1) AS quantity,
+           coalesce((l ->> 'price')::numeric, 0) AS price
+    FROM recent_orders o
+    CROSS JOIN jsonb_array_elements(
+      CASE WHEN jsonb_typeof(o.items) = 'array' THEN o.items ELSE '[]'::jsonb END
+    ) l
+    LEFT JOIN products p ON p.name = coalesce(l ->> 'product_name', l ->> 'name')
+
+    UNION ALL
+
+    SELECT o.id, o.created_at, p.id, 1, o.total_amount
+    FROM recent_orders o
+    JOIN products p ON p.name = o.rank_name
+    WHERE o.items IS NULL
+       OR o.items = '[]'::jsonb
+       OR jsonb_typeof(o.items) <> 'array'
+  )
+  SELECT l.product_id,
+         date_bin(
+           make_interval(days => greatest(p_bucket_days, 1)),
+           l.created_at,
+           TIMESTAMPTZ '2000-01-01'
+         ) AS bucket,
+         count(DISTINCT l.order_id)::integer AS order_count,
+         sum(l.quantity)::integer AS units,
+         sum(l.price) AS revenue
+  FROM lines l
+  WHERE l.product_id IS NOT NULL
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_product_sales_history(integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_product_sales_history(integer, integer) TO authenticated;
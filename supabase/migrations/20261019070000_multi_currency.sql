@@ -0,0 +1,103 @@
+/*
+  # Multi-currency display
+
+  Prices are stored and charged in the store currency. Customers can view
+  them in other currencies at exchange rates the staff maintain.
+
+  1. Settings
+    - `site_config.store_currency` (ISO 4217 code, `USD` to start). Changing
+      it does not convert stored prices
+
+  2. New Tables
+    - `currency_rates`
+      - `code` (text, primary key, ISO 4217 code)
+      - `rate` (numeric, units of this currency per one unit of the store
+        currency)
+      - `sort_order` (integer, order in the store's currency switcher)
+      - `created_at`, `updated_at`
+
+  3. Changes
+    - `orders.currency`: the store currency when the order was placed, so
+      old orders keep their currency if the store currency changes
+
+  4. Functions
+    - `store_currency()` returns the current store currency
+    - `lookup_order` also returns the order's currency (dropped and
+      recreated, as its result columns change)
+
+  5. Security
+    - RLS on `currency_rates`; anyone can read, signed-in staff can modify
+*/
+
+INSERT INTO site_config (key, value)
+VALUES ('store_currency', 'USD')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS currency_rates (
+  code text PRIMARY KEY CHECK (code ~ '^[A-Z]{3}$'),
+  rate numeric(18, 6) NOT NULL CHECK (rate > 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE currency_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read currency rates" ON currency_rates
+FOR SELECT USING (true);
+
+CREATE POLICY "Allow authenticated users to modify currency rates" ON currency_rates
+FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS update_currency_rates_timestamp ON currency_rates;
+CREATE TRIGGER update_currency_rates_timestamp
+BEFORE UPDATE ON currency_rates
+FOR EACH ROW EXECUTE PROCEDURE update_modified_column();
+
+CREATE OR REPLACE FUNCTION store_currency()
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce((SELECT upper(value) FROM site_config WHERE key = 'store_currency'), 'USD');
+$$;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT store_currency();
+
+DROP FUNCTION IF EXISTS lookup_order(text, text);
+
+CREATE FUNCTION lookup_order(p_order_number text, p_username text)
+RETURNS TABLE (
+  order_number text,
+  customer_name text,
+  platform text,
+  rank_name text,
+  items jsonb,
+  total_amount DECIMAL(10, 2),
+  currency text,
+  status text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  expires_at timestamptz,
+  gift_recipient_name text,
+  gift_recipient_platform text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.order_number, o.customer_name, o.platform, o.rank_name, o.items,
+         o.total_amount, o.currency, o.status, o.created_at, o.updated_at, o.expires_at,
+         o.gift_recipient_name, o.gift_recipient_platform
+  FROM orders o
+  WHERE o.order_number = upper(trim(p_order_number))
+    AND (lower(o.customer_name) = lower(trim(p_username))
+      OR lower(o.gift_recipient_name) = lower(trim(p_username)))
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION lookup_order(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION lookup_order(text, text) TO anon, authenticated;
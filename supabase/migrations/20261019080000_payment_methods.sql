@@ -0,0 +1,78 @@
+/*
+  # Payment methods
+
+  The order form showed a single payment QR code from
+  `site_config.qr_code_image`. Staff now list each way they accept payment
+  (bank QR, e-wallets, PayPal) with its own instructions, account number, QR
+  code and fee, and the customer picks one when paying.
+
+  1. New Tables
+    - `payment_methods`
+      - `id` (uuid, primary key)
+      - `name` (text, unique ignoring case, e.g. "ABA Bank")
+      - `kind` (`bank_qr`, `ewallet` or `paypal`)
+      - `instructions` (text shown above the QR code)
+      - `account_number` (text, e.g. a bank account, phone number or PayPal
+        email; empty when the QR code is enough)
+      - `qr_image_url` (text, empty for methods without a QR code)
+      - `fee_percent` (numeric, percentage of the order total) and
+        `fee_fixed` (numeric, in the store currency) added to the order
+      - `active` (boolean, inactive methods are hidden from the store)
+      - `sort_order` (integer, order in the method picker)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - `orders.payment_method_id` (null once the method is deleted)
+    - `orders.payment_method`: the method's name when the order was placed
+    - `orders.payment_fee`: the method's fee, included in `total_amount`
+
+  3. Security
+    - RLS on `payment_methods`; anyone can read, signed-in staff can modify
+
+  4. Seed
+    - A "Bank QR" method with the current `qr_code_image`, so the store keeps
+      taking payments the way it did
+*/
+
+CREATE TABLE IF NOT EXISTS payment_methods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 50),
+  kind text NOT NULL DEFAULT 'bank_qr' CHECK (kind IN ('bank_qr', 'ewallet', 'paypal')),
+  instructions text NOT NULL DEFAULT '',
+  account_number text NOT NULL DEFAULT '',
+  qr_image_url text NOT NULL DEFAULT '',
+  fee_percent numeric(5, 2) NOT NULL DEFAULT 0 CHECK (fee_percent BETWEEN 0 AND 100),
+  fee_fixed DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (fee_fixed >= 0),
+  active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS payment_methods_name_key ON payment_methods (lower(name));
+
+ALTER TABLE payment_methods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read payment methods" ON payment_methods
+FOR SELECT USING (true);
+
+CREATE POLICY "Allow authenticated users to modify payment methods" ON payment_methods
+FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS update_payment_methods_timestamp ON payment_methods;
+CREATE TRIGGER update_payment_methods_timestamp
+BEFORE UPDATE ON payment_methods
+FOR EACH ROW EXECUTE PROCEDURE update_modified_column();
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS payment_method_id uuid REFERENCES payment_methods(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS payment_method text,
+  ADD COLUMN IF NOT EXISTS payment_fee DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (payment_fee >= 0);
+
+INSERT INTO payment_methods (name, kind, instructions, qr_image_url, sort_order)
+SELECT 'Bank QR',
+       'bank_qr',
+       'Scan the QR code below to pay',
+       coalesce((SELECT value FROM site_config WHERE key = 'qr_code_image'), '/images/qr/qrcode.jpg'),
+       0
+WHERE NOT EXISTS (SELECT 1 FROM payment_methods);
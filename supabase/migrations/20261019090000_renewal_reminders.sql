@@ -0,0 +1,21 @@
+/*
+  # Renewal reminders
+
+  Time-limited ranks ran out without warning. The scheduled
+  `process-rank-expiry` function now tells the rank holder in game a few days
+  before their rank expires, with a link that renews it.
+
+  1. Changes
+    - `orders.renewal_reminded_at` (set once the reminder was sent, so each
+      order is reminded only once)
+
+  2. Indexes
+    - Ranks awaiting a reminder, for the scheduled job
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS renewal_reminded_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS orders_renewal_reminder_idx
+  ON orders (expires_at)
+  WHERE expires_at IS NOT NULL AND renewal_reminded_at IS NULL AND revoked_at IS NULL AND superseded_by IS NULL;
@@ -0,0 +1,44 @@
+/*
+  # Pruning unused price quotes
+
+  Every call to the price-quote function stores a quote, and most are never
+  paid against. The scheduled `prune-price-quotes` function now deletes
+  expired quotes that no order, coupon redemption or stock reservation uses.
+
+  1. Functions
+    - `prune_price_quotes(older_than)` deletes quotes that expired more than
+      `older_than` ago and were never redeemed; returns how many it deleted
+
+  2. Indexes
+    - Unredeemed quotes by expiry, for the scheduled job
+
+  3. Security
+    - Only the Netlify functions (service role) can prune quotes
+*/
+
+CREATE INDEX IF NOT EXISTS price_quotes_unused_expiry_idx
+  ON price_quotes (expires_at)
+  WHERE used_at IS NULL;
+
+CREATE OR REPLACE FUNCTION prune_price_quotes(p_older_than interval)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  deleted integer;
+BEGIN
+  DELETE FROM price_quotes q
+  WHERE q.used_at IS NULL
+    AND q.expires_at < now() - p_older_than
+    AND NOT EXISTS (SELECT 1 FROM orders o WHERE o.quote_id = q.id)
+    AND NOT EXISTS (SELECT 1 FROM coupon_redemptions r WHERE r.quote_id = q.id)
+    AND NOT EXISTS (SELECT 1 FROM stock_reservations s WHERE s.quote_id = q.id);
+
+  GET DIAGNOSTICS deleted = ROW_COUNT;
+  RETURN deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION prune_price_quotes(interval) FROM PUBLIC, anon, authenticated;
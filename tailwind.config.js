@@ -1,6 +1,13 @@
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
+  // Product gradients are stored in the database; keep in sync with
+  // GRADIENT_COLORS and GRADIENT_SHADES in src/types/product.ts
+  safelist: [
+    {
+      pattern: /^(from|via|to)-(slate|gray|red|orange|amber|yellow|lime|green|emerald|teal|cyan|sky|blue|indigo|violet|purple|fuchsia|pink|rose)-(300|400|500|600|700|800)$/,
+    },
+  ],
   theme: {
     extend: {},
   },